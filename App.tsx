@@ -1,12 +1,51 @@
 
 
-import React, { useState, useMemo } from 'react';
-import * as XLSX from 'xlsx';
+import React, { useState, useMemo, useEffect, useRef, useCallback } from 'react';
 import { ScheduleTable } from './components/ScheduleTable';
-import { BookingModal } from './components/BookingModal';
-import { Booking, Hall } from './types';
-import { getDaysInMonth, formatToYYYYMMDD, formatDateDisplay } from './utils/dateUtils';
+import { BookingModal, BookingFormData, BookingOwnership } from './components/BookingModal';
+import { HallAdmin } from './components/HallAdmin';
+import { BlackoutAdmin } from './components/BlackoutAdmin';
+import { DepartmentAdmin, DepartmentLinks } from './components/DepartmentAdmin';
+import { SettingsAdmin } from './components/SettingsAdmin';
+import { UserAdmin } from './components/UserAdmin';
+import { LoginScreen } from './components/LoginScreen';
+import { DayView } from './components/DayView';
+import { WeekView } from './components/WeekView';
+import { ScheduleDragProvider, GridSlot, BookingPlacement } from './components/ScheduleDrag';
+import { AuditEntry, Blackout, Booking, BookingStatus, Department, Hall, SeriesScope } from './types';
+import { getDaysInMonth, formatToYYYYMMDD, formatDateDisplay, parseYYYYMMDD, fromHijriMonth, getHijriMonthDays, toHijri } from './utils/dateUtils';
+import { getHallSchedule, getHallTimeSlots, getDayTimeSlots } from './utils/timeSlots';
 import { LocationIcon, PhoneIcon, EmailIcon, HomeIcon } from './components/icons';
+import { createBookingRepository, BookingInput } from './services/bookingRepository';
+import { createHallRepository, HallInput } from './services/hallRepository';
+import { createBlackoutRepository, BlackoutInput } from './services/blackoutRepository';
+import { createDepartmentRepository, DepartmentInput } from './services/departmentRepository';
+import { assertBookable } from './utils/availability';
+import { expandRecurrence, getSeriesScopeTargets, isSameRecurrence, matchOccurrences, trimRecurrence } from './utils/recurrence';
+import { createId } from './services/storage';
+import { DEFAULT_DEPARTMENTS, DEFAULT_HALLS } from './constants';
+import { useAuth } from './contexts/AuthContext';
+import { useSettings } from './contexts/SettingsContext';
+import { useLocale } from './contexts/LocaleContext';
+import { applyWorkWeek, getWeekStart } from './utils/workWeek';
+import { canApprove, canModifyBooking, getInitialStatus, getStatusAfterEdit, isAdmin } from './utils/permissions';
+import { BookingSlot, holdsSlot, isSameBlackout } from './utils/bookingRules';
+import { ApprovalQueue } from './components/ApprovalQueue';
+import { AuditHistory } from './components/AuditHistory';
+import { UsageReports } from './components/UsageReports';
+import { BookingSearch } from './components/BookingSearch';
+import { Toast } from './components/Toast';
+import { exportBookingsToExcel } from './services/excelExport';
+import { downloadBookingCalendar, exportHallCalendar, getHallFeedUrl } from './services/calendarExport';
+import { ImportedBooking } from './services/excelImport';
+import { ImportDialog } from './components/ImportDialog';
+import { LanguageSwitcher } from './components/LanguageSwitcher';
+import { ExportDialog } from './components/ExportDialog';
+import { PrintView } from './components/PrintView';
+import { useUndoStack } from './hooks/useUndoStack';
+import { createAuditLog, createAuditedBookingRepository } from './services/auditLog';
+import { getBookingHistory } from './utils/auditTrail';
+import { linkDepartment } from './utils/departments';
 
 // Function to generate dynamic initial bookings for the current month
 const generateInitialBookings = (): Booking[] => {
@@ -19,50 +58,321 @@ const generateInitialBookings = (): Booking[] => {
     return [
         {
             id: '1',
-            hallId: Hall.AlWaha,
+            hallId: DEFAULT_HALLS[0].id,
             date: formatToYYYYMMDD(today),
             time: '09:00',
             endTime: '11:00',
             department: 'قسم الموارد البشرية',
+            departmentId: DEFAULT_DEPARTMENTS[0].id,
             notes: 'مقابلات توظيف'
         },
         {
             id: '2',
-            hallId: Hall.AlWaha,
+            hallId: DEFAULT_HALLS[0].id,
             date: formatToYYYYMMDD(tomorrow),
             time: '11:00',
             endTime: '12:00',
             department: 'قسم تكنولوجيا المعلومات',
+            departmentId: DEFAULT_DEPARTMENTS[1].id,
             notes: 'اجتماع فريق الدعم'
         },
         {
             id: '3',
-            hallId: Hall.AlDana,
+            hallId: DEFAULT_HALLS[1].id,
             date: formatToYYYYMMDD(dayAfter),
             time: '14:00',
             endTime: '16:00',
             department: 'قسم التسويق',
+            departmentId: DEFAULT_DEPARTMENTS[2].id,
             notes: 'ورشة عمل عن الحملات الإعلانية'
         }
     ];
 };
 
+const scheduleViews: ('month' | 'week' | 'day')[] = ['month', 'week', 'day'];
+
+const bookingStore = createBookingRepository(generateInitialBookings);
+const auditLog = createAuditLog();
+const hallRepository = createHallRepository();
+const blackoutRepository = createBlackoutRepository();
+const departmentRepository = createDepartmentRepository();
+
 const App: React.FC = () => {
-    const [selectedHall, setSelectedHall] = useState<Hall>(Hall.AlWaha);
+    const { user, users, isLoading: isAuthLoading, signOut, saveUser } = useAuth();
+    const { settings, saveSettings } = useSettings();
+    const { t, hallName, formatNumber } = useLocale();
+    const [storedHalls, setStoredHalls] = useState<Hall[]>([]);
+    // Halls as the booking rules see them, with the organisation's weekend applied
+    const halls = useMemo(() => storedHalls.map(hall => applyWorkWeek(hall, settings)), [storedHalls, settings]);
+    const [selectedHall, setSelectedHall] = useState<string>('');
+    const [activeView, setActiveView] = useState<'schedule' | 'halls' | 'blackouts' | 'departments' | 'settings' | 'users' | 'approvals' | 'history' | 'reports'>('schedule');
     const [currentDate, setCurrentDate] = useState(new Date());
-    const [bookings, setBookings] = useState<Booking[]>(generateInitialBookings());
+    const [bookings, setBookings] = useState<Booking[]>([]);
+    const [blackouts, setBlackouts] = useState<Blackout[]>([]);
+    const [departments, setDepartments] = useState<Department[]>([]);
+    const [pageError, setPageError] = useState('');
+    const [auditEntries, setAuditEntries] = useState<AuditEntry[]>([]);
+
+    // Every booking write is recorded in the audit log as the signed-in user
+    const userIdRef = useRef(user?.id);
+    userIdRef.current = user?.id;
+    const [bookingRepository] = useState(() => createAuditedBookingRepository(bookingStore, auditLog, {
+        getActorId: () => userIdRef.current,
+        onRecord: entry => setAuditEntries(prev => [...prev, entry]),
+    }));
+
+    const undoStack = useUndoStack();
+    const [toast, setToast] = useState<{ id: number; message: string; undoable?: boolean } | null>(null);
+    const dismissToast = useCallback(() => setToast(null), []);
+    const showToast = (message: string, undoable = false) => setToast({ id: Date.now(), message, undoable });
+
+    // Latest bookings for commands that run after the render that created them
+    const bookingsRef = useRef<Booking[]>([]);
+    // Undoing a delete re-creates the booking under a new id; older commands
+    // still refer to the old one.
+    const idAliases = useRef(new Map<string, string>());
+
+    // History belongs to whoever made the changes
+    useEffect(() => {
+        undoStack.clear();
+        setToast(null);
+    }, [user?.id, undoStack.clear]);
 
     const [modalInfo, setModalInfo] = useState<{
         isOpen: boolean;
         bookingToEdit?: Booking;
         date?: Date;
         time?: string;
+        endTime?: string;
+        hallId?: string;
+        duplicateOf?: Booking;
     }>({ isOpen: false });
+    const [isImportOpen, setIsImportOpen] = useState(false);
+    const [isExportOpen, setIsExportOpen] = useState(false);
+    const [isPrintOpen, setIsPrintOpen] = useState(false);
+    const [scheduleView, setScheduleView] = useState<'month' | 'week' | 'day'>('month');
+    const [monthCalendar, setMonthCalendar] = useState<'gregorian' | 'hijri'>('gregorian');
+    const [isSearchOpen, setIsSearchOpen] = useState(false);
+    const [highlightedBookingId, setHighlightedBookingId] = useState<string | undefined>();
+
+    // The API only answers signed-in users, so data loads once someone is
+    useEffect(() => {
+        if (!user) return;
+        Promise.all([hallRepository.list(), bookingRepository.list(), auditLog.list(), blackoutRepository.list(), departmentRepository.list()])
+            .then(([loadedHalls, loadedBookings, loadedEntries, loadedBlackouts, loadedDepartments]) => {
+                setStoredHalls(loadedHalls);
+                setBookings(loadedBookings);
+                setBlackouts(loadedBlackouts);
+                setDepartments(loadedDepartments);
+                setAuditEntries(loadedEntries);
+            })
+            .catch((e: any) => setPageError(e.message || t.app.loadFailed));
+    }, [user?.id]);
+
+    // The API writes the log itself, so it is re-read whenever it is about to be shown
+    useEffect(() => {
+        if (!user || auditLog.create || (activeView !== 'history' && !modalInfo.bookingToEdit)) return;
+        auditLog.list()
+            .then(setAuditEntries)
+            .catch((e: any) => setPageError(e.message || t.app.loadFailed));
+    }, [user?.id, activeView, modalInfo.bookingToEdit]);
+
+    bookingsRef.current = bookings;
+
+    const activeHalls = useMemo(() => halls.filter(h => h.active), [halls]);
+    // Rejected and cancelled requests stay on record but leave the grid
+    const scheduledBookings = useMemo(() => bookings.filter(holdsSlot), [bookings]);
+    // Retired halls have no schedule to show a search result in
+    const searchableBookings = useMemo(() => scheduledBookings.filter(b => activeHalls.some(h => h.id === b.hallId)), [scheduledBookings, activeHalls]);
+    const pendingCount = useMemo(() => bookings.filter(b => b.status === 'pending').length, [bookings]);
+
+    // Keep the selection on a bookable hall as the catalogue loads or changes
+    useEffect(() => {
+        if (!activeHalls.some(h => h.id === selectedHall)) {
+            setSelectedHall(activeHalls[0]?.id || '');
+        }
+    }, [activeHalls, selectedHall]);
+
+    const hallNames = useMemo(() => Object.fromEntries(halls.map(h => [h.id, hallName(h)])), [halls, hallName]);
+    const selectedHallSchedule = getHallSchedule(halls.find(h => h.id === selectedHall));
+
+    // Column boundaries for the grid, derived from the hall's working hours
+    const timeSlots = useMemo(() => getHallTimeSlots(selectedHallSchedule), [selectedHallSchedule]);
+
+    // The month grid and the year/month pickers follow the Hijri calendar when it is selected
+    const isHijriMonth = settings.showHijriDates && monthCalendar === 'hijri';
+    const currentHijri = toHijri(currentDate);
+    const daysInMonth = useMemo(() => isHijriMonth
+        ? getHijriMonthDays(currentDate)
+        : getDaysInMonth(currentDate.getFullYear(), currentDate.getMonth()), [currentDate, isHijriMonth]);
+    const monthLabel = isHijriMonth
+        ? `${t.calendar.hijriMonths[currentHijri.month - 1]} ${currentHijri.year} ${t.calendar.hijriSuffix}`
+        : `${t.calendar.months[currentDate.getMonth()]} ${currentDate.getFullYear()}`;
+
+    const weekDays = useMemo(() => {
+        const weekStart = getWeekStart(currentDate, settings.firstDayOfWeek);
+        return Array.from({ length: 7 }, (_, i) => new Date(weekStart.getFullYear(), weekStart.getMonth(), weekStart.getDate() + i));
+    }, [currentDate, settings.firstDayOfWeek]);
+
+    const handleCellClick = (date: Date, time: string, hallId?: string) => {
+        setModalInfo({ isOpen: true, date, time, hallId });
+    };
+
+    const stampUpdate = () => ({ updatedBy: user?.id, updatedAt: new Date().toISOString() });
+
+    const stampStatus = (status: BookingStatus | undefined, note = '') => ({
+        status,
+        statusBy: user?.id,
+        statusAt: new Date().toISOString(),
+        statusNote: note,
+    });
+
+    // New bookings and requester edits in approval-only halls wait for an approver
+    const applyStatus = <T extends BookingSlot>(data: T, previous?: Booking): T => {
+        const hall = halls.find(h => h.id === data.hallId);
+        const status = previous ? getStatusAfterEdit(previous, data, hall, user) : getInitialStatus(hall, user);
+        return status === previous?.status ? data : { ...data, ...stampStatus(status) };
+    };
+
+    const resolveId = (id: string) => {
+        let current = id;
+        while (idAliases.current.has(current)) {
+            current = idAliases.current.get(current)!;
+        }
+        return current;
+    };
+
+    // Moves the repository and the grid from one set of booking snapshots to
+    // another: snapshots only in `from` are deleted, those in both are
+    // overwritten, and those only in `to` are restored.
+    const replaceBookings = async (from: Booking[], to: Booking[]) => {
+        const fromIds = new Set(from.map(b => b.id));
+        const toIds = new Set(to.map(b => b.id));
+        const replacedIds = from.map(b => resolveId(b.id));
+        assertBookable(to.filter(holdsSlot), bookingsRef.current, halls, replacedIds, blackouts);
 
-    const daysInMonth = useMemo(() => getDaysInMonth(currentDate.getFullYear(), currentDate.getMonth()), [currentDate]);
+        const removedIds = from.filter(b => !toIds.has(b.id)).map(b => resolveId(b.id));
+        await Promise.all(removedIds.map(id => bookingRepository.delete(id)));
+        const saved: Booking[] = [];
+        for (const snapshot of to) {
+            if (fromIds.has(snapshot.id)) {
+                const { id, ...data } = snapshot;
+                let updated = await bookingRepository.update(resolveId(id), data);
+                // The API keeps the status out of updates, so a changed one is replayed as a decision
+                if (data.status && updated.status !== data.status) {
+                    const status = data.status === 'approved' ? getInitialStatus(halls.find(h => h.id === data.hallId), user) : data.status;
+                    if (updated.status !== status) {
+                        updated = await bookingRepository.setStatus(updated.id, status, data.statusNote, user?.id);
+                    }
+                }
+                saved.push(updated);
+            } else {
+                const restored = await bookingRepository.restore(snapshot);
+                idAliases.current.set(snapshot.id, restored.id);
+                saved.push(restored);
+            }
+        }
+        setBookings(prev => [
+            ...prev.filter(b => !removedIds.includes(b.id) && !saved.some(s => s.id === b.id)),
+            ...saved,
+        ]);
+    };
+
+    const recordChange = (label: string, before: Booking[], after: Booking[], destructive = false) => {
+        undoStack.push({
+            label,
+            undo: () => replaceBookings(after, before),
+            redo: () => replaceBookings(before, after),
+        });
+        if (destructive) {
+            showToast(label, true);
+        }
+    };
+
+    const handleUndo = async () => {
+        try {
+            setPageError('');
+            const command = await undoStack.undo();
+            if (command) showToast(t.app.undone(command.label));
+        } catch (e: any) {
+            setPageError(e.message || t.app.undoFailed);
+        }
+    };
+
+    const handleRedo = async () => {
+        try {
+            setPageError('');
+            const command = await undoStack.redo();
+            if (command) showToast(t.app.redone(command.label));
+        } catch (e: any) {
+            setPageError(e.message || t.app.redoFailed);
+        }
+    };
+
+    const shortcuts = useRef({ handleUndo, handleRedo, isModalOpen: false });
+    shortcuts.current = { handleUndo, handleRedo, isModalOpen: modalInfo.isOpen };
+
+    // Ctrl/Cmd+Z undoes, Ctrl/Cmd+Y or Ctrl/Cmd+Shift+Z redoes. Form fields keep
+    // their own text undo.
+    useEffect(() => {
+        const handleKeyDown = (e: KeyboardEvent) => {
+            if (!(e.ctrlKey || e.metaKey) || shortcuts.current.isModalOpen) return;
+            const target = e.target as HTMLElement;
+            if (target.closest('input, textarea, select, [contenteditable="true"]')) return;
+            const key = e.key.toLowerCase();
+            if (key === 'z' && !e.shiftKey) {
+                e.preventDefault();
+                shortcuts.current.handleUndo();
+            } else if (key === 'y' || (key === 'z' && e.shiftKey)) {
+                e.preventDefault();
+                shortcuts.current.handleRedo();
+            }
+        };
+        window.addEventListener('keydown', handleKeyDown);
+        return () => window.removeEventListener('keydown', handleKeyDown);
+    }, []);
+
+    const handleCreateRange = (slot: GridSlot) => {
+        setModalInfo({ isOpen: true, date: parseYYYYMMDD(slot.date), time: slot.time, endTime: slot.endTime, hallId: slot.hallId });
+    };
+
+    // Drag-and-drop move/resize: applied optimistically, rolled back if the
+    // slot is not bookable or the repository rejects the change.
+    const handlePlaceBooking = async (booking: Booking, placement: BookingPlacement) => {
+        const moved: Booking = applyStatus({ ...booking, ...placement, ...stampUpdate() }, booking);
+        try {
+            setPageError('');
+            if (!canModifyBooking(user, booking)) {
+                throw new Error(t.app.notAllowed);
+            }
+            assertBookable([moved], bookings, halls, [booking.id], blackouts);
+            setBookings(prev => prev.map(b => b.id === booking.id ? moved : b));
+            const { id, ...changes } = moved;
+            const saved = await bookingRepository.update(id, changes);
+            setBookings(prev => prev.map(b => b.id === saved.id ? saved : b));
+            recordChange(t.app.changes.move(booking.department), [booking], [saved]);
+        } catch (e: any) {
+            setBookings(prev => prev.map(b => b.id === booking.id ? booking : b));
+            setPageError(e.message || t.app.moveFailed);
+        }
+    };
 
-    const handleCellClick = (date: Date, time: string) => {
-        setModalInfo({ isOpen: true, date, time });
+    const handleNavigate = (direction: 1 | -1) => {
+        const step = scheduleView === 'week' ? 7 : 1;
+        setCurrentDate(new Date(currentDate.getFullYear(), currentDate.getMonth(), currentDate.getDate() + direction * step));
+    };
+
+    // Shows a search result in the month grid of its hall
+    const handleSearchSelect = (booking: Booking) => {
+        setSelectedHall(booking.hallId);
+        setCurrentDate(parseYYYYMMDD(booking.date));
+        setScheduleView('month');
+        setHighlightedBookingId(booking.id);
+    };
+
+    const handleCloseSearch = () => {
+        setIsSearchOpen(false);
+        setHighlightedBookingId(undefined);
     };
 
     const handleBookingClick = (bookingId: string) => {
@@ -76,103 +386,356 @@ const App: React.FC = () => {
         setModalInfo({ isOpen: false });
     };
 
-    const handleSaveBooking = (bookingData: Omit<Booking, 'id' | 'hallId'>) => {
-        const currentHall = modalInfo.bookingToEdit ? modalInfo.bookingToEdit.hallId : selectedHall;
+    const handleSaveBooking = async (bookingData: BookingFormData, scope: SeriesScope = 'single') => {
+        const bookingToEdit = modalInfo.bookingToEdit;
+        const currentHall = bookingData.hallId;
+        if (!currentHall) {
+            throw new Error(t.app.noHallAvailable);
+        }
+        if (!user || (bookingToEdit && !canModifyBooking(user, bookingToEdit))) {
+            throw new Error(t.app.notAllowed);
+        }
+
+        const targets = bookingToEdit ? getSeriesScopeTargets(bookings, bookingToEdit, scope) : [];
+        const targetIds = targets.map(b => b.id);
+        const regenerate = !bookingToEdit || (
+            !isSameRecurrence(bookingToEdit.recurrence, bookingData.recurrence)
+            && (scope !== 'single' || !bookingToEdit.seriesId)
+        );
 
-        const hasConflict = bookings.some(b => {
-            if (modalInfo.bookingToEdit && b.id === modalInfo.bookingToEdit.id) {
-                return false; // Don't check against self when editing
+        if (regenerate) {
+            // New booking, or the recurrence rule changed: move the targeted
+            // occurrences onto a freshly generated set of dates.
+            const anchorDate = bookingToEdit && scope === 'series'
+                ? targets.reduce((min, b) => b.date < min ? b.date : min, bookingToEdit.date)
+                : bookingData.date;
+            const dates = bookingData.recurrence ? expandRecurrence(anchorDate, bookingData.recurrence) : [anchorDate];
+            if (dates.length === 0) {
+                throw new Error(t.app.noRecurrenceDates);
             }
-            if (b.hallId === currentHall && b.date === bookingData.date) {
-                // Check for time overlap: (StartA < EndB) and (EndA > StartB)
-                return bookingData.time < b.endTime && bookingData.endTime > b.time;
+            // Changing the rule from one occurrence onwards splits the series: the
+            // earlier occurrences end the day before and the rest start a new one
+            const earlier = bookingToEdit && scope === 'following'
+                ? bookings.filter(b => b.seriesId === bookingToEdit.seriesId && !targetIds.includes(b.id))
+                : [];
+            const seriesId = bookingData.recurrence ? ((earlier.length === 0 && bookingToEdit?.seriesId) || createId()) : undefined;
+            // Occurrences carried over to the new dates are updated in place; new
+            // dates are created with the original owner
+            const { pairs, removed } = matchOccurrences(targets, dates);
+            const ownership = bookingToEdit
+                ? { createdBy: bookingToEdit.createdBy, createdAt: bookingToEdit.createdAt, ...stampUpdate() }
+                : { createdBy: user.id, createdAt: new Date().toISOString() };
+            const writes = pairs.map(({ date, booking }) => ({
+                booking,
+                data: applyStatus<BookingInput>(booking
+                    ? { ...booking, ...bookingData, date, hallId: currentHall, seriesId, ...stampUpdate() }
+                    : { ...bookingData, ...ownership, date, hallId: currentHall, seriesId }, booking || bookingToEdit),
+            }));
+
+            assertBookable(writes.map(w => w.data), bookings, halls, targetIds, blackouts);
+
+            const written: { before?: Booking; after: Booking }[] = [];
+            try {
+                for (const { booking, data } of writes) {
+                    const after = booking ? await bookingRepository.update(booking.id, data) : await bookingRepository.create(data);
+                    written.push({ before: booking, after });
+                }
+            } catch (e) {
+                // Roll back the part of the series that was already written
+                await Promise.all(written.map(({ before, after }) => {
+                    if (!before) return bookingRepository.delete(after.id).catch(() => undefined);
+                    const { id, ...previous } = before;
+                    return bookingRepository.update(id, previous).catch(() => undefined);
+                }));
+                throw e;
             }
-            return false;
-        });
+            const saved = written.map(w => w.after);
+            const removedIds = removed.map(b => b.id);
+            await Promise.all(removedIds.map(id => bookingRepository.delete(id)));
+            const trimmed = await Promise.all(earlier.map(b => bookingRepository.update(b.id, {
+                recurrence: b.recurrence && trimRecurrence(b.recurrence, bookingToEdit!.date, 'following'),
+            })));
+            setBookings(prev => [
+                ...prev
+                    .filter(b => !removedIds.includes(b.id) && !saved.some(s => s.id === b.id))
+                    .map(b => trimmed.find(t => t.id === b.id) || b),
+                ...saved,
+            ]);
+            recordChange((bookingToEdit ? t.app.changes.update : t.app.changes.create)(bookingData.department), [...targets, ...earlier], [...saved, ...trimmed]);
+        } else {
+            // Same rule: apply the edited fields to each targeted occurrence, keeping its date
+            const { date: _date, recurrence: _recurrence, ...sharedFields } = bookingData;
+            const changes = (b: Booking): BookingInput => applyStatus(scope === 'single'
+                ? { ...b, ...bookingData, seriesId: b.seriesId, recurrence: b.recurrence, ...stampUpdate() }
+                : { ...b, ...sharedFields, ...stampUpdate() }, b);
+            const updates = targets.map(b => ({ id: b.id, data: changes(b) }));
+
+            assertBookable(updates.map(u => u.data), bookings, halls, targetIds, blackouts);
 
-        if (hasConflict) {
-            throw new Error('يوجد تعارض في الحجز. الرجاء اختيار وقت آخر.');
+            const updated = await Promise.all(updates.map(u => bookingRepository.update(u.id, u.data)));
+            setBookings(prev => prev.map(b => updated.find(u => u.id === b.id) || b));
+            recordChange(t.app.changes.update(bookingData.department), targets, updated);
         }
+        handleCloseModal();
+    };
 
-        if (modalInfo.bookingToEdit) {
-            // Update existing booking
-            setBookings(bookings.map(b => b.id === modalInfo.bookingToEdit!.id ? { ...modalInfo.bookingToEdit!, ...bookingData } : b));
-        } else {
-            // Create new booking
-            const newBooking: Booking = {
-                ...bookingData,
-                id: new Date().toISOString(),
-                hallId: selectedHall,
-            };
-            setBookings([...bookings, newBooking]);
+    const handleDeleteBooking = async (scope: SeriesScope = 'single') => {
+        const bookingToEdit = modalInfo.bookingToEdit;
+        if (!bookingToEdit) {
+            return;
+        }
+        if (!canModifyBooking(user, bookingToEdit)) {
+            throw new Error(t.app.notAllowed);
+        }
+        const targets = getSeriesScopeTargets(bookings, bookingToEdit, scope);
+        const targetIds = targets.map(b => b.id);
+        await Promise.all(targetIds.map(id => bookingRepository.delete(id)));
+
+        // Record the removal on the rest of the series so regenerating it later
+        // does not bring the deleted occurrences back.
+        const remaining = bookings.filter(b =>
+            bookingToEdit.seriesId && b.seriesId === bookingToEdit.seriesId && !targetIds.includes(b.id)
+        );
+        const trimmed = await Promise.all(remaining.map(b => bookingRepository.update(b.id, {
+            recurrence: b.recurrence && trimRecurrence(b.recurrence, bookingToEdit.date, scope),
+        })));
+
+        setBookings(prev => prev
+            .filter(b => !targetIds.includes(b.id))
+            .map(b => trimmed.find(t => t.id === b.id) || b));
+        recordChange(t.app.changes.delete(bookingToEdit.department), [...targets, ...remaining], trimmed, true);
+        handleCloseModal();
+    };
+
+    const updateStatus = async (targets: Booking[], status: BookingStatus, note?: string) => {
+        const updated = await Promise.all(targets.map(b => bookingRepository.setStatus(b.id, status, note, user?.id)));
+        setBookings(prev => prev.map(b => updated.find(u => u.id === b.id) || b));
+        return updated;
+    };
+
+    // Cancelling keeps the booking on record (unlike deleting) but frees the slot
+    const handleCancelBooking = async (scope: SeriesScope = 'single') => {
+        const bookingToEdit = modalInfo.bookingToEdit;
+        if (!bookingToEdit) {
+            return;
+        }
+        if (!canModifyBooking(user, bookingToEdit)) {
+            throw new Error(t.app.notAllowed);
         }
+        const targets = getSeriesScopeTargets(bookings, bookingToEdit, scope).filter(holdsSlot);
+        const cancelled = await updateStatus(targets, 'cancelled');
+        recordChange(t.app.changes.cancel(bookingToEdit.department), targets, cancelled, true);
         handleCloseModal();
     };
 
-    const handleDeleteBooking = () => {
+    const handleDecideRequests = async (requests: Booking[], decision: 'approved' | 'rejected', note?: string) => {
+        if (!canApprove(user)) {
+            throw new Error(t.app.noApprovePermission);
+        }
+        await updateStatus(requests, decision, note);
+    };
+
+    const handleRestoreBooking = async (entry: AuditEntry & { before: Booking }) => {
+        if (!canModifyBooking(user, entry.before)) {
+            throw new Error(t.app.notAllowed);
+        }
+        assertBookable([entry.before], bookings, halls, [], blackouts);
+        const restored = await bookingRepository.restore(entry.before);
+        setBookings(prev => [...prev, restored]);
+        recordChange(t.app.changes.restore(restored.department), [], [restored]);
+    };
+
+    const handleImportBookings = async (imported: ImportedBooking[]) => {
+        if (!user || !isAdmin(user)) {
+            throw new Error(t.app.noImportPermission);
+        }
+        const createdAt = new Date().toISOString();
+        const inputs: BookingInput[] = imported.map(b => applyStatus({ ...b, createdBy: user.id, createdAt }));
+        assertBookable(inputs, bookings, halls, [], blackouts);
+
+        const created: Booking[] = [];
+        try {
+            for (const input of inputs) {
+                created.push(await bookingRepository.create(input));
+            }
+        } catch (e) {
+            await Promise.all(created.map(b => bookingRepository.delete(b.id).catch(() => undefined)));
+            throw e;
+        }
+        setBookings(prev => [...prev, ...created]);
+        setIsImportOpen(false);
+        recordChange(t.app.changes.import(created.length), [], created);
+        showToast(t.app.imported(created.length), true);
+    };
+
+    const handleDuplicateBooking = () => {
         if (modalInfo.bookingToEdit) {
-            setBookings(bookings.filter(b => b.id !== modalInfo.bookingToEdit!.id));
-            handleCloseModal();
+            setModalInfo({ isOpen: true, duplicateOf: modalInfo.bookingToEdit });
+        }
+    };
+
+    const handleSaveHall = async (hallData: HallInput, hallId?: string) => {
+        if (hallId) {
+            const updated = await hallRepository.update(hallId, hallData);
+            setStoredHalls(prev => prev.map(h => h.id === updated.id ? updated : h));
+        } else {
+            const created = await hallRepository.create(hallData);
+            setStoredHalls(prev => [...prev, created]);
+        }
+    };
+
+    const handleSaveBlackout = async (blackoutData: BlackoutInput, blackoutId?: string) => {
+        if (!isAdmin(user)) {
+            throw new Error(t.app.noAdminPermission);
+        }
+        if (blackoutId) {
+            const updated = await blackoutRepository.update(blackoutId, blackoutData);
+            setBlackouts(prev => prev.map(b => b.id === updated.id ? updated : b));
+        } else {
+            const created = await blackoutRepository.create(blackoutData);
+            setBlackouts(prev => [...prev, created]);
+        }
+    };
+
+    const handleDeleteBlackout = async (blackoutId: string) => {
+        if (!isAdmin(user)) {
+            throw new Error(t.app.noAdminPermission);
+        }
+        await blackoutRepository.delete(blackoutId);
+        setBlackouts(prev => prev.filter(b => b.id !== blackoutId));
+    };
+
+    const handleImportBlackouts = async (inputs: BlackoutInput[]) => {
+        if (!isAdmin(user)) {
+            throw new Error(t.app.noAdminPermission);
+        }
+        // Also drops repeats within the file
+        const fresh = inputs.filter((input, i) =>
+            !blackouts.some(b => isSameBlackout(b, input)) && !inputs.slice(0, i).some(other => isSameBlackout(other, input)));
+        const created: Blackout[] = [];
+        try {
+            for (const input of fresh) {
+                created.push(await blackoutRepository.create(input));
+            }
+        } finally {
+            setBlackouts(prev => [...prev, ...created]);
+        }
+        return { imported: created.length, skipped: inputs.length - fresh.length };
+    };
+
+    const handleSaveDepartment = async (departmentData: DepartmentInput, departmentId?: string) => {
+        if (departmentId) {
+            const updated = await departmentRepository.update(departmentId, departmentData);
+            setDepartments(prev => prev.map(d => d.id === updated.id ? updated : d));
+        } else {
+            const created = await departmentRepository.create(departmentData);
+            setDepartments(prev => [...prev, created]);
+        }
+    };
+
+    // Migration of free-text departments: links each booking written one of
+    // the given ways to the chosen registry entry
+    const handleLinkDepartments = async (links: DepartmentLinks) => {
+        const targets = bookings.filter(b => !b.departmentId && links[b.department.trim()]);
+        const updated: Booking[] = [];
+        for (const booking of targets) {
+            const department = departments.find(d => d.id === links[booking.department.trim()]);
+            if (!department) continue;
+            try {
+                updated.push(await bookingRepository.update(booking.id, linkDepartment(department)));
+            } catch {
+                // Left unlinked; the admin screen reports how many
+            }
         }
+        setBookings(prev => prev.map(b => updated.find(u => u.id === b.id) || b));
+        return { linked: updated.length, failed: targets.length - updated.length };
     };
 
     const handleYearChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
         const newYear = parseInt(e.target.value, 10);
-        setCurrentDate(new Date(newYear, currentDate.getMonth(), 1));
+        setCurrentDate(isHijriMonth
+            ? fromHijriMonth(currentDate, newYear, currentHijri.month)
+            : new Date(newYear, currentDate.getMonth(), 1));
     };
 
     const handleMonthChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
         const newMonth = parseInt(e.target.value, 10);
-        setCurrentDate(new Date(currentDate.getFullYear(), newMonth, 1));
+        setCurrentDate(isHijriMonth
+            ? fromHijriMonth(currentDate, currentHijri.year, newMonth)
+            : new Date(currentDate.getFullYear(), newMonth, 1));
     };
 
-    const halls = [
-        { id: Hall.AlWaha, name: 'قاعة الواحة' },
-        { id: Hall.AlDana, name: 'قاعة الدانة' },
-    ];
-
     const monthlyBookingCounts = useMemo(() => {
-        const year = currentDate.getFullYear();
-        const month = currentDate.getMonth() + 1; // getMonth() is 0-indexed
-        const monthString = String(month).padStart(2, '0');
-        const yearMonthPrefix = `${year}-${monthString}`;
-
-        const counts: { [key in Hall]: number } = {
-            [Hall.AlWaha]: 0,
-            [Hall.AlDana]: 0,
-        };
+        const monthDates = new Set(daysInMonth.map(formatToYYYYMMDD));
 
-        for (const booking of bookings) {
-            if (booking.date.startsWith(yearMonthPrefix)) {
+        const counts: Record<string, number> = {};
+        for (const hall of halls) {
+            counts[hall.id] = 0;
+        }
+
+        for (const booking of scheduledBookings) {
+            if (monthDates.has(booking.date) && booking.hallId in counts) {
                 counts[booking.hallId]++;
             }
         }
         return counts;
-    }, [bookings, currentDate]);
-    
-    // Time slots in chronological order
-    const timeSlots = ['07:30', '08:00', '09:00', '10:00', '11:00', '12:00', '13:00', '14:00', '15:00', '16:00', '17:00', '18:00'];
-    
+    }, [scheduledBookings, halls, daysInMonth]);
+
+    const modalHallId = modalInfo.bookingToEdit?.hallId || modalInfo.hallId || selectedHall;
+    const modalHall = halls.find(h => h.id === modalHallId);
+
     const getModalInitialData = () => {
         if (modalInfo.bookingToEdit) {
             return {
+                hallId: modalInfo.bookingToEdit.hallId,
                 date: modalInfo.bookingToEdit.date,
                 time: modalInfo.bookingToEdit.time,
                 endTime: modalInfo.bookingToEdit.endTime,
                 department: modalInfo.bookingToEdit.department,
+                departmentId: modalInfo.bookingToEdit.departmentId,
                 notes: modalInfo.bookingToEdit.notes,
+                attendees: modalInfo.bookingToEdit.attendees,
+                services: modalInfo.bookingToEdit.services,
+                seatingLayout: modalInfo.bookingToEdit.seatingLayout,
+                organizerName: modalInfo.bookingToEdit.organizerName,
+                organizerPhone: modalInfo.bookingToEdit.organizerPhone,
+                organizerEmail: modalInfo.bookingToEdit.organizerEmail,
+                recurrence: modalInfo.bookingToEdit.recurrence,
+                isSeries: !!modalInfo.bookingToEdit.seriesId,
+            }
+        }
+        if (modalInfo.duplicateOf) {
+            // A copy starts as a one-off booking, even when duplicating a series occurrence
+            return {
+                hallId: modalInfo.duplicateOf.hallId,
+                date: modalInfo.duplicateOf.date,
+                time: modalInfo.duplicateOf.time,
+                endTime: modalInfo.duplicateOf.endTime,
+                department: modalInfo.duplicateOf.department,
+                departmentId: modalInfo.duplicateOf.departmentId,
+                notes: modalInfo.duplicateOf.notes,
+                attendees: modalInfo.duplicateOf.attendees,
+                services: modalInfo.duplicateOf.services,
+                seatingLayout: modalInfo.duplicateOf.seatingLayout,
+                organizerName: modalInfo.duplicateOf.organizerName,
+                organizerPhone: modalInfo.duplicateOf.organizerPhone,
+                organizerEmail: modalInfo.duplicateOf.organizerEmail,
             }
         }
         if (modalInfo.date && modalInfo.time) {
             const startTime = modalInfo.time;
 
-            // Set default end time to the next available slot
-            const startTimeIndex = timeSlots.indexOf(startTime);
-            const defaultEndTime = startTimeIndex !== -1 && startTimeIndex + 1 < timeSlots.length
-                ? timeSlots[startTimeIndex + 1]
-                : '';
+            // Set default end time to the dragged range's end, or the next available slot
+            const daySlots = getDayTimeSlots(getHallSchedule(modalHall), modalInfo.date);
+            const startTimeIndex = daySlots.indexOf(startTime);
+            const defaultEndTime = modalInfo.endTime && daySlots.includes(modalInfo.endTime)
+                ? modalInfo.endTime
+                : startTimeIndex !== -1 && startTimeIndex + 1 < daySlots.length
+                    ? daySlots[startTimeIndex + 1]
+                    : '';
 
             return {
+                hallId: modalHallId,
                 date: formatToYYYYMMDD(modalInfo.date),
                 time: modalInfo.time,
                 endTime: defaultEndTime,
@@ -183,304 +746,506 @@ const App: React.FC = () => {
         return null;
     }
     
-    const modalInitialData = getModalInitialData();
+    // Memoized so the modal does not reset its form on unrelated re-renders
+    const modalInitialData = useMemo(getModalInitialData, [modalInfo, modalHall]);
 
-    const currentYear = new Date().getFullYear();
+    const currentYear = isHijriMonth ? toHijri(new Date()).year : new Date().getFullYear();
     const yearsForSelect = Array.from({ length: 11 }, (_, i) => currentYear - 5 + i);
     
-    const months = [
-        { value: 0, name: 'يناير' },
-        { value: 1, name: 'فبراير' },
-        { value: 2, name: 'مارس' },
-        { value: 3, name: 'أبريل' },
-        { value: 4, name: 'مايو' },
-        { value: 5, name: 'يونيو' },
-        { value: 6, name: 'يوليو' },
-        { value: 7, name: 'أغسطس' },
-        { value: 8, name: 'سبتمبر' },
-        { value: 9, name: 'أكتوبر' },
-        { value: 10, name: 'نوفمبر' },
-        { value: 11, name: 'ديسمبر' },
-    ];
-
-    const handleExportToExcel = () => {
-        const hallName = halls.find(h => h.id === selectedHall)?.name || '';
-        const monthName = months.find(m => m.value === currentDate.getMonth())?.name || '';
-        const year = currentDate.getFullYear();
-        const title = `جدول حجوزات ${hallName} - ${monthName} ${year}`;
-    
-        const displayTimeSlots = timeSlots.slice(0, -1);
-        
-        const headerRow1 = [null, null, null, 'من / الى'];
-        const headerRow2 = ['م', 'اليوم', 'التاريخ', ...displayTimeSlots, 'الملاحظات'];
-        
-        const sheetData: (string | number | null)[][] = [
-            [title],
-            [],
-            headerRow1,
-            headerRow2,
-        ];
-    
-        const merges: XLSX.Range[] = [
-            { s: { r: 0, c: 0 }, e: { r: 0, c: headerRow2.length - 1 } },
-            { s: { r: 2, c: 3 }, e: { r: 2, c: 3 + displayTimeSlots.length - 1 } },
-        ];
-    
-        const arabicDayNames: { [key: string]: string } = {
-            'Saturday': 'السبت', 'Sunday': 'الاحد', 'Monday': 'الاثنين',
-            'Tuesday': 'الثلاثاء', 'Wednesday': 'الاربعاء', 'Thursday': 'الخميس',
-            'Friday': 'الجمعة',
-        };
-        const getArabicDayName = (date: Date) => {
-            const dayName = date.toLocaleString('en-US', { weekday: 'long' });
-            return arabicDayNames[dayName] || dayName;
-        };
-    
-        const filteredBookings = bookings.filter(b => b.hallId === selectedHall);
-        
-        daysInMonth.forEach((day, index) => {
-            const rowIndex = sheetData.length;
-            const formattedDate = formatToYYYYMMDD(day);
-            const dayBookings = filteredBookings.filter(b => b.date === formattedDate);
-            const notes = dayBookings.map(b => b.notes).filter(Boolean).join('، ');
-    
-            const row: (string | number | null)[] = [
-                index + 1,
-                getArabicDayName(day),
-                formatDateDisplay(day)
-            ];
-    
-            for (let i = 0; i < displayTimeSlots.length; ) {
-                const time = timeSlots[i];
-                const booking = dayBookings.find(b => b.time === time);
-    
-                if (booking) {
-                    const startTimeIndex = timeSlots.indexOf(booking.time);
-                    const endTimeIndex = timeSlots.indexOf(booking.endTime);
-                    const span = endTimeIndex > startTimeIndex ? endTimeIndex - startTimeIndex : 1;
-                    
-                    row.push(booking.department);
-                    
-                    if (span > 1) {
-                        merges.push({
-                            s: { r: rowIndex, c: 3 + i },
-                            e: { r: rowIndex, c: 3 + i + span - 1 }
-                        });
-                    }
-    
-                    for (let j = 1; j < span; j++) {
-                        row.push(null); 
-                    }
-                    i += span;
-                } else {
-                    row.push('');
-                    i++;
-                }
-            }
-            
-            row.push(notes);
-            sheetData.push(row);
-        });
-    
-        const ws = XLSX.utils.aoa_to_sheet(sheetData);
-        ws['!merges'] = merges;
-        ws['!cols'] = [ {wch:5}, {wch:15}, {wch:15}, ...displayTimeSlots.map(() => ({wch: 15})), {wch: 40} ];
-        ws['!rtl'] = true;
-
-        // --- Improved Styling ---
-        const thinBorder = { style: 'thin', color: { rgb: "FF000000" } };
-        const borderStyle = { top: thinBorder, bottom: thinBorder, left: thinBorder, right: thinBorder };
-        
-        const centerAlignment = { vertical: 'center', horizontal: 'center', wrapText: true };
-
-        const headerStyle = {
-            font: { bold: true, color: { rgb: "FFFFFFFF" } },
-            alignment: centerAlignment,
-            fill: { fgColor: { rgb: "FF0F172A" } }, // slate-900
-            border: borderStyle,
-        };
-
-        const titleStyle = {
-            font: { bold: true, sz: 16, color: { rgb: "FF0F172A" } },
-            alignment: centerAlignment,
-        };
-
-        const weekendFill = { fgColor: { rgb: "FFFBEB" } }; // amber-50
-
-        // Apply title style
-        ws['A1'].s = titleStyle;
+    const handleExportCalendar = () => {
+        const hall = halls.find(h => h.id === selectedHall);
+        if (!hall) return;
+        const monthDates = new Set(daysInMonth.map(formatToYYYYMMDD));
+        exportHallCalendar(scheduledBookings.filter(b => monthDates.has(b.date)), hall, monthLabel);
+    };
 
-        // Apply header styles
-        for (let C = 0; C < headerRow2.length; ++C) {
-            ws[XLSX.utils.encode_cell({r: 2, c: C})].s = headerStyle;
-            ws[XLSX.utils.encode_cell({r: 3, c: C})].s = headerStyle;
+    const hallFeedUrl = getHallFeedUrl(selectedHall);
+    const handleCopyFeedUrl = async () => {
+        if (!hallFeedUrl) return;
+        try {
+            await navigator.clipboard.writeText(hallFeedUrl);
+            showToast(t.app.feedCopied);
+        } catch {
+            window.prompt(t.app.feedPrompt, hallFeedUrl);
         }
+    };
 
-        // Apply styles to all data cells
-        for (let R = 4; R < sheetData.length; ++R) {
-            const day = daysInMonth[R-4];
-            const isWeekend = day.getDay() === 0 || day.getDay() === 6; // Sunday or Saturday
-
-            for (let C = 0; C < headerRow2.length; ++C) {
-                const cellAddress = XLSX.utils.encode_cell({r: R, c: C});
-                if (!ws[cellAddress]) ws[cellAddress] = { t:'s', v:'' }; // Create cell if it doesn't exist (for merged cells)
-
-                ws[cellAddress].s = {
-                    alignment: centerAlignment,
-                    border: borderStyle,
-                    fill: isWeekend ? weekendFill : undefined,
-                };
-            }
-        }
-    
-        const wb = XLSX.utils.book_new();
-        XLSX.utils.book_append_sheet(wb, ws, `حجوزات ${hallName}`);
-        XLSX.writeFile(wb, `حجوزات_${hallName}_${year}_${monthName}.xlsx`);
+    const userNames = Object.fromEntries(users.map(u => [u.id, u.displayName]));
+    const bookingToEdit = modalInfo.bookingToEdit;
+    const canEditModalBooking = !bookingToEdit || canModifyBooking(user, bookingToEdit);
+    const modalOwnership: BookingOwnership | undefined = bookingToEdit && {
+        createdBy: bookingToEdit.createdBy && (userNames[bookingToEdit.createdBy] || bookingToEdit.createdBy),
+        createdAt: bookingToEdit.createdAt,
+        updatedBy: bookingToEdit.updatedBy && (userNames[bookingToEdit.updatedBy] || bookingToEdit.updatedBy),
+        updatedAt: bookingToEdit.updatedAt,
+        status: bookingToEdit.status,
+        statusBy: bookingToEdit.statusBy && (userNames[bookingToEdit.statusBy] || bookingToEdit.statusBy),
+        statusAt: bookingToEdit.statusAt,
+        statusNote: bookingToEdit.statusNote,
     };
 
+    if (!user) {
+        return isAuthLoading ? null : <LoginScreen />;
+    }
+
+    // The print view replaces the whole page so the header and toolbar stay off the paper
+    if (isPrintOpen) {
+        return (
+            <PrintView
+                halls={activeHalls}
+                defaultHallId={selectedHall}
+                days={daysInMonth}
+                bookings={scheduledBookings}
+                blackouts={blackouts}
+                periodLabel={monthLabel}
+                defaultDate={currentDate}
+                onClose={() => setIsPrintOpen(false)}
+            />
+        );
+    }
 
     return (
         <div className="p-4 md:p-8 min-h-screen">
             <header className="mb-6">
                 <div className="bg-slate-900 py-4 px-6 rounded-lg shadow-lg relative">
-                    <div className="absolute top-1/2 -translate-y-1/2 right-6 hidden md:flex">
+                    <div className="absolute top-1/2 -translate-y-1/2 start-6 hidden md:flex">
                         <a href="https://dashboard-rouge-rho-68.vercel.app/" className="flex items-center gap-2 px-4 py-2 text-white text-lg font-semibold rounded-lg bg-blue-800 shadow-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-900 focus:ring-blue-500 transition-all duration-200">
                             <HomeIcon className="w-6 h-6" />
-                            <span>الصفحة الرئيسية</span>
+                            <span>{t.app.home}</span>
                         </a>
                     </div>
-                     <div className="absolute top-1/2 -translate-y-1/2 left-6 hidden md:flex">
+                     <div className="absolute top-1/2 -translate-y-1/2 end-6 hidden md:flex">
                         <a href="mailto:Logistic@saher.ae" className="flex items-center gap-2 px-4 py-2 text-white text-lg font-semibold rounded-lg bg-blue-800 shadow-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-slate-900 focus:ring-blue-500 transition-all duration-200">
                             <EmailIcon className="w-6 h-6" />
-                            <span>تواصل معنا</span>
+                            <span>{t.app.contactUs}</span>
                         </a>
                     </div>
                     <div className="text-center">
                         <h1 className="text-2xl md:text-4xl font-bold text-white">
-                            نظام حجز القاعات
+                            {t.app.title}
                         </h1>
-                        <p className="mt-2 text-xl text-blue-200">شركة ساهر للخدمات الذكية</p>
+                        <p className="mt-2 text-xl text-blue-200">{t.common.company}</p>
                         <p className="mt-1 text-xs text-blue-300">© {new Date().getFullYear()} SAHER FOR SMART SERVICES</p>
                     </div>
                 </div>
+                <div className="flex justify-end items-center gap-4 mt-2 text-sm text-gray-700">
+                    <span>
+                        <span className="font-bold">{user.displayName}</span>
+                        <span className="text-gray-500"> ({t.roles[user.role]})</span>
+                    </span>
+                    <LanguageSwitcher />
+                    <button onClick={signOut} className="text-blue-700 font-bold hover:underline">
+                        {t.app.signOut}
+                    </button>
+                </div>
             </header>
             
             <main>
-                <div className="flex flex-wrap justify-start items-center mb-4 gap-4">
-                    {halls.map(hall => (
-                        <button
-                            key={hall.id}
-                            onClick={() => setSelectedHall(hall.id)}
-                            className={`px-6 py-2 text-lg font-bold rounded-md border-2 transition-all duration-300 ${
-                                selectedHall === hall.id
-                                    ? 'bg-blue-950 text-white border-blue-950 shadow-md'
-                                    : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
-                            }`}
-                        >
-                            {hall.name}
-                        </button>
-                    ))}
-
-                    <div className="flex-grow"></div>
-
-                    <div className="flex items-center gap-4 flex-wrap">
-                        <div className="flex items-center gap-2">
-                            <label htmlFor="year-select" className="font-bold text-gray-700">السنة:</label>
-                            <select
-                                id="year-select"
-                                value={currentDate.getFullYear()}
-                                onChange={handleYearChange}
-                                className="bg-white border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block w-full p-2"
-                                aria-label="Select year"
-                            >
-                                {yearsForSelect.map(year => (
-                                    <option key={year} value={year}>{year}</option>
-                                ))}
-                            </select>
+                {pageError && (
+                    <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded text-center mb-4" role="alert">
+                        {pageError}
+                    </div>
+                )}
+
+                {activeView === 'halls' && isAdmin(user) ? (
+                    <HallAdmin
+                        halls={storedHalls}
+                        onSave={handleSaveHall}
+                        onClose={() => setActiveView('schedule')}
+                    />
+                ) : activeView === 'settings' && isAdmin(user) ? (
+                    <SettingsAdmin
+                        settings={settings}
+                        onSave={saveSettings}
+                        onClose={() => setActiveView('schedule')}
+                    />
+                ) : activeView === 'blackouts' && isAdmin(user) ? (
+                    <BlackoutAdmin
+                        halls={halls}
+                        blackouts={blackouts}
+                        onSave={handleSaveBlackout}
+                        onDelete={handleDeleteBlackout}
+                        onImport={handleImportBlackouts}
+                        onClose={() => setActiveView('schedule')}
+                    />
+                ) : activeView === 'departments' && isAdmin(user) ? (
+                    <DepartmentAdmin
+                        departments={departments}
+                        bookings={bookings}
+                        onSave={handleSaveDepartment}
+                        onLinkBookings={handleLinkDepartments}
+                        onClose={() => setActiveView('schedule')}
+                    />
+                ) : activeView === 'approvals' && canApprove(user) ? (
+                    <ApprovalQueue
+                        bookings={bookings}
+                        halls={halls}
+                        userNames={userNames}
+                        onDecide={handleDecideRequests}
+                        onClose={() => setActiveView('schedule')}
+                    />
+                ) : activeView === 'reports' && canApprove(user) ? (
+                    <UsageReports
+                        bookings={bookings}
+                        halls={halls}
+                        blackouts={blackouts}
+                        departments={departments}
+                        onClose={() => setActiveView('schedule')}
+                    />
+                ) : activeView === 'history' ? (
+                    <AuditHistory
+                        entries={auditEntries}
+                        userNames={userNames}
+                        hallNames={hallNames}
+                        canRestore={booking => canModifyBooking(user, booking)}
+                        onRestore={handleRestoreBooking}
+                        onClose={() => setActiveView('schedule')}
+                    />
+                ) : activeView === 'users' && isAdmin(user) && saveUser ? (
+                    <UserAdmin
+                        users={users}
+                        currentUserId={user.id}
+                        onSave={saveUser}
+                        onClose={() => setActiveView('schedule')}
+                    />
+                ) : (
+                    <>
+                        <div className="flex flex-wrap justify-start items-center mb-4 gap-4">
+                            {activeHalls.map(hall => (
+                                <button
+                                    key={hall.id}
+                                    onClick={() => setSelectedHall(hall.id)}
+                                    className={`px-6 py-2 text-lg font-bold rounded-md border-2 transition-all duration-300 ${
+                                        selectedHall === hall.id
+                                            ? 'bg-blue-950 text-white border-blue-950 shadow-md'
+                                            : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                                    }`}
+                                >
+                                    {hallName(hall)}
+                                </button>
+                            ))}
+
+                            <div className="flex-grow"></div>
+
+                            <div className="flex items-center gap-4 flex-wrap">
+                                {settings.showHijriDates && (
+                                    <div className="flex items-center gap-1" role="group" aria-label={t.app.calendarToggle}>
+                                        {(['gregorian', 'hijri'] as const).map(calendar => (
+                                            <button
+                                                key={calendar}
+                                                onClick={() => setMonthCalendar(calendar)}
+                                                className={`px-3 py-1 font-bold rounded-md border-2 transition-colors ${
+                                                    monthCalendar === calendar
+                                                        ? 'bg-blue-950 text-white border-blue-950'
+                                                        : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                                                }`}
+                                            >
+                                                {t.calendar[calendar]}
+                                            </button>
+                                        ))}
+                                    </div>
+                                )}
+                                <div className="flex items-center gap-2">
+                                    <label htmlFor="year-select" className="font-bold text-gray-700">{t.app.year}</label>
+                                    <select
+                                        id="year-select"
+                                        value={isHijriMonth ? currentHijri.year : currentDate.getFullYear()}
+                                        onChange={handleYearChange}
+                                        className="bg-white border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block w-full p-2"
+                                        aria-label="Select year"
+                                    >
+                                        {yearsForSelect.map(year => (
+                                            <option key={year} value={year}>{isHijriMonth ? `${year} ${t.calendar.hijriSuffix}` : year}</option>
+                                        ))}
+                                    </select>
+                                </div>
+                                 <div className="flex items-center gap-2">
+                                    <label htmlFor="month-select" className="font-bold text-gray-700">{t.app.month}</label>
+                                    <select
+                                        id="month-select"
+                                        value={isHijriMonth ? currentHijri.month : currentDate.getMonth()}
+                                        onChange={handleMonthChange}
+                                        className="bg-white border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block w-full p-2"
+                                        aria-label="Select month"
+                                    >
+                                        {isHijriMonth
+                                            ? t.calendar.hijriMonths.map((name, index) => (
+                                                <option key={index} value={index + 1}>{name}</option>
+                                            ))
+                                            : t.calendar.months.map((name, index) => (
+                                                <option key={index} value={index}>{name}</option>
+                                            ))}
+                                    </select>
+                                </div>
+                                <button
+                                    onClick={() => setIsExportOpen(true)}
+                                    className="px-4 py-2 bg-blue-950 text-white font-bold rounded-md hover:bg-blue-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
+                                >
+                                    {t.app.exportExcel}
+                                </button>
+                                <button
+                                    onClick={handleExportCalendar}
+                                    title={t.app.exportCalendarTitle}
+                                    className="px-4 py-2 bg-white text-gray-700 font-bold rounded-md border-2 border-gray-300 hover:bg-gray-50 transition-colors"
+                                >
+                                    {t.app.exportCalendar}
+                                </button>
+                                <button
+                                    onClick={() => setIsPrintOpen(true)}
+                                    className="px-4 py-2 bg-white text-gray-700 font-bold rounded-md border-2 border-gray-300 hover:bg-gray-50 transition-colors"
+                                >
+                                    {t.app.print}
+                                </button>
+                                {hallFeedUrl && (
+                                    <button
+                                        onClick={handleCopyFeedUrl}
+                                        title={t.app.feedLinkTitle}
+                                        className="px-4 py-2 bg-white text-gray-700 font-bold rounded-md border-2 border-gray-300 hover:bg-gray-50 transition-colors"
+                                    >
+                                        {t.app.feedLink}
+                                    </button>
+                                )}
+                                {isAdmin(user) && (
+                                    <button
+                                        onClick={() => setIsImportOpen(true)}
+                                        className="px-4 py-2 bg-white text-gray-700 font-bold rounded-md border-2 border-gray-300 hover:bg-gray-50 transition-colors"
+                                    >
+                                        {t.app.import}
+                                    </button>
+                                )}
+                                <button
+                                    onClick={() => setActiveView('history')}
+                                    className="px-4 py-2 bg-white text-gray-700 font-bold rounded-md border-2 border-gray-300 hover:bg-gray-50 transition-colors"
+                                >
+                                    {t.app.history}
+                                </button>
+                                {canApprove(user) && (
+                                    <button
+                                        onClick={() => setActiveView('approvals')}
+                                        className="px-4 py-2 bg-white text-gray-700 font-bold rounded-md border-2 border-gray-300 hover:bg-gray-50 transition-colors"
+                                    >
+                                        {t.app.approvals}
+                                        {pendingCount > 0 && (
+                                            <span className="ms-2 px-2 py-0.5 text-xs text-white bg-amber-500 rounded-full">{formatNumber(pendingCount)}</span>
+                                        )}
+                                    </button>
+                                )}
+                                {canApprove(user) && (
+                                    <button
+                                        onClick={() => setActiveView('reports')}
+                                        className="px-4 py-2 bg-white text-gray-700 font-bold rounded-md border-2 border-gray-300 hover:bg-gray-50 transition-colors"
+                                    >
+                                        {t.app.reports}
+                                    </button>
+                                )}
+                                {isAdmin(user) && (
+                                    <button
+                                        onClick={() => setActiveView('halls')}
+                                        className="px-4 py-2 bg-white text-gray-700 font-bold rounded-md border-2 border-gray-300 hover:bg-gray-50 transition-colors"
+                                    >
+                                        {t.app.halls}
+                                    </button>
+                                )}
+                                {isAdmin(user) && (
+                                    <button
+                                        onClick={() => setActiveView('blackouts')}
+                                        className="px-4 py-2 bg-white text-gray-700 font-bold rounded-md border-2 border-gray-300 hover:bg-gray-50 transition-colors"
+                                    >
+                                        {t.app.blackouts}
+                                    </button>
+                                )}
+                                {isAdmin(user) && (
+                                    <button
+                                        onClick={() => setActiveView('departments')}
+                                        className="px-4 py-2 bg-white text-gray-700 font-bold rounded-md border-2 border-gray-300 hover:bg-gray-50 transition-colors"
+                                    >
+                                        {t.app.departments}
+                                    </button>
+                                )}
+                                {isAdmin(user) && (
+                                    <button
+                                        onClick={() => setActiveView('settings')}
+                                        className="px-4 py-2 bg-white text-gray-700 font-bold rounded-md border-2 border-gray-300 hover:bg-gray-50 transition-colors"
+                                    >
+                                        {t.app.settings}
+                                    </button>
+                                )}
+                                {isAdmin(user) && saveUser && (
+                                    <button
+                                        onClick={() => setActiveView('users')}
+                                        className="px-4 py-2 bg-white text-gray-700 font-bold rounded-md border-2 border-gray-300 hover:bg-gray-50 transition-colors"
+                                    >
+                                        {t.app.users}
+                                    </button>
+                                )}
+                            </div>
                         </div>
-                         <div className="flex items-center gap-2">
-                            <label htmlFor="month-select" className="font-bold text-gray-700">الشهر:</label>
-                            <select
-                                id="month-select"
-                                value={currentDate.getMonth()}
-                                onChange={handleMonthChange}
-                                className="bg-white border border-gray-300 text-gray-900 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block w-full p-2"
-                                aria-label="Select month"
-                            >
-                                {months.map(month => (
-                                    <option key={month.value} value={month.value}>{month.name}</option>
+
+                        <div className="mb-4 p-4 bg-blue-100 rounded-lg shadow text-center">
+                            <h3 className="text-lg font-bold text-gray-800 mb-2">{t.app.monthTotals}</h3>
+                            <div className="flex justify-center items-center gap-x-8 gap-y-2 flex-wrap">
+                                {activeHalls.map(hall => (
+                                    <div key={hall.id} className="font-semibold text-gray-700">
+                                        <span>{hallName(hall)}: </span>
+                                        <span className="text-blue-700 font-bold text-xl">{formatNumber(monthlyBookingCounts[hall.id])}</span>
+                                    </div>
                                 ))}
-                            </select>
+                            </div>
                         </div>
-                        <button
-                            onClick={handleExportToExcel}
-                            className="px-4 py-2 bg-blue-950 text-white font-bold rounded-md hover:bg-blue-800 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
-                        >
-                            تصدير إلى Excel
-                        </button>
-                    </div>
-                </div>
 
-                <div className="mb-4 p-4 bg-blue-100 rounded-lg shadow text-center">
-                    <h3 className="text-lg font-bold text-gray-800 mb-2">إجمالي الحجوزات للشهر المحدد</h3>
-                    <div className="flex justify-center items-center gap-x-8 gap-y-2 flex-wrap">
-                        {halls.map(hall => (
-                            <div key={hall.id} className="font-semibold text-gray-700">
-                                <span>{hall.name}: </span>
-                                <span className="text-blue-700 font-bold text-xl">{monthlyBookingCounts[hall.id]}</span>
+                        <div className="flex flex-wrap items-center gap-2 mb-4">
+                            {scheduleViews.map(view => (
+                                <button
+                                    key={view}
+                                    onClick={() => setScheduleView(view)}
+                                    className={`px-4 py-1 font-bold rounded-md border-2 transition-colors ${
+                                        scheduleView === view
+                                            ? 'bg-blue-950 text-white border-blue-950'
+                                            : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                                    }`}
+                                >
+                                    {t.app.scheduleViews[view]}
+                                </button>
+                            ))}
+                            <div className="flex items-center gap-2 ms-4">
+                                <button
+                                    onClick={handleUndo}
+                                    disabled={!undoStack.nextUndo}
+                                    title={undoStack.nextUndo ? t.app.undoTitle(undoStack.nextUndo.label) : t.app.nothingToUndo}
+                                    className="px-3 py-1 bg-white border-2 border-gray-300 rounded-md font-bold hover:bg-gray-50 disabled:opacity-40"
+                                >
+                                    {t.app.undo}
+                                </button>
+                                <button
+                                    onClick={handleRedo}
+                                    disabled={!undoStack.nextRedo}
+                                    title={undoStack.nextRedo ? t.app.redoTitle(undoStack.nextRedo.label) : t.app.nothingToRedo}
+                                    className="px-3 py-1 bg-white border-2 border-gray-300 rounded-md font-bold hover:bg-gray-50 disabled:opacity-40"
+                                >
+                                    {t.app.redo}
+                                </button>
                             </div>
-                        ))}
-                    </div>
-                </div>
+                            <button
+                                onClick={() => isSearchOpen ? handleCloseSearch() : setIsSearchOpen(true)}
+                                className={`ms-4 px-4 py-1 font-bold rounded-md border-2 transition-colors ${
+                                    isSearchOpen
+                                        ? 'bg-blue-950 text-white border-blue-950'
+                                        : 'bg-white text-gray-700 border-gray-300 hover:bg-gray-50'
+                                }`}
+                            >
+                                {t.app.search}
+                            </button>
+                            {scheduleView !== 'month' && (
+                                <div className="flex items-center gap-2 ms-4">
+                                    <button onClick={() => handleNavigate(-1)} className="px-3 py-1 bg-white border-2 border-gray-300 rounded-md font-bold hover:bg-gray-50" aria-label={t.app.previous}>
+                                        ‹
+                                    </button>
+                                    <span className="font-bold text-gray-700">
+                                        {scheduleView === 'day'
+                                            ? formatDateDisplay(currentDate)
+                                            : `${formatDateDisplay(weekDays[0])} - ${formatDateDisplay(weekDays[6])}`}
+                                    </span>
+                                    <button onClick={() => handleNavigate(1)} className="px-3 py-1 bg-white border-2 border-gray-300 rounded-md font-bold hover:bg-gray-50" aria-label={t.app.next}>
+                                        ›
+                                    </button>
+                                </div>
+                            )}
+                        </div>
 
-                <div className="overflow-x-auto bg-white rounded-lg shadow-lg">
-                    <ScheduleTable
-                        days={daysInMonth}
-                        timeSlots={timeSlots}
-                        bookings={bookings.filter(b => b.hallId === selectedHall)}
-                        onCellClick={handleCellClick}
-                        onBookingClick={handleBookingClick}
-                    />
-                </div>
+                        {isSearchOpen && (
+                            <BookingSearch
+                                bookings={searchableBookings}
+                                halls={activeHalls}
+                                departments={departments}
+                                selectedBookingId={highlightedBookingId}
+                                onSelect={handleSearchSelect}
+                                onClose={handleCloseSearch}
+                            />
+                        )}
+
+                        <ScheduleDragProvider
+                            hallNames={hallNames}
+                            onCreateRange={handleCreateRange}
+                            onPlaceBooking={handlePlaceBooking}
+                            canDragBooking={booking => canModifyBooking(user, booking)}
+                        >
+                            <div className="overflow-x-auto bg-white rounded-lg shadow-lg">
+                                {scheduleView === 'month' && (
+                                    <ScheduleTable
+                                        days={daysInMonth}
+                                        timeSlots={timeSlots}
+                                        bookings={scheduledBookings.filter(b => b.hallId === selectedHall)}
+                                        blackouts={blackouts}
+                                        hallId={selectedHall}
+                                        schedule={selectedHallSchedule}
+                                        highlightedBookingId={highlightedBookingId}
+                                        onCellClick={handleCellClick}
+                                        onBookingClick={handleBookingClick}
+                                    />
+                                )}
+                                {scheduleView === 'week' && (
+                                    <WeekView
+                                        days={weekDays}
+                                        halls={activeHalls}
+                                        bookings={scheduledBookings}
+                                        blackouts={blackouts}
+                                        onCellClick={handleCellClick}
+                                        onBookingClick={handleBookingClick}
+                                    />
+                                )}
+                                {scheduleView === 'day' && (
+                                    <DayView
+                                        date={currentDate}
+                                        halls={activeHalls}
+                                        bookings={scheduledBookings}
+                                        blackouts={blackouts}
+                                        onCellClick={handleCellClick}
+                                        onBookingClick={handleBookingClick}
+                                    />
+                                )}
+                            </div>
+                        </ScheduleDragProvider>
+                    </>
+                )}
             </main>
 
             <footer className="bg-slate-900 text-gray-200 mt-8 rounded-t-lg shadow-lg">
                 <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-                    <div className="grid grid-cols-1 md:grid-cols-3 gap-8 text-right">
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-8 text-start">
 
                         {/* Column 1: About SAHER */}
                         <div className="md:col-span-1">
-                            <h3 className="text-lg font-bold text-white mb-4 inline-block pb-1 border-b-2 border-yellow-400">عن SAHER</h3>
+                            <h3 className="text-lg font-bold text-white mb-4 inline-block pb-1 border-b-2 border-yellow-400">{t.app.footer.about}</h3>
                             <p className="text-sm leading-relaxed">
-                                شركة رائدة في تقديم الحلول والأنظمة الذكية، ملتزمون بالابتكار والجودة لتحقيق أعلى مستويات الكفاءة والخدمات الذكية.
+                                {t.app.footer.aboutText}
                             </p>
                         </div>
 
                         {/* Column 2: Quick Links */}
                         <div className="md:col-span-1">
-                            <h3 className="text-lg font-bold text-white mb-4 inline-block pb-1 border-b-2 border-yellow-400">روابط سريعة</h3>
+                            <h3 className="text-lg font-bold text-white mb-4 inline-block pb-1 border-b-2 border-yellow-400">{t.app.footer.quickLinks}</h3>
                             <ul className="space-y-2 text-sm">
-                                <li><a href="#!" className="hover:text-white transition-colors">الرئيسية</a></li>
-                                <li><a href="#!" className="hover:text-white transition-colors">خدماتنا</a></li>
-                                <li><a href="#!" className="hover:text-white transition-colors">تواصل معنا</a></li>
+                                <li><a href="#!" className="hover:text-white transition-colors">{t.app.footer.home}</a></li>
+                                <li><a href="#!" className="hover:text-white transition-colors">{t.app.footer.services}</a></li>
+                                <li><a href="#!" className="hover:text-white transition-colors">{t.app.contactUs}</a></li>
                             </ul>
                         </div>
 
                         {/* Column 3: Contact Info */}
                         <div className="md:col-span-1">
-                            <h3 className="text-lg font-bold text-white mb-4 inline-block pb-1 border-b-2 border-yellow-400">تواصل معنا</h3>
+                            <h3 className="text-lg font-bold text-white mb-4 inline-block pb-1 border-b-2 border-yellow-400">{t.app.contactUs}</h3>
                             <ul className="space-y-3 text-sm">
                                 <li className="flex items-start">
                                     <LocationIcon className="w-5 h-5 mt-1 flex-shrink-0" />
-                                    <span className="mr-3">Level 3, Baynona Building, Khalif City A</span>
+                                    <span className="ms-3">Level 3, Baynona Building, Khalif City A</span>
                                 </li>
                                 <li className="flex items-center">
                                     <PhoneIcon className="w-5 h-5" />
-                                    <span className="mr-3" dir="ltr">+971 4 123 4567</span>
+                                    <span className="ms-3" dir="ltr">+971 4 123 4567</span>
                                 </li>
                                 <li className="flex items-center">
                                     <EmailIcon className="w-5 h-5" />
-                                    <span className="mr-3">Logistic@saher.ae</span>
+                                    <span className="ms-3">Logistic@saher.ae</span>
                                 </li>
                             </ul>
                         </div>
@@ -488,7 +1253,7 @@ const App: React.FC = () => {
 
                     {/* Bottom Bar */}
                     <div className="border-t border-gray-700 pt-4 mt-8 text-center text-sm">
-                        <p className="text-gray-400">اعداد وتصميم / خالد الجفري</p>
+                        <p className="text-gray-400">{t.app.footer.credits}</p>
                         <p className="text-gray-400">© {new Date().getFullYear()} SAHER FOR SMART SERVICES</p>
                     </div>
                 </div>
@@ -499,10 +1264,53 @@ const App: React.FC = () => {
                     isOpen={modalInfo.isOpen}
                     onClose={handleCloseModal}
                     onSave={handleSaveBooking}
-                    onDelete={modalInfo.bookingToEdit ? handleDeleteBooking : undefined}
-                    hallName={halls.find(h => h.id === selectedHall)?.name || ''}
+                    onDelete={bookingToEdit && canEditModalBooking ? handleDeleteBooking : undefined}
+                    onCancelBooking={bookingToEdit && canEditModalBooking && holdsSlot(bookingToEdit) ? handleCancelBooking : undefined}
+                    onDuplicate={bookingToEdit ? handleDuplicateBooking : undefined}
+                    onDownloadCalendar={bookingToEdit ? () => downloadBookingCalendar(bookingToEdit, halls) : undefined}
+                    isEditing={!!bookingToEdit}
+                    readOnly={!canEditModalBooking}
+                    ownership={modalOwnership}
+                    history={bookingToEdit && getBookingHistory(auditEntries, bookingToEdit.id)}
+                    userNames={userNames}
+                    halls={halls}
+                    departments={departments}
                     initialData={modalInitialData}
-                    timeSlots={timeSlots}
+                />
+            )}
+
+            {isExportOpen && (
+                <ExportDialog
+                    halls={halls}
+                    defaultHallId={selectedHall}
+                    currentDate={currentDate}
+                    onExport={options => exportBookingsToExcel(scheduledBookings, options)}
+                    onClose={() => setIsExportOpen(false)}
+                />
+            )}
+
+            {isImportOpen && (
+                <ImportDialog
+                    halls={halls}
+                    bookings={bookings}
+                    blackouts={blackouts}
+                    departments={departments}
+                    defaultHallId={selectedHall}
+                    onImport={handleImportBookings}
+                    onClose={() => setIsImportOpen(false)}
+                />
+            )}
+
+            {toast && (
+                <Toast
+                    key={toast.id}
+                    message={toast.message}
+                    actionLabel={toast.undoable ? t.app.undo : undefined}
+                    onAction={() => {
+                        setToast(null);
+                        handleUndo();
+                    }}
+                    onDismiss={dismissToast}
                 />
             )}
         </div>
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Booking, Hall } from '../types';
+import { formatDateDisplay, formatTimestampDisplay, parseYYYYMMDD } from '../utils/dateUtils';
+import { describeRecurrence } from '../utils/recurrence';
+import { useLocale } from '../contexts/LocaleContext';
+
+interface ApprovalQueueProps {
+    bookings: Booking[];
+    halls: Hall[];
+    userNames: Record<string, string>;
+    onDecide: (requests: Booking[], decision: 'approved' | 'rejected', note?: string) => Promise<void>;
+    onClose: () => void;
+}
+
+// A recurring request is decided as a whole, so its pending occurrences share one row
+const groupRequests = (bookings: Booking[]): Booking[][] => {
+    const groups = new Map<string, Booking[]>();
+    bookings
+        .filter(b => b.status === 'pending')
+        .sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time))
+        .forEach(b => {
+            const key = b.seriesId || b.id;
+            groups.set(key, [...(groups.get(key) || []), b]);
+        });
+    return Array.from(groups.values());
+};
+
+export const ApprovalQueue: React.FC<ApprovalQueueProps> = ({ bookings, halls, userNames, onDecide, onClose }) => {
+    const { t, hallName } = useLocale();
+    const [notes, setNotes] = useState<Record<string, string>>({});
+    const [busyId, setBusyId] = useState<string | null>(null);
+    const [error, setError] = useState('');
+
+    const requests = groupRequests(bookings);
+    const getHallName = (hallId: string) => {
+        const hall = halls.find(h => h.id === hallId);
+        return hall ? hallName(hall) : '';
+    };
+
+    const decide = async (group: Booking[], decision: 'approved' | 'rejected') => {
+        const key = group[0].id;
+        const note = notes[key]?.trim();
+        if (decision === 'rejected' && !note) {
+            setError(t.approvals.rejectReasonRequired);
+            return;
+        }
+        try {
+            setError('');
+            setBusyId(key);
+            await onDecide(group, decision, note || undefined);
+        } catch (e: any) {
+            setError(e.message || t.common.unexpectedError);
+        } finally {
+            setBusyId(null);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-lg shadow-lg p-6">
+            <div className="flex justify-between items-center mb-6">
+                <h2 className="text-2xl font-bold text-gray-900">{t.approvals.title}</h2>
+                <button
+                    onClick={onClose}
+                    className="px-4 py-2 bg-gray-200 text-gray-800 font-bold rounded-md hover:bg-gray-300 transition-colors"
+                >
+                    {t.common.backToSchedule}
+                </button>
+            </div>
+
+            {error && (
+                <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded text-center mb-4" role="alert">
+                    {error}
+                </div>
+            )}
+
+            {requests.length === 0 ? (
+                <p className="p-8 text-center text-gray-600">{t.approvals.empty}</p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="min-w-full border-collapse text-center text-sm">
+                        <thead className="bg-slate-900 text-white font-bold">
+                            <tr>
+                                <th className="py-2 px-2 border border-slate-700">{t.common.hall}</th>
+                                <th className="py-2 px-2 border border-slate-700">{t.common.date}</th>
+                                <th className="py-2 px-2 border border-slate-700">{t.common.time}</th>
+                                <th className="py-2 px-2 border border-slate-700">{t.common.department}</th>
+                                <th className="py-2 px-2 border border-slate-700">{t.approvals.requester}</th>
+                                <th className="py-2 px-2 border border-slate-700">{t.common.notes}</th>
+                                <th className="py-2 px-2 border border-slate-700">{t.approvals.rejectReason}</th>
+                                <th className="py-2 px-2 border border-slate-700"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {requests.map(group => {
+                                const first = group[0];
+                                const key = first.id;
+                                return (
+                                    <tr key={key} className="bg-white">
+                                        <td className="py-2 px-2 border border-gray-200 font-semibold">{getHallName(first.hallId)}</td>
+                                        <td className="py-2 px-2 border border-gray-200">
+                                            {formatDateDisplay(parseYYYYMMDD(first.date))}
+                                            {first.recurrence && (
+                                                <div className="text-xs text-gray-500">
+                                                    {`${describeRecurrence(first.recurrence, first.date)} ${t.recurrence.occurrences(group.length)}`}
+                                                </div>
+                                            )}
+                                        </td>
+                                        <td className="py-2 px-2 border border-gray-200" dir="ltr">{`${first.time} - ${first.endTime}`}</td>
+                                        <td className="py-2 px-2 border border-gray-200">{first.department}</td>
+                                        <td className="py-2 px-2 border border-gray-200">
+                                            {first.createdBy ? userNames[first.createdBy] || first.createdBy : ''}
+                                            {first.createdAt && <div className="text-xs text-gray-500">{formatTimestampDisplay(first.createdAt)}</div>}
+                                        </td>
+                                        <td className="py-2 px-2 border border-gray-200">{first.notes}</td>
+                                        <td className="py-2 px-2 border border-gray-200">
+                                            <input
+                                                type="text"
+                                                value={notes[key] || ''}
+                                                onChange={e => setNotes(prev => ({ ...prev, [key]: e.target.value }))}
+                                                className="w-full px-2 py-1 border border-gray-300 rounded-md"
+                                                aria-label={t.approvals.rejectReason}
+                                            />
+                                        </td>
+                                        <td className="py-2 px-2 border border-gray-200 whitespace-nowrap">
+                                            <button
+                                                onClick={() => decide(group, 'approved')}
+                                                disabled={busyId === key}
+                                                className="text-green-700 font-bold hover:underline me-4 disabled:opacity-50"
+                                            >
+                                                {t.approvals.approve}
+                                            </button>
+                                            <button
+                                                onClick={() => decide(group, 'rejected')}
+                                                disabled={busyId === key}
+                                                className="text-red-700 font-bold hover:underline disabled:opacity-50"
+                                            >
+                                                {t.approvals.reject}
+                                            </button>
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,183 @@
+import React, { useMemo, useState } from 'react';
+import { AuditAction, AuditEntry, Booking } from '../types';
+import { AUDIT_ACTIONS } from '../constants';
+import { formatDateDisplay, formatTimestampDisplay, formatToYYYYMMDD, parseYYYYMMDD } from '../utils/dateUtils';
+import { describeChanges, getEntrySnapshot, isRestorable } from '../utils/auditTrail';
+import { useLocale } from '../contexts/LocaleContext';
+
+interface AuditHistoryProps {
+    entries: AuditEntry[];
+    userNames: Record<string, string>;
+    hallNames: Record<string, string>;
+    canRestore: (booking: Booking) => boolean;
+    onRestore: (entry: AuditEntry & { before: Booking }) => Promise<void>;
+    onClose: () => void;
+}
+
+interface HistoryFilters {
+    action: AuditAction | '';
+    userId: string;
+    hallId: string;
+    from: string;
+    to: string;
+    search: string;
+}
+
+const emptyFilters: HistoryFilters = { action: '', userId: '', hallId: '', from: '', to: '', search: '' };
+
+const filterClasses = "px-2 py-1 border border-gray-300 rounded-md bg-white text-gray-900 text-sm";
+
+export const AuditHistory: React.FC<AuditHistoryProps> = ({ entries, userNames, hallNames, canRestore, onRestore, onClose }) => {
+    const { t } = useLocale();
+    const [filters, setFilters] = useState<HistoryFilters>(emptyFilters);
+    const [restoringId, setRestoringId] = useState<string | null>(null);
+    const [error, setError] = useState('');
+
+    const updateFilter = <K extends keyof HistoryFilters>(field: K, value: HistoryFilters[K]) => {
+        setFilters(prev => ({ ...prev, [field]: value }));
+    };
+
+    const filtered = useMemo(() => {
+        const search = filters.search.trim();
+        return entries
+            .filter(entry => {
+                const snapshot = getEntrySnapshot(entry);
+                // Timestamps are compared on their local calendar day
+                const day = formatToYYYYMMDD(new Date(entry.timestamp));
+                return (!filters.action || entry.action === filters.action)
+                    && (!filters.userId || entry.userId === filters.userId)
+                    && (!filters.hallId || snapshot?.hallId === filters.hallId)
+                    && (!filters.from || day >= filters.from)
+                    && (!filters.to || day <= filters.to)
+                    && (!search || !!snapshot && `${snapshot.department} ${snapshot.notes}`.includes(search));
+            })
+            .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+    }, [entries, filters]);
+
+    const handleRestore = async (entry: AuditEntry & { before: Booking }) => {
+        try {
+            setError('');
+            setRestoringId(entry.id);
+            await onRestore(entry);
+        } catch (e: any) {
+            setError(e.message || t.history.restoreFailed);
+        } finally {
+            setRestoringId(null);
+        }
+    };
+
+    const userIds = Array.from(new Set(entries.map(e => e.userId).filter((id): id is string => !!id)));
+
+    return (
+        <div className="bg-white rounded-lg shadow-lg p-6">
+            <div className="flex justify-between items-center mb-6">
+                <h2 className="text-2xl font-bold text-gray-900">{t.history.title}</h2>
+                <button
+                    onClick={onClose}
+                    className="px-4 py-2 bg-gray-200 text-gray-800 font-bold rounded-md hover:bg-gray-300 transition-colors"
+                >
+                    {t.common.backToSchedule}
+                </button>
+            </div>
+
+            {error && (
+                <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded text-center mb-4 whitespace-pre-line" role="alert">
+                    {error}
+                </div>
+            )}
+
+            <div className="flex flex-wrap items-center gap-3 mb-4">
+                <select value={filters.action} onChange={e => updateFilter('action', e.target.value as HistoryFilters['action'])} className={filterClasses} aria-label={t.history.action}>
+                    <option value="">{t.history.allActions}</option>
+                    {AUDIT_ACTIONS.map(action => (
+                        <option key={action} value={action}>{t.auditActions[action]}</option>
+                    ))}
+                </select>
+                <select value={filters.userId} onChange={e => updateFilter('userId', e.target.value)} className={filterClasses} aria-label={t.history.user}>
+                    <option value="">{t.history.allUsers}</option>
+                    {userIds.map(id => (
+                        <option key={id} value={id}>{userNames[id] || id}</option>
+                    ))}
+                </select>
+                <select value={filters.hallId} onChange={e => updateFilter('hallId', e.target.value)} className={filterClasses} aria-label={t.common.hall}>
+                    <option value="">{t.history.allHalls}</option>
+                    {Object.entries(hallNames).map(([id, name]) => (
+                        <option key={id} value={id}>{name}</option>
+                    ))}
+                </select>
+                <label className="flex items-center gap-1 text-sm text-gray-700">
+                    {t.common.from}
+                    <input type="date" value={filters.from} onChange={e => updateFilter('from', e.target.value)} className={filterClasses} />
+                </label>
+                <label className="flex items-center gap-1 text-sm text-gray-700">
+                    {t.common.to}
+                    <input type="date" value={filters.to} onChange={e => updateFilter('to', e.target.value)} className={filterClasses} />
+                </label>
+                <input
+                    type="search"
+                    value={filters.search}
+                    onChange={e => updateFilter('search', e.target.value)}
+                    placeholder={t.history.searchPlaceholder}
+                    className={filterClasses}
+                />
+                <button onClick={() => setFilters(emptyFilters)} className="text-blue-700 font-bold text-sm hover:underline">
+                    {t.history.clearFilters}
+                </button>
+            </div>
+
+            {filtered.length === 0 ? (
+                <p className="p-8 text-center text-gray-600">{t.history.noMatches}</p>
+            ) : (
+                <div className="overflow-x-auto">
+                    <table className="min-w-full border-collapse text-center text-sm">
+                        <thead className="bg-slate-900 text-white font-bold">
+                            <tr>
+                                <th className="py-2 px-2 border border-slate-700">{t.common.time}</th>
+                                <th className="py-2 px-2 border border-slate-700">{t.history.action}</th>
+                                <th className="py-2 px-2 border border-slate-700">{t.history.user}</th>
+                                <th className="py-2 px-2 border border-slate-700">{t.common.hall}</th>
+                                <th className="py-2 px-2 border border-slate-700">{t.history.bookingDate}</th>
+                                <th className="py-2 px-2 border border-slate-700">{t.common.department}</th>
+                                <th className="py-2 px-2 border border-slate-700">{t.history.details}</th>
+                                <th className="py-2 px-2 border border-slate-700"></th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {filtered.map(entry => {
+                                const snapshot = getEntrySnapshot(entry);
+                                return (
+                                    <tr key={entry.id} className="bg-white">
+                                        <td className="py-2 px-2 border border-gray-200 whitespace-nowrap">{formatTimestampDisplay(entry.timestamp)}</td>
+                                        <td className="py-2 px-2 border border-gray-200 font-semibold">{t.auditActions[entry.action]}</td>
+                                        <td className="py-2 px-2 border border-gray-200">{entry.userId ? userNames[entry.userId] || entry.userId : ''}</td>
+                                        <td className="py-2 px-2 border border-gray-200">{snapshot ? hallNames[snapshot.hallId] || snapshot.hallId : ''}</td>
+                                        <td className="py-2 px-2 border border-gray-200 whitespace-nowrap">
+                                            {snapshot && `${formatDateDisplay(parseYYYYMMDD(snapshot.date))} ${snapshot.time} - ${snapshot.endTime}`}
+                                        </td>
+                                        <td className="py-2 px-2 border border-gray-200">{snapshot?.department}</td>
+                                        <td className="py-2 px-2 border border-gray-200 text-start text-xs">
+                                            {describeChanges(entry.before, entry.after, hallNames).map(change => (
+                                                <div key={change}>{change}</div>
+                                            ))}
+                                        </td>
+                                        <td className="py-2 px-2 border border-gray-200">
+                                            {isRestorable(entries, entry) && canRestore(entry.before) && (
+                                                <button
+                                                    onClick={() => handleRestore(entry)}
+                                                    disabled={restoringId === entry.id}
+                                                    className="text-blue-700 font-bold hover:underline disabled:opacity-50"
+                                                >
+                                                    {t.history.restore}
+                                                </button>
+                                            )}
+                                        </td>
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                </div>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,241 @@
+import React, { useState } from 'react';
+import { Blackout, Hall } from '../types';
+import { BlackoutInput } from '../services/blackoutRepository';
+import { formatDateDisplay, parseYYYYMMDD } from '../utils/dateUtils';
+import { parseCalendarEvents } from '../utils/icalendar';
+import { useLocale } from '../contexts/LocaleContext';
+
+interface BlackoutAdminProps {
+    halls: Hall[];
+    blackouts: Blackout[];
+    onSave: (blackoutData: BlackoutInput, blackoutId?: string) => Promise<void>;
+    onDelete: (blackoutId: string) => Promise<void>;
+    // Periods already listed are skipped
+    onImport: (blackouts: BlackoutInput[]) => Promise<{ imported: number; skipped: number }>;
+    onClose: () => void;
+}
+
+interface BlackoutForm {
+    hallId: string; // '' for every hall
+    startDate: string;
+    endDate: string;
+    reason: string;
+}
+
+const emptyForm: BlackoutForm = { hallId: '', startDate: '', endDate: '', reason: '' };
+
+const toForm = (blackout: Blackout): BlackoutForm => ({
+    hallId: blackout.hallId || '',
+    startDate: blackout.startDate,
+    endDate: blackout.endDate,
+    reason: blackout.reason,
+});
+
+const formatRange = (blackout: Blackout) => {
+    const start = formatDateDisplay(parseYYYYMMDD(blackout.startDate));
+    return blackout.startDate === blackout.endDate ? start : `${start} - ${formatDateDisplay(parseYYYYMMDD(blackout.endDate))}`;
+};
+
+const inputClasses = "w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900 placeholder-gray-400";
+
+export const BlackoutAdmin: React.FC<BlackoutAdminProps> = ({ halls, blackouts, onSave, onDelete, onImport, onClose }) => {
+    const { t, hallName } = useLocale();
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [form, setForm] = useState<BlackoutForm>(emptyForm);
+    const [importHallId, setImportHallId] = useState('');
+    const [error, setError] = useState('');
+    const [notice, setNotice] = useState('');
+
+    const getHallName = (hallId?: string) => {
+        if (!hallId) return t.common.allHalls;
+        const hall = halls.find(h => h.id === hallId);
+        return hall ? hallName(hall) : hallId;
+    };
+
+    const updateField = <K extends keyof BlackoutForm>(field: K, value: BlackoutForm[K]) => {
+        setForm(prev => ({ ...prev, [field]: value }));
+    };
+
+    const startEdit = (blackout: Blackout) => {
+        setEditingId(blackout.id);
+        setForm(toForm(blackout));
+        setError('');
+        setNotice('');
+    };
+
+    const resetForm = () => {
+        setEditingId(null);
+        setForm(emptyForm);
+        setError('');
+    };
+
+    const runAction = async (action: () => Promise<void>) => {
+        try {
+            setError('');
+            setNotice('');
+            await action();
+        } catch (e: any) {
+            setError(e.message || t.common.unexpectedError);
+        }
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        runAction(async () => {
+            const endDate = form.endDate || form.startDate;
+            if (!form.startDate || endDate < form.startDate) {
+                throw new Error(t.blackouts.invalidPeriod);
+            }
+            if (!form.reason.trim()) {
+                throw new Error(t.blackouts.reasonRequired);
+            }
+            await onSave({
+                hallId: form.hallId || undefined,
+                startDate: form.startDate,
+                endDate,
+                reason: form.reason.trim(),
+            }, editingId || undefined);
+            resetForm();
+        });
+    };
+
+    const handleDelete = (blackout: Blackout) => {
+        if (!window.confirm(t.blackouts.confirmDelete(blackout.reason))) return;
+        runAction(async () => {
+            await onDelete(blackout.id);
+            if (editingId === blackout.id) resetForm();
+        });
+    };
+
+    const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        runAction(async () => {
+            const events = parseCalendarEvents(await file.text());
+            if (events.length === 0) {
+                throw new Error(t.blackouts.importEmpty);
+            }
+            const { imported, skipped } = await onImport(events.map(event => ({
+                hallId: importHallId || undefined,
+                startDate: event.startDate,
+                endDate: event.endDate,
+                reason: event.summary || t.blackouts.defaultReason,
+            })));
+            setNotice(t.blackouts.imported(imported, skipped));
+        });
+    };
+
+    const sortedBlackouts = [...blackouts].sort((a, b) => a.startDate.localeCompare(b.startDate));
+
+    return (
+        <div className="bg-white rounded-lg shadow-lg p-6">
+            <div className="flex justify-between items-center mb-6">
+                <h2 className="text-2xl font-bold text-gray-900">{t.blackouts.title}</h2>
+                <button
+                    onClick={onClose}
+                    className="px-4 py-2 bg-gray-200 text-gray-800 font-bold rounded-md hover:bg-gray-300 transition-colors"
+                >
+                    {t.common.backToSchedule}
+                </button>
+            </div>
+
+            {error && (
+                <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded text-center mb-4" role="alert">
+                    {error}
+                </div>
+            )}
+            {notice && (
+                <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded text-center mb-4" role="status">
+                    {notice}
+                </div>
+            )}
+
+            <div className="overflow-x-auto mb-8">
+                <table className="min-w-full border-collapse text-center text-sm">
+                    <thead className="bg-slate-900 text-white font-bold">
+                        <tr>
+                            <th className="py-2 px-2 border border-slate-700">{t.blackouts.period}</th>
+                            <th className="py-2 px-2 border border-slate-700">{t.common.hall}</th>
+                            <th className="py-2 px-2 border border-slate-700">{t.blackouts.reason}</th>
+                            <th className="py-2 px-2 border border-slate-700"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {sortedBlackouts.length === 0 && (
+                            <tr>
+                                <td colSpan={4} className="py-4 border border-gray-200 text-gray-500">{t.blackouts.empty}</td>
+                            </tr>
+                        )}
+                        {sortedBlackouts.map(blackout => (
+                            <tr key={blackout.id} className={editingId === blackout.id ? 'bg-blue-50' : 'bg-white'}>
+                                <td className="py-2 px-2 border border-gray-200 font-mono">{formatRange(blackout)}</td>
+                                <td className="py-2 px-2 border border-gray-200">{getHallName(blackout.hallId)}</td>
+                                <td className="py-2 px-2 border border-gray-200">{blackout.reason}</td>
+                                <td className="py-2 px-2 border border-gray-200 whitespace-nowrap">
+                                    <button onClick={() => startEdit(blackout)} className="text-blue-700 font-bold hover:underline me-3">
+                                        {t.common.edit}
+                                    </button>
+                                    <button onClick={() => handleDelete(blackout)} className="text-red-700 font-bold hover:underline">
+                                        {t.common.delete}
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <form onSubmit={handleSubmit} className="border-t pt-6">
+                <h3 className="text-xl font-bold text-gray-900 mb-4">{editingId ? t.blackouts.editTitle : t.blackouts.addTitle}</h3>
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                    <div>
+                        <label htmlFor="blackout-hall" className="block text-sm font-bold text-gray-700 mb-1">{t.common.hall}</label>
+                        <select id="blackout-hall" value={form.hallId} onChange={e => updateField('hallId', e.target.value)} className={inputClasses}>
+                            <option value="">{t.common.allHalls}</option>
+                            {halls.map(hall => (
+                                <option key={hall.id} value={hall.id}>{hallName(hall)}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="blackout-start" className="block text-sm font-bold text-gray-700 mb-1">{t.blackouts.startDate}</label>
+                        <input id="blackout-start" type="date" value={form.startDate} onChange={e => updateField('startDate', e.target.value)} className={inputClasses} required />
+                    </div>
+                    <div>
+                        <label htmlFor="blackout-end" className="block text-sm font-bold text-gray-700 mb-1">{t.blackouts.endDate}</label>
+                        <input id="blackout-end" type="date" value={form.endDate} min={form.startDate} onChange={e => updateField('endDate', e.target.value)} className={inputClasses} />
+                    </div>
+                    <div>
+                        <label htmlFor="blackout-reason" className="block text-sm font-bold text-gray-700 mb-1">{t.blackouts.reason}</label>
+                        <input id="blackout-reason" type="text" value={form.reason} onChange={e => updateField('reason', e.target.value)} placeholder={t.blackouts.reasonPlaceholder} className={inputClasses} required />
+                    </div>
+                </div>
+                <div className="mt-6 flex justify-end gap-4">
+                    {editingId && (
+                        <button type="button" onClick={resetForm} className="px-6 py-2 bg-gray-200 text-gray-800 font-bold rounded-md hover:bg-gray-300 transition-colors">
+                            {t.common.cancelEdit}
+                        </button>
+                    )}
+                    <button type="submit" className="px-6 py-2 bg-blue-600 text-white font-bold rounded-md hover:bg-blue-700 transition-colors">
+                        {editingId ? t.common.saveChanges : t.common.add}
+                    </button>
+                </div>
+            </form>
+
+            <div className="border-t mt-8 pt-6">
+                <h3 className="text-xl font-bold text-gray-900 mb-2">{t.blackouts.importTitle}</h3>
+                <p className="text-sm text-gray-600 mb-4">{t.blackouts.importHint}</p>
+                <div className="flex flex-wrap items-center gap-4">
+                    <select value={importHallId} onChange={e => setImportHallId(e.target.value)} className="px-3 py-2 border border-gray-300 rounded-md bg-white text-gray-900" aria-label={t.common.hall}>
+                        <option value="">{t.common.allHalls}</option>
+                        {halls.map(hall => (
+                            <option key={hall.id} value={hall.id}>{hallName(hall)}</option>
+                        ))}
+                    </select>
+                    <input type="file" accept=".ics,text/calendar" onChange={handleImportFile} className="text-sm text-gray-700" />
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,38 @@
+import React from 'react';
+import { AuditEntry } from '../types';
+import { formatTimestampDisplay } from '../utils/dateUtils';
+import { describeChanges } from '../utils/auditTrail';
+import { useLocale } from '../contexts/LocaleContext';
+
+interface BookingHistoryProps {
+    entries: AuditEntry[];
+    userNames: Record<string, string>;
+    hallNames: Record<string, string>;
+}
+
+// Compact change list for a single booking, shown inside the booking modal
+export const BookingHistory: React.FC<BookingHistoryProps> = ({ entries, userNames, hallNames }) => {
+    const { t } = useLocale();
+    if (entries.length === 0) {
+        return <p className="text-sm text-gray-500">{t.history.empty}</p>;
+    }
+    return (
+        <ol className="space-y-2 text-sm">
+            {entries.map(entry => (
+                <li key={entry.id} className="border-s-2 border-blue-200 ps-2">
+                    <div>
+                        <span className="font-bold text-gray-800">{t.auditActions[entry.action]}</span>
+                        <span className="text-gray-600">{` - ${entry.userId ? userNames[entry.userId] || entry.userId : t.common.unknownUser}`}</span>
+                        <span className="text-xs text-gray-500 ms-2">{formatTimestampDisplay(entry.timestamp)}</span>
+                    </div>
+                    {describeChanges(entry.before, entry.after, hallNames).map(change => (
+                        <div key={change} className="text-xs text-gray-600">{change}</div>
+                    ))}
+                    {entry.after?.statusNote && entry.action === 'reject' && (
+                        <div className="text-xs text-red-700">{entry.after.statusNote}</div>
+                    )}
+                </li>
+            ))}
+        </ol>
+    );
+};
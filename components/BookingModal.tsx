@@ -1,37 +1,90 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { Booking } from '../types';
+import { AuditEntry, Booking, BookingService, BookingStatus, Department, Hall, RecurrenceRule, SeatingLayout, SeriesScope } from '../types';
+import { BOOKING_SERVICES, SEATING_LAYOUTS } from '../constants';
 import { CloseIcon } from './icons';
-import { formatDateDisplay } from '../utils/dateUtils';
+import { RecurrenceEditor } from './RecurrenceEditor';
+import { BookingHistory } from './BookingHistory';
+import { formatDateDisplay, formatHijriDisplay, formatTimestampDisplay, parseYYYYMMDD } from '../utils/dateUtils';
+import { getDayTimeSlots, getHallSchedule } from '../utils/timeSlots';
+import { BookingConflictError, SlotSuggestion } from '../utils/bookingRules';
+import { findDepartment, linkDepartment } from '../utils/departments';
+import { EMAIL_PATTERN, exceedsCapacity, getMissingEquipment } from '../utils/bookingRequirements';
+import { useSettings } from '../contexts/SettingsContext';
+import { useLocale } from '../contexts/LocaleContext';
 
+export type BookingFormData = Omit<Booking, 'id' | 'seriesId' | 'status' | 'statusBy' | 'statusAt' | 'statusNote' | 'createdBy' | 'createdAt' | 'updatedBy' | 'updatedAt'>;
+
+// Who created, last changed and decided on the booking, with user ids resolved to names
+export interface BookingOwnership {
+    createdBy?: string;
+    createdAt?: string;
+    updatedBy?: string;
+    updatedAt?: string;
+    status?: BookingStatus;
+    statusBy?: string;
+    statusAt?: string;
+    statusNote?: string;
+}
 
 interface BookingModalProps {
     isOpen: boolean;
     onClose: () => void;
-    onSave: (bookingData: Omit<Booking, 'id' | 'hallId'>) => void;
-    onDelete?: () => void;
-    hallName: string;
-    timeSlots: string[];
+    onSave: (bookingData: BookingFormData, scope: SeriesScope) => void | Promise<void>;
+    onDelete?: (scope: SeriesScope) => void | Promise<void>;
+    onCancelBooking?: (scope: SeriesScope) => void | Promise<void>;
+    onDuplicate?: () => void;
+    onDownloadCalendar?: () => void;
+    isEditing: boolean;
+    readOnly?: boolean; // The current user may view but not change this booking
+    ownership?: BookingOwnership;
+    history?: AuditEntry[];
+    userNames?: Record<string, string>;
+    halls: Hall[];
+    departments: Department[];
     initialData: {
+        hallId: string;
         date: string;
         time: string;
         endTime?: string;
         department?: string;
+        departmentId?: string;
         notes?: string;
+        attendees?: number;
+        services?: BookingService[];
+        seatingLayout?: SeatingLayout;
+        organizerName?: string;
+        organizerPhone?: string;
+        organizerEmail?: string;
+        recurrence?: RecurrenceRule;
+        isSeries?: boolean;
     };
 }
 
-const parseDateString = (dateStr: string): Date => {
-    const parts = dateStr.split('-');
-    // new Date(year, monthIndex, day)
-    return new Date(parseInt(parts[0]), parseInt(parts[1]) - 1, parseInt(parts[2]));
-};
+const scopeOptions: SeriesScope[] = ['single', 'following', 'series'];
+
+const suggestionGroups: SlotSuggestion['kind'][] = ['same-day', 'other-hall', 'next-days'];
 
-export const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, onSave, onDelete, hallName, initialData, timeSlots }) => {
+const inputClasses = "w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900 placeholder-gray-400";
+
+export const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, onSave, onDelete, onCancelBooking, onDuplicate, onDownloadCalendar, isEditing, readOnly, ownership, history, userNames = {}, halls, departments, initialData }) => {
+    const { settings } = useSettings();
+    const { t, locale, hallName, departmentName } = useLocale();
+    const [hallId, setHallId] = useState('');
+    const [date, setDate] = useState('');
+    const [time, setTime] = useState('');
     const [department, setDepartment] = useState('');
     const [endTime, setEndTime] = useState('');
     const [notes, setNotes] = useState('');
+    const [attendees, setAttendees] = useState('');
+    const [services, setServices] = useState<BookingService[]>([]);
+    const [seatingLayout, setSeatingLayout] = useState<SeatingLayout | ''>('');
+    const [organizer, setOrganizer] = useState({ name: '', phone: '', email: '' });
+    const [recurrence, setRecurrence] = useState<RecurrenceRule | undefined>();
+    const [scope, setScope] = useState<SeriesScope>('single');
     const [error, setError] = useState('');
+    const [conflict, setConflict] = useState<BookingConflictError | null>(null);
+    const [isSaving, setIsSaving] = useState(false);
     const departmentInputRef = useRef<HTMLInputElement>(null);
 
     useEffect(() => {
@@ -42,43 +95,161 @@ export const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, onS
             }, 100);
         }
         // Reset state when modal opens or initial data changes
-        setDepartment(initialData.department || '');
+        setHallId(initialData.hallId);
+        setDate(initialData.date);
+        setTime(initialData.time);
+        const linked = departments.find(d => d.id === initialData.departmentId);
+        setDepartment(linked ? departmentName(linked) : initialData.department || '');
         setNotes(initialData.notes || '');
+        setAttendees(initialData.attendees ? String(initialData.attendees) : '');
+        setServices(initialData.services || []);
+        setSeatingLayout(initialData.seatingLayout || '');
+        setOrganizer({
+            name: initialData.organizerName || '',
+            phone: initialData.organizerPhone || '',
+            email: initialData.organizerEmail || '',
+        });
         setEndTime(initialData.endTime || '');
+        setRecurrence(initialData.recurrence);
+        setScope('single');
         setError('');
+        setConflict(null);
     }, [isOpen, initialData]);
 
     if (!isOpen) return null;
 
-    const handleSave = () => {
+    const handleSave = async () => {
         try {
             setError(''); // Clear previous error
+            setConflict(null);
+            if (!date) {
+                throw new Error(t.booking.errors.dateRequired);
+            }
+            if (!time) {
+                throw new Error(t.booking.errors.startRequired);
+            }
             if (!department.trim()) {
-                throw new Error('يرجى إدخال اسم الإدارة الطالبة.');
+                throw new Error(t.booking.errors.departmentRequired);
+            }
+            const selectedDepartment = findDepartment(department, departmentOptions);
+            // Bookings from before the registry keep their free text until migrated
+            const keepsFreeText = !initialData.departmentId && department === initialData.department;
+            if (!selectedDepartment && !keepsFreeText) {
+                throw new Error(t.booking.errors.departmentUnknown);
             }
             if (!endTime) {
-                throw new Error('يرجى تحديد وقت انتهاء الحجز.');
+                throw new Error(t.booking.errors.endRequired);
+            }
+            if (endTime <= time) {
+                throw new Error(t.booking.errors.endBeforeStart);
+            }
+            const attendeeCount = attendees.trim() ? Number(attendees) : undefined;
+            if (attendeeCount !== undefined && (!Number.isInteger(attendeeCount) || attendeeCount <= 0)) {
+                throw new Error(t.booking.errors.attendeesInvalid);
             }
-            if (endTime <= initialData.time) {
-                throw new Error('وقت الانتهاء يجب أن يكون بعد وقت البدء.');
+            // Same exemption as the server: a later capacity cut does not block edits that keep the audience
+            const keepsAudience = isEditing && initialData.hallId === hallId && initialData.attendees === attendeeCount;
+            if (exceedsCapacity(selectedHall, attendeeCount) && !keepsAudience) {
+                throw new Error(t.booking.errors.overCapacity(attendeeCount!, selectedHall!.capacity, hallName(selectedHall!)));
+            }
+            if (organizer.email.trim() && !EMAIL_PATTERN.test(organizer.email.trim())) {
+                throw new Error(t.booking.errors.organizerEmailInvalid);
+            }
+            if (recurrence) {
+                if (!recurrence.until && !recurrence.count) {
+                    throw new Error(t.booking.errors.recurrenceEndRequired);
+                }
+                if (recurrence.until && recurrence.until < date) {
+                    throw new Error(t.booking.errors.recurrenceUntilBeforeStart);
+                }
+                if (recurrence.frequency === 'weekly' && !recurrence.weekdays?.length) {
+                    throw new Error(t.booking.errors.weekdayRequired);
+                }
             }
             
-            onSave({
-                date: initialData.date,
-                time: initialData.time,
+            setIsSaving(true);
+            await onSave({
+                hallId,
+                date,
+                time,
                 endTime,
-                department,
+                ...(selectedDepartment ? linkDepartment(selectedDepartment) : { department, departmentId: undefined }),
                 notes,
-            });
+                attendees: attendeeCount,
+                services: services.length ? services : undefined,
+                seatingLayout: seatingLayout || undefined,
+                organizerName: organizer.name.trim() || undefined,
+                organizerPhone: organizer.phone.trim() || undefined,
+                organizerEmail: organizer.email.trim() || undefined,
+                recurrence,
+            }, scope);
         } catch (e: any) {
-            setError(e.message || 'حدث خطأ غير متوقع.');
+            setError(e.message || t.common.unexpectedError);
+            if (e instanceof BookingConflictError) {
+                setConflict(e);
+            }
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const applySuggestion = (suggestion: SlotSuggestion) => {
+        setHallId(suggestion.hallId);
+        setDate(suggestion.date);
+        setTime(suggestion.time);
+        setEndTime(suggestion.endTime);
+        setError('');
+        setConflict(null);
+    };
+
+    const getHallName = (id: string) => {
+        const hall = halls.find(h => h.id === id);
+        return hall ? hallName(hall) : '';
+    };
+
+    const runAction = async (action?: (scope: SeriesScope) => void | Promise<void>) => {
+        if (!action) return;
+        try {
+            setError('');
+            setIsSaving(true);
+            await action(scope);
+        } catch (e: any) {
+            setError(e.message || t.common.unexpectedError);
+        } finally {
+            setIsSaving(false);
         }
     };
     
-    const startTimeIndex = timeSlots.indexOf(initialData.time);
-    const availableEndTimes = startTimeIndex !== -1 ? timeSlots.slice(startTimeIndex + 1) : [];
+    const getDaySlots = (forHallId: string, forDate: string) => forDate
+        ? getDayTimeSlots(getHallSchedule(halls.find(h => h.id === forHallId)), parseYYYYMMDD(forDate))
+        : [];
 
-    const displayDate = formatDateDisplay(parseDateString(initialData.date));
+    // Keeps the chosen times when they still fit the new hall and day,
+    // otherwise falls back to that day's first slot.
+    const changePlacement = (nextHallId: string, nextDate: string, nextTime: string) => {
+        const slots = getDaySlots(nextHallId, nextDate);
+        const startOptions = slots.slice(0, -1);
+        const start = startOptions.includes(nextTime) ? nextTime : (startOptions[0] || '');
+        const end = slots.includes(endTime) && endTime > start ? endTime : (slots[slots.indexOf(start) + 1] || '');
+        setHallId(nextHallId);
+        setDate(nextDate);
+        setTime(start);
+        setEndTime(end);
+    };
+
+    const timeSlots = getDaySlots(hallId, date);
+    const startTimeIndex = timeSlots.indexOf(time);
+    const availableEndTimes = startTimeIndex !== -1 ? timeSlots.slice(startTimeIndex + 1) : [];
+    const hallOptions = halls.filter(h => h.active || h.id === initialData.hallId);
+    const selectedHall = halls.find(h => h.id === hallId);
+    const overCapacity = exceedsCapacity(selectedHall, Number(attendees) || undefined);
+    const missingEquipment = getMissingEquipment(selectedHall, services);
+    const departmentOptions = departments.filter(d => d.active || d.id === initialData.departmentId);
+    const departmentContact = [findDepartment(department, departmentOptions)]
+        .flatMap(d => d ? [d.contactName, d.contactEmail].filter(Boolean) : [])
+        .join(t.common.listSeparator);
+    // Series edits keep each occurrence on its own date
+    const dateLocked = initialData.isSeries && scope !== 'single';
 
     return (
         <div 
@@ -86,68 +257,290 @@ export const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, onS
             onClick={onClose}
         >
             <div 
-                className="bg-white rounded-lg shadow-xl p-8 w-full max-w-lg relative transform transition-all"
+                className="bg-white rounded-lg shadow-xl p-8 w-full max-w-lg max-h-[90vh] overflow-y-auto relative transform transition-all"
                 onClick={e => e.stopPropagation()}
             >
-                <button onClick={onClose} className="absolute top-4 left-4 text-gray-400 hover:text-gray-600">
+                <button onClick={onClose} className="absolute top-4 end-4 text-gray-400 hover:text-gray-600">
                     <CloseIcon />
                 </button>
                 
                 <div className="text-center mb-6">
                     <h2 className="text-2xl font-bold text-gray-900">
-                        {initialData.department ? 'تعديل الحجز' : 'حجز جديد'}
+                        {readOnly ? t.booking.titleView : isEditing ? t.booking.titleEdit : t.booking.titleNew}
                     </h2>
-                    <p className="text-lg text-gray-600 mt-1">{hallName}</p>
+                    <p className="text-lg text-gray-600 mt-1">{getHallName(hallId)}</p>
+                    {ownership?.createdBy && (
+                        <p className="text-xs text-gray-500 mt-1">
+                            {`${t.booking.createdBy(ownership.createdBy)}${ownership.createdAt ? t.booking.at(formatTimestampDisplay(ownership.createdAt)) : ''}`}
+                            {ownership.updatedBy && ` · ${t.booking.updatedBy(ownership.updatedBy)}${ownership.updatedAt ? t.booking.at(formatTimestampDisplay(ownership.updatedAt)) : ''}`}
+                        </p>
+                    )}
+                    {ownership?.status && ownership.status !== 'approved' && (
+                        <p className={`text-sm font-bold mt-1 ${ownership.status === 'pending' ? 'text-amber-700' : 'text-red-700'}`}>
+                            {t.bookingStatus[ownership.status]}
+                            {ownership.statusBy && ` - ${ownership.statusBy}${ownership.statusAt ? t.booking.at(formatTimestampDisplay(ownership.statusAt)) : ''}`}
+                            {ownership.statusNote && `: ${ownership.statusNote}`}
+                        </p>
+                    )}
                 </div>
 
                 {error && (
                     <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded relative text-center mb-4" role="alert">
-                        <span className="block sm:inline">{error}</span>
+                        <span className="block sm:inline whitespace-pre-line">{error}</span>
+                    </div>
+                )}
+
+                {conflict && (
+                    <div className="border border-amber-300 bg-amber-50 rounded p-3 mb-4 text-start text-sm">
+                        {conflict.conflicts.map(b => (
+                            <p key={b.id} className="text-amber-900">
+                                {t.booking.conflictWith(b.department, b.time, b.endTime, getHallName(b.hallId), formatDateDisplay(parseYYYYMMDD(b.date)))}
+                            </p>
+                        ))}
+                        {conflict.suggestions.length > 0 && (
+                            <div className="mt-2 space-y-2">
+                                <p className="font-bold text-gray-800">{t.booking.suggestionsTitle}</p>
+                                {suggestionGroups.map(kind => {
+                                    const items = conflict.suggestions.filter(sg => sg.kind === kind);
+                                    if (items.length === 0) return null;
+                                    return (
+                                        <div key={kind}>
+                                            <p className="text-gray-600 mb-1">{t.booking.suggestionGroups[kind]}</p>
+                                            <div className="flex flex-wrap gap-2">
+                                                {items.map(sg => (
+                                                    <button
+                                                        key={`${sg.hallId}-${sg.date}-${sg.time}`}
+                                                        type="button"
+                                                        onClick={() => applySuggestion(sg)}
+                                                        className="px-2 py-1 bg-white border border-blue-300 text-blue-800 rounded hover:bg-blue-50"
+                                                    >
+                                                        {`${getHallName(sg.hallId)} - ${formatDateDisplay(parseYYYYMMDD(sg.date))} ${sg.time}-${sg.endTime}`}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        )}
                     </div>
                 )}
                 
-                <div className="space-y-4 text-right">
-                     <div className="grid grid-cols-2 gap-4 text-gray-700">
-                        <p><span className="font-bold">التاريخ:</span> {displayDate}</p>
-                        <p><span className="font-bold">وقت البدء:</span> {initialData.time}</p>
+                <fieldset disabled={readOnly} className="space-y-4 text-start">
+                    <div>
+                        <label htmlFor="hall" className="block text-sm font-bold text-gray-700 mb-1">
+                            {t.common.hall}
+                        </label>
+                        <select
+                            id="hall"
+                            value={hallId}
+                            onChange={(e) => changePlacement(e.target.value, date, time)}
+                            className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900"
+                        >
+                            {hallOptions.map(hall => (
+                                <option key={hall.id} value={hall.id}>{hallName(hall)}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label htmlFor="date" className="block text-sm font-bold text-gray-700 mb-1">
+                                {t.common.date}
+                            </label>
+                            <input
+                                id="date"
+                                type="date"
+                                value={date}
+                                onChange={(e) => changePlacement(hallId, e.target.value, time)}
+                                disabled={dateLocked}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900 disabled:bg-gray-100"
+                            />
+                            {settings.showHijriDates && date && (
+                                <p className="text-xs text-gray-600 mt-1">{formatHijriDisplay(parseYYYYMMDD(date), locale)}</p>
+                            )}
+                        </div>
+                        <div>
+                            <label htmlFor="startTime" className="block text-sm font-bold text-gray-700 mb-1">
+                                {t.booking.startTime}
+                            </label>
+                            <select
+                                id="startTime"
+                                value={time}
+                                onChange={(e) => changePlacement(hallId, date, e.target.value)}
+                                className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900"
+                                aria-label={t.booking.chooseStart}
+                            >
+                                <option value="" disabled>{timeSlots.length ? t.booking.chooseStart : t.booking.hallClosedOnDay}</option>
+                                {timeSlots.slice(0, -1).map(slot => (
+                                    <option key={slot} value={slot}>{slot}</option>
+                                ))}
+                            </select>
+                        </div>
                     </div>
 
                     <div>
                         <label htmlFor="department" className="block text-sm font-bold text-gray-700 mb-1">
-                            الإدارة الطالبة
+                            {t.common.department}
                         </label>
                         <input
                             ref={departmentInputRef}
                             id="department"
                             type="text"
+                            list="department-options"
+                            autoComplete="off"
                             value={department}
                             onChange={(e) => setDepartment(e.target.value)}
                             className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900 placeholder-gray-400"
-                            placeholder="اسم الإدارة"
+                            placeholder={t.booking.departmentPlaceholder}
                         />
+                        <datalist id="department-options">
+                            {departmentOptions.map(d => (
+                                <option key={d.id} value={departmentName(d)}>{d.code}</option>
+                            ))}
+                        </datalist>
+                        {departmentContact && (
+                            <p className="text-xs text-gray-500 mt-1">{t.booking.departmentContact(departmentContact)}</p>
+                        )}
                     </div>
 
                     <div>
                         <label htmlFor="endTime" className="block text-sm font-bold text-gray-700 mb-1">
-                            وقت الإنتهاء
+                            {t.booking.endTime}
                         </label>
                         <select
                             id="endTime"
                             value={endTime}
                             onChange={(e) => setEndTime(e.target.value)}
                             className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900"
-                            aria-label="Select end time"
+                            aria-label={t.booking.chooseEnd}
                         >
-                            <option value="" disabled>اختر وقت الإنتهاء</option>
+                            <option value="" disabled>{t.booking.chooseEnd}</option>
                             {availableEndTimes.map(slot => (
                                 <option key={slot} value={slot}>{slot}</option>
                             ))}
                         </select>
                     </div>
                     
+                    <div className="border-t border-gray-200 pt-4 space-y-3">
+                        <h3 className="text-sm font-bold text-gray-800">{t.booking.logisticsTitle}</h3>
+                        <div className="grid grid-cols-2 gap-3">
+                            <div>
+                                <label htmlFor="attendees" className="block text-sm font-bold text-gray-700 mb-1">{t.booking.attendees}</label>
+                                <input
+                                    id="attendees"
+                                    type="number"
+                                    min={1}
+                                    value={attendees}
+                                    onChange={(e) => setAttendees(e.target.value)}
+                                    className={inputClasses}
+                                />
+                                {selectedHall && selectedHall.capacity > 0 && (
+                                    <p className={`text-xs mt-1 ${overCapacity ? 'text-red-700 font-bold' : 'text-gray-500'}`}>
+                                        {t.booking.hallCapacity(selectedHall.capacity)}
+                                    </p>
+                                )}
+                            </div>
+                            <div>
+                                <label htmlFor="seatingLayout" className="block text-sm font-bold text-gray-700 mb-1">{t.booking.seatingLayout}</label>
+                                <select
+                                    id="seatingLayout"
+                                    value={seatingLayout}
+                                    onChange={(e) => setSeatingLayout(e.target.value as SeatingLayout | '')}
+                                    className={inputClasses}
+                                >
+                                    <option value="">{t.booking.noSeatingPreference}</option>
+                                    {SEATING_LAYOUTS.map(layout => (
+                                        <option key={layout} value={layout}>{t.seatingLayouts[layout]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+                        <fieldset>
+                            <legend className="block text-sm font-bold text-gray-700 mb-1">{t.booking.servicesLegend}</legend>
+                            <div className="flex flex-wrap gap-4">
+                                {BOOKING_SERVICES.map(service => (
+                                    <label key={service} className="flex items-center gap-1 text-sm text-gray-700">
+                                        <input
+                                            type="checkbox"
+                                            checked={services.includes(service)}
+                                            onChange={() => setServices(prev => prev.includes(service) ? prev.filter(s => s !== service) : [...prev, service])}
+                                        />
+                                        {t.services[service]}
+                                    </label>
+                                ))}
+                            </div>
+                            {selectedHall && missingEquipment.length > 0 && (
+                                <p className="text-xs text-amber-800 bg-amber-50 border border-amber-300 rounded px-2 py-1 mt-2" role="status">
+                                    {t.booking.missingEquipment(missingEquipment.map(s => t.services[s]).join(t.common.listSeparator), hallName(selectedHall))}
+                                </p>
+                            )}
+                        </fieldset>
+                        <fieldset>
+                            <legend className="block text-sm font-bold text-gray-700 mb-1">{t.booking.organizerTitle}</legend>
+                            <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+                                <input
+                                    type="text"
+                                    value={organizer.name}
+                                    onChange={(e) => setOrganizer(prev => ({ ...prev, name: e.target.value }))}
+                                    placeholder={t.booking.organizerName}
+                                    aria-label={t.booking.organizerName}
+                                    className={inputClasses}
+                                />
+                                <input
+                                    type="tel"
+                                    dir="ltr"
+                                    value={organizer.phone}
+                                    onChange={(e) => setOrganizer(prev => ({ ...prev, phone: e.target.value }))}
+                                    placeholder={t.booking.organizerPhone}
+                                    aria-label={t.booking.organizerPhone}
+                                    className={inputClasses}
+                                />
+                                <input
+                                    type="email"
+                                    dir="ltr"
+                                    value={organizer.email}
+                                    onChange={(e) => setOrganizer(prev => ({ ...prev, email: e.target.value }))}
+                                    placeholder={t.booking.organizerEmail}
+                                    aria-label={t.booking.organizerEmail}
+                                    className={inputClasses}
+                                />
+                            </div>
+                        </fieldset>
+                    </div>
+
+                    <div className="border-t border-gray-200 pt-4">
+                        <RecurrenceEditor
+                            value={recurrence}
+                            onChange={setRecurrence}
+                            startDate={date || initialData.date}
+                            disabled={initialData.isSeries && scope === 'single'}
+                        />
+                    </div>
+
+                    {initialData.isSeries && (
+                        <fieldset className="border border-gray-200 rounded-md p-3">
+                            <legend className="text-sm font-bold text-gray-700 px-1">{t.booking.scopeLegend}</legend>
+                            <div className="flex flex-wrap gap-4">
+                                {scopeOptions.map(option => (
+                                    <label key={option} className="flex items-center gap-1 text-sm text-gray-700">
+                                        <input
+                                            type="radio"
+                                            name="series-scope"
+                                            value={option}
+                                            checked={scope === option}
+                                            onChange={() => setScope(option)}
+                                        />
+                                        {t.booking.scopes[option]}
+                                    </label>
+                                ))}
+                            </div>
+                        </fieldset>
+                    )}
+
                     <div>
                         <label htmlFor="notes" className="block text-sm font-bold text-gray-700 mb-1">
-                            الملاحظات
+                            {t.common.notes}
                         </label>
                         <textarea
                             id="notes"
@@ -155,19 +548,60 @@ export const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, onS
                             onChange={(e) => setNotes(e.target.value)}
                             rows={3}
                             className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900 placeholder-gray-400"
-                            placeholder="أضف ملاحظات (اختياري)"
+                            placeholder={t.booking.notesPlaceholder}
                         ></textarea>
                     </div>
-                </div>
+                </fieldset>
+
+                {history && (
+                    <details className="mt-4 border-t border-gray-200 pt-4 text-start">
+                        <summary className="cursor-pointer text-sm font-bold text-gray-700">{t.booking.historyTitle(history.length)}</summary>
+                        <div className="mt-2">
+                            <BookingHistory
+                                entries={history}
+                                userNames={userNames}
+                                hallNames={Object.fromEntries(halls.map(h => [h.id, hallName(h)]))}
+                            />
+                        </div>
+                    </details>
+                )}
                 
                 <div className="mt-8 flex justify-between items-center">
                     <div>
                          {onDelete && (
                             <button
-                                onClick={onDelete}
-                                className="px-6 py-2 bg-red-600 text-white font-bold rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 transition-colors"
+                                onClick={() => runAction(onDelete)}
+                                disabled={isSaving}
+                                className="px-6 py-2 bg-red-600 text-white font-bold rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 transition-colors disabled:opacity-50"
                             >
-                                حذف الحجز
+                                {t.booking.deleteBooking}
+                            </button>
+                        )}
+                        {onCancelBooking && (
+                            <button
+                                onClick={() => runAction(onCancelBooking)}
+                                disabled={isSaving}
+                                className="ms-2 px-4 py-2 bg-white text-red-700 font-bold rounded-md border-2 border-red-200 hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-red-500 transition-colors disabled:opacity-50"
+                            >
+                                {t.booking.cancelBooking}
+                            </button>
+                        )}
+                        {onDuplicate && (
+                            <button
+                                onClick={onDuplicate}
+                                disabled={isSaving}
+                                className="ms-2 px-4 py-2 bg-white text-blue-700 font-bold rounded-md border-2 border-blue-200 hover:bg-blue-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors disabled:opacity-50"
+                            >
+                                {t.booking.duplicate}
+                            </button>
+                        )}
+                        {onDownloadCalendar && (
+                            <button
+                                onClick={onDownloadCalendar}
+                                title={t.booking.addToCalendarTitle}
+                                className="ms-2 px-4 py-2 bg-white text-gray-700 font-bold rounded-md border-2 border-gray-200 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400 transition-colors"
+                            >
+                                {t.booking.addToCalendar}
                             </button>
                         )}
                     </div>
@@ -176,14 +610,17 @@ export const BookingModal: React.FC<BookingModalProps> = ({ isOpen, onClose, onS
                             onClick={onClose}
                             className="px-6 py-2 bg-gray-200 text-gray-800 font-bold rounded-md hover:bg-gray-300 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-gray-400 transition-colors"
                         >
-                            إلغاء
-                        </button>
-                        <button
-                            onClick={handleSave}
-                            className="px-6 py-2 bg-blue-600 text-white font-bold rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors"
-                        >
-                            حفظ
+                            {readOnly ? t.common.close : t.common.cancel}
                         </button>
+                        {!readOnly && (
+                            <button
+                                onClick={handleSave}
+                                disabled={isSaving}
+                                className="px-6 py-2 bg-blue-600 text-white font-bold rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500 transition-colors disabled:opacity-50"
+                            >
+                                {t.common.save}
+                            </button>
+                        )}
                     </div>
                 </div>
             </div>
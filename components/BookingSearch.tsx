@@ -0,0 +1,165 @@
+import React, { useMemo, useState } from 'react';
+import { Booking, Department, Hall } from '../types';
+import { CloseIcon } from './icons';
+import { formatDateDisplay, parseYYYYMMDD } from '../utils/dateUtils';
+import { BookingSearchCriteria, SearchSortKey, emptySearchCriteria, hasSearchCriteria, searchBookings, sortBookings } from '../utils/bookingSearch';
+import { useLocale } from '../contexts/LocaleContext';
+
+interface BookingSearchProps {
+    bookings: Booking[];
+    halls: Hall[];
+    departments: Department[];
+    selectedBookingId?: string;
+    onSelect: (booking: Booking) => void;
+    onClose: () => void;
+}
+
+// Results are capped so a broad query cannot render thousands of rows
+const MAX_RESULTS = 200;
+
+const filterClasses = "px-2 py-1 border border-gray-300 rounded-md bg-white text-gray-900 text-sm";
+
+export const BookingSearch: React.FC<BookingSearchProps> = ({ bookings, halls, departments, selectedBookingId, onSelect, onClose }) => {
+    const { t, hallName, departmentName, formatNumber } = useLocale();
+    const [criteria, setCriteria] = useState<BookingSearchCriteria>(emptySearchCriteria);
+    const [sortKey, setSortKey] = useState<SearchSortKey>('date');
+    // Most recent first, to answer "when did they last use a hall"
+    const [descending, setDescending] = useState(true);
+
+    const hallNames = useMemo(() => Object.fromEntries(halls.map(h => [h.id, hallName(h)])), [halls, hallName]);
+    const active = hasSearchCriteria(criteria);
+    const results = useMemo(() => active
+        ? sortBookings(searchBookings(bookings, criteria, departments), sortKey, descending, hallNames)
+        : [], [bookings, criteria, departments, sortKey, descending, hallNames, active]);
+
+    const updateCriteria = <K extends keyof BookingSearchCriteria>(field: K, value: BookingSearchCriteria[K]) => {
+        setCriteria(prev => ({ ...prev, [field]: value }));
+    };
+
+    const handleSort = (key: SearchSortKey) => {
+        if (key === sortKey) {
+            setDescending(prev => !prev);
+        } else {
+            setSortKey(key);
+            setDescending(key === 'date');
+        }
+    };
+
+    const getDepartmentName = (booking: Booking) => {
+        const department = departments.find(d => d.id === booking.departmentId);
+        return department ? departmentName(department) : booking.department;
+    };
+
+    const columns: { key: SearchSortKey; label: string }[] = [
+        { key: 'date', label: t.common.date },
+        { key: 'time', label: t.common.time },
+        { key: 'hall', label: t.common.hall },
+        { key: 'department', label: t.common.department },
+    ];
+
+    return (
+        <div className="bg-white rounded-lg shadow-lg p-4 mb-4 text-start">
+            <div className="flex justify-between items-center mb-3">
+                <h3 className="text-lg font-bold text-gray-800">{t.search.title}</h3>
+                <button onClick={onClose} className="text-gray-400 hover:text-gray-600" aria-label={t.common.close}>
+                    <CloseIcon />
+                </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 mb-3">
+                <input
+                    type="search"
+                    value={criteria.department}
+                    onChange={e => updateCriteria('department', e.target.value)}
+                    placeholder={t.search.departmentPlaceholder}
+                    className={filterClasses}
+                    aria-label={t.common.department}
+                />
+                <input
+                    type="search"
+                    value={criteria.notes}
+                    onChange={e => updateCriteria('notes', e.target.value)}
+                    placeholder={t.search.notesPlaceholder}
+                    className={filterClasses}
+                    aria-label={t.common.notes}
+                />
+                <select value={criteria.hallId} onChange={e => updateCriteria('hallId', e.target.value)} className={filterClasses} aria-label={t.common.hall}>
+                    <option value="">{t.common.allHalls}</option>
+                    {halls.map(hall => (
+                        <option key={hall.id} value={hall.id}>{hallName(hall)}</option>
+                    ))}
+                </select>
+                <label className="flex items-center gap-1 text-sm text-gray-700">
+                    {t.common.from}
+                    <input type="date" value={criteria.from} onChange={e => updateCriteria('from', e.target.value)} className={filterClasses} />
+                </label>
+                <label className="flex items-center gap-1 text-sm text-gray-700">
+                    {t.common.to}
+                    <input type="date" value={criteria.to} onChange={e => updateCriteria('to', e.target.value)} className={filterClasses} />
+                </label>
+                <span className="flex items-center gap-1 text-sm text-gray-700">
+                    {t.search.timeOfDay}
+                    <input type="time" value={criteria.timeFrom} onChange={e => updateCriteria('timeFrom', e.target.value)} className={filterClasses} aria-label={`${t.search.timeOfDay} ${t.common.from}`} />
+                    -
+                    <input type="time" value={criteria.timeTo} onChange={e => updateCriteria('timeTo', e.target.value)} className={filterClasses} aria-label={`${t.search.timeOfDay} ${t.common.to}`} />
+                </span>
+                {active && (
+                    <button onClick={() => setCriteria(emptySearchCriteria)} className="text-blue-700 font-bold text-sm hover:underline">
+                        {t.search.clear}
+                    </button>
+                )}
+            </div>
+
+            {!active ? (
+                <p className="text-sm text-gray-600">{t.search.hint}</p>
+            ) : results.length === 0 ? (
+                <p className="text-sm text-gray-600">{t.search.noResults}</p>
+            ) : (
+                <>
+                    <p className="text-sm text-gray-600 mb-2">
+                        {t.search.results(results.length)} — {t.search.showInSchedule}
+                    </p>
+                    <div className="overflow-auto max-h-72">
+                        <table className="min-w-full border-collapse text-center text-sm">
+                            <thead className="bg-slate-900 text-white font-bold sticky top-0">
+                                <tr>
+                                    {columns.map(column => (
+                                        <th
+                                            key={column.key}
+                                            className="py-2 px-2 border border-slate-700"
+                                            aria-sort={sortKey === column.key ? (descending ? 'descending' : 'ascending') : 'none'}
+                                        >
+                                            <button onClick={() => handleSort(column.key)} className="font-bold hover:underline">
+                                                {column.label}
+                                                {sortKey === column.key && <span className="ms-1">{descending ? '▼' : '▲'}</span>}
+                                            </button>
+                                        </th>
+                                    ))}
+                                    <th className="py-2 px-2 border border-slate-700">{t.common.notes}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {results.slice(0, MAX_RESULTS).map(booking => (
+                                    <tr
+                                        key={booking.id}
+                                        onClick={() => onSelect(booking)}
+                                        className={`cursor-pointer hover:bg-blue-50 ${booking.id === selectedBookingId ? 'bg-orange-100' : 'bg-white'}`}
+                                    >
+                                        <td className="py-1 px-2 border border-gray-200 font-mono">{formatDateDisplay(parseYYYYMMDD(booking.date))}</td>
+                                        <td className="py-1 px-2 border border-gray-200 font-mono" dir="ltr">{booking.time} - {booking.endTime}</td>
+                                        <td className="py-1 px-2 border border-gray-200">{hallNames[booking.hallId] || booking.hallId}</td>
+                                        <td className="py-1 px-2 border border-gray-200 font-semibold">{getDepartmentName(booking)}</td>
+                                        <td className="py-1 px-2 border border-gray-200 text-gray-600">{booking.notes}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                    {results.length > MAX_RESULTS && (
+                        <p className="text-xs text-gray-500 mt-1">{formatNumber(MAX_RESULTS)} / {formatNumber(results.length)}</p>
+                    )}
+                </>
+            )}
+        </div>
+    );
+};
@@ -0,0 +1,79 @@
+import React from 'react';
+import { Blackout, Booking, Hall } from '../types';
+import { formatToYYYYMMDD } from '../utils/dateUtils';
+import { blockGridSegments, getDayTimeSlots, getHallSchedule, layoutGridSegments, mergeTimeSlots, GridSegment } from '../utils/timeSlots';
+import { findBlackout } from '../utils/bookingRules';
+import { SegmentCell, useBookingColors } from './ScheduleCells';
+import { useLocale } from '../contexts/LocaleContext';
+
+interface DayViewProps {
+    date: Date;
+    halls: Hall[];
+    bookings: Booking[];
+    blackouts?: Blackout[];
+    onCellClick: (date: Date, time: string, hallId: string) => void;
+    onBookingClick: (bookingId: string) => void;
+}
+
+// One day with halls as columns and time slots as rows
+export const DayView: React.FC<DayViewProps> = ({ date, halls, bookings, blackouts = [], onCellClick, onBookingClick }) => {
+    const getBookingColor = useBookingColors();
+    const { t, hallName } = useLocale();
+    const formattedDate = formatToYYYYMMDD(date);
+
+    const hallSlots = halls.map(hall => getDayTimeSlots(getHallSchedule(hall), date));
+    const rows = mergeTimeSlots(...hallSlots);
+
+    // For each hall, the segment starting at each row (rows covered by a
+    // taller segment have no entry and render no cell).
+    const segmentsByHall = halls.map((hall, i) => {
+        const dayBookings = bookings.filter(b => b.hallId === hall.id && b.date === formattedDate);
+        const byRow = new Map<number, GridSegment>();
+        const segments = layoutGridSegments(rows, hallSlots[i], dayBookings);
+        blockGridSegments(segments, findBlackout(blackouts, hall.id, formattedDate)?.reason)
+            .forEach(segment => byRow.set(segment.startIndex, segment));
+        return byRow;
+    });
+
+    if (rows.length === 0) {
+        return <p className="p-8 text-center text-gray-600">{t.schedule.allHallsClosed}</p>;
+    }
+
+    return (
+        <table className="min-w-full border-collapse text-center">
+            <thead className="bg-slate-900 text-sm font-bold text-white sticky top-0">
+                <tr>
+                    <th className="py-3 px-2 border border-slate-700 w-28">{t.common.time}</th>
+                    {halls.map(hall => (
+                        <th key={hall.id} className="py-3 px-2 border border-slate-700">{hallName(hall)}</th>
+                    ))}
+                </tr>
+            </thead>
+            <tbody>
+                {rows.slice(0, -1).map((time, rowIndex) => (
+                    <tr key={time} className="text-sm bg-white">
+                        <td className="border border-gray-200 font-mono align-middle bg-blue-100 text-blue-900">
+                            {`${time} - ${rows[rowIndex + 1]}`}
+                        </td>
+                        {halls.map((hall, hallIndex) => {
+                            const segment = segmentsByHall[hallIndex].get(rowIndex);
+                            return segment && (
+                                <SegmentCell
+                                    key={hall.id}
+                                    segment={segment}
+                                    gridSlots={rows}
+                                    hallId={hall.id}
+                                    date={date}
+                                    vertical
+                                    getColor={getBookingColor}
+                                    onCellClick={(d, t) => onCellClick(d, t, hall.id)}
+                                    onBookingClick={onBookingClick}
+                                />
+                            );
+                        })}
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+};
@@ -0,0 +1,291 @@
+import React, { useState } from 'react';
+import { Booking, Department } from '../types';
+import { DepartmentInput } from '../services/departmentRepository';
+import { findDepartment, getUnlinkedDepartments } from '../utils/departments';
+import { useLocale } from '../contexts/LocaleContext';
+
+// Free-text department spelling -> registry id
+export type DepartmentLinks = Record<string, string>;
+
+interface DepartmentAdminProps {
+    departments: Department[];
+    bookings: Booking[];
+    onSave: (departmentData: DepartmentInput, departmentId?: string) => Promise<void>;
+    onLinkBookings: (links: DepartmentLinks) => Promise<{ linked: number; failed: number }>;
+    onClose: () => void;
+}
+
+interface DepartmentForm {
+    code: string;
+    nameAr: string;
+    nameEn: string;
+    contactName: string;
+    contactEmail: string;
+    active: boolean;
+}
+
+const emptyForm: DepartmentForm = { code: '', nameAr: '', nameEn: '', contactName: '', contactEmail: '', active: true };
+
+const toForm = ({ id, ...department }: Department): DepartmentForm => department;
+
+const inputClasses = "w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900 placeholder-gray-400";
+
+export const DepartmentAdmin: React.FC<DepartmentAdminProps> = ({ departments, bookings, onSave, onLinkBookings, onClose }) => {
+    const { t, departmentName } = useLocale();
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [form, setForm] = useState<DepartmentForm>(emptyForm);
+    // Choices made in the migration table; untouched rows fall back to the suggestion
+    const [links, setLinks] = useState<DepartmentLinks>({});
+    const [error, setError] = useState('');
+    const [notice, setNotice] = useState('');
+
+    const unlinked = getUnlinkedDepartments(bookings);
+    const linkFor = (text: string) => links[text] ?? findDepartment(text, departments)?.id ?? '';
+
+    const updateField = <K extends keyof DepartmentForm>(field: K, value: DepartmentForm[K]) => {
+        setForm(prev => ({ ...prev, [field]: value }));
+    };
+
+    const startEdit = (department: Department) => {
+        setEditingId(department.id);
+        setForm(toForm(department));
+        setError('');
+        setNotice('');
+    };
+
+    const resetForm = () => {
+        setEditingId(null);
+        setForm(emptyForm);
+        setError('');
+    };
+
+    const runAction = async (action: () => Promise<void>) => {
+        try {
+            setError('');
+            setNotice('');
+            await action();
+        } catch (e: any) {
+            setError(e.message || t.common.unexpectedError);
+        }
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        runAction(async () => {
+            const code = form.code.trim();
+            if (!code) {
+                throw new Error(t.departments.codeRequired);
+            }
+            if (!form.nameAr.trim()) {
+                throw new Error(t.departments.nameRequired);
+            }
+            if (departments.some(d => d.id !== editingId && d.code.toLowerCase() === code.toLowerCase())) {
+                throw new Error(t.departments.codeTaken);
+            }
+            await onSave({
+                code,
+                nameAr: form.nameAr.trim(),
+                nameEn: form.nameEn.trim(),
+                contactName: form.contactName.trim(),
+                contactEmail: form.contactEmail.trim(),
+                active: form.active,
+            }, editingId || undefined);
+            resetForm();
+        });
+    };
+
+    const handleToggleActive = (department: Department) => {
+        runAction(async () => {
+            const { id, ...departmentData } = department;
+            await onSave({ ...departmentData, active: !department.active }, id);
+        });
+    };
+
+    const handleAddFromText = (text: string) => {
+        setEditingId(null);
+        setForm({ ...emptyForm, nameAr: text });
+        setError('');
+        setNotice('');
+    };
+
+    const handleMigrate = () => {
+        runAction(async () => {
+            const chosen: DepartmentLinks = {};
+            unlinked.forEach(({ text }) => {
+                const departmentId = linkFor(text);
+                if (departmentId) chosen[text] = departmentId;
+            });
+            const { linked, failed } = await onLinkBookings(chosen);
+            setLinks({});
+            if (failed > 0) {
+                setError(t.departments.migrationFailed(failed));
+            }
+            if (linked > 0) {
+                setNotice(t.departments.migrated(linked));
+            }
+        });
+    };
+
+    return (
+        <div className="bg-white rounded-lg shadow-lg p-6">
+            <div className="flex justify-between items-center mb-6">
+                <h2 className="text-2xl font-bold text-gray-900">{t.departments.title}</h2>
+                <button
+                    onClick={onClose}
+                    className="px-4 py-2 bg-gray-200 text-gray-800 font-bold rounded-md hover:bg-gray-300 transition-colors"
+                >
+                    {t.common.backToSchedule}
+                </button>
+            </div>
+
+            {error && (
+                <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded text-center mb-4" role="alert">
+                    {error}
+                </div>
+            )}
+            {notice && (
+                <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded text-center mb-4" role="status">
+                    {notice}
+                </div>
+            )}
+
+            <div className="overflow-x-auto mb-8">
+                <table className="min-w-full border-collapse text-center text-sm">
+                    <thead className="bg-slate-900 text-white font-bold">
+                        <tr>
+                            <th className="py-2 px-2 border border-slate-700">{t.departments.code}</th>
+                            <th className="py-2 px-2 border border-slate-700">{t.departments.nameAr}</th>
+                            <th className="py-2 px-2 border border-slate-700">{t.departments.nameEn}</th>
+                            <th className="py-2 px-2 border border-slate-700">{t.departments.contact}</th>
+                            <th className="py-2 px-2 border border-slate-700">{t.common.status}</th>
+                            <th className="py-2 px-2 border border-slate-700"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {departments.map(department => (
+                            <tr key={department.id} className={department.active ? 'bg-white' : 'bg-gray-100 text-gray-500'}>
+                                <td className="py-2 px-2 border border-gray-200 font-mono" dir="ltr">{department.code}</td>
+                                <td className="py-2 px-2 border border-gray-200 font-semibold">{department.nameAr}</td>
+                                <td className="py-2 px-2 border border-gray-200" dir="ltr">{department.nameEn}</td>
+                                <td className="py-2 px-2 border border-gray-200">
+                                    {department.contactName}
+                                    {department.contactEmail && <div className="text-xs text-gray-500" dir="ltr">{department.contactEmail}</div>}
+                                </td>
+                                <td className="py-2 px-2 border border-gray-200">
+                                    {department.active ? t.departments.active : t.departments.inactive}
+                                </td>
+                                <td className="py-2 px-2 border border-gray-200 whitespace-nowrap">
+                                    <button onClick={() => startEdit(department)} className="text-blue-700 font-bold hover:underline me-4">
+                                        {t.common.edit}
+                                    </button>
+                                    <button onClick={() => handleToggleActive(department)} className="text-gray-700 font-bold hover:underline">
+                                        {department.active ? t.departments.deactivate : t.departments.reactivate}
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4 text-start max-w-2xl mb-10">
+                <h3 className="text-lg font-bold text-gray-800">{editingId ? t.departments.editTitle : t.departments.addTitle}</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label htmlFor="department-code" className="block text-sm font-bold text-gray-700 mb-1">{t.departments.code}</label>
+                        <input id="department-code" type="text" dir="ltr" value={form.code} onChange={e => updateField('code', e.target.value)} className={inputClasses} />
+                    </div>
+                    <div />
+                    <div>
+                        <label htmlFor="department-name-ar" className="block text-sm font-bold text-gray-700 mb-1">{t.departments.nameAr}</label>
+                        <input id="department-name-ar" type="text" value={form.nameAr} onChange={e => updateField('nameAr', e.target.value)} className={inputClasses} />
+                    </div>
+                    <div>
+                        <label htmlFor="department-name-en" className="block text-sm font-bold text-gray-700 mb-1">{t.departments.nameEn}</label>
+                        <input id="department-name-en" type="text" dir="ltr" value={form.nameEn} onChange={e => updateField('nameEn', e.target.value)} className={inputClasses} />
+                    </div>
+                    <div>
+                        <label htmlFor="department-contact-name" className="block text-sm font-bold text-gray-700 mb-1">{t.departments.contactName}</label>
+                        <input id="department-contact-name" type="text" value={form.contactName} onChange={e => updateField('contactName', e.target.value)} className={inputClasses} />
+                    </div>
+                    <div>
+                        <label htmlFor="department-contact-email" className="block text-sm font-bold text-gray-700 mb-1">{t.departments.contactEmail}</label>
+                        <input id="department-contact-email" type="email" dir="ltr" value={form.contactEmail} onChange={e => updateField('contactEmail', e.target.value)} className={inputClasses} />
+                    </div>
+                </div>
+                <label className="flex items-center gap-2 text-gray-700 font-bold">
+                    <input type="checkbox" checked={form.active} onChange={e => updateField('active', e.target.checked)} />
+                    {t.departments.activeLabel}
+                </label>
+                <div className="flex gap-4">
+                    <button type="submit" className="px-6 py-2 bg-blue-600 text-white font-bold rounded-md hover:bg-blue-700 transition-colors">
+                        {editingId ? t.common.saveChanges : t.departments.addSubmit}
+                    </button>
+                    {editingId && (
+                        <button type="button" onClick={resetForm} className="px-6 py-2 bg-gray-200 text-gray-800 font-bold rounded-md hover:bg-gray-300 transition-colors">
+                            {t.common.cancel}
+                        </button>
+                    )}
+                </div>
+            </form>
+
+            <div className="text-start">
+                <h3 className="text-lg font-bold text-gray-800 mb-1">{t.departments.migrationTitle}</h3>
+                {unlinked.length === 0 ? (
+                    <p className="text-sm text-gray-600">{t.departments.migrationEmpty}</p>
+                ) : (
+                    <>
+                        <p className="text-sm text-gray-600 mb-3">{t.departments.migrationHint}</p>
+                        <div className="overflow-x-auto mb-4">
+                            <table className="min-w-full border-collapse text-center text-sm">
+                                <thead className="bg-slate-900 text-white font-bold">
+                                    <tr>
+                                        <th className="py-2 px-2 border border-slate-700">{t.departments.writtenAs}</th>
+                                        <th className="py-2 px-2 border border-slate-700">{t.departments.bookingCount}</th>
+                                        <th className="py-2 px-2 border border-slate-700">{t.departments.linkTo}</th>
+                                        <th className="py-2 px-2 border border-slate-700"></th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {unlinked.map(({ text, count }) => (
+                                        <tr key={text} className="bg-white">
+                                            <td className="py-2 px-2 border border-gray-200 font-semibold">{text}</td>
+                                            <td className="py-2 px-2 border border-gray-200">{count}</td>
+                                            <td className="py-2 px-2 border border-gray-200">
+                                                <select
+                                                    value={linkFor(text)}
+                                                    onChange={e => setLinks(prev => ({ ...prev, [text]: e.target.value }))}
+                                                    className="px-2 py-1 border border-gray-300 rounded-md bg-white text-gray-900"
+                                                    aria-label={`${t.departments.linkTo}: ${text}`}
+                                                >
+                                                    <option value="">{t.departments.chooseDepartment}</option>
+                                                    {departments.map(department => (
+                                                        <option key={department.id} value={department.id}>
+                                                            {department.code} - {departmentName(department)}
+                                                        </option>
+                                                    ))}
+                                                </select>
+                                            </td>
+                                            <td className="py-2 px-2 border border-gray-200 whitespace-nowrap">
+                                                <button onClick={() => handleAddFromText(text)} className="text-blue-700 font-bold hover:underline">
+                                                    {t.departments.addFromText}
+                                                </button>
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                        <button
+                            onClick={handleMigrate}
+                            disabled={!unlinked.some(({ text }) => linkFor(text))}
+                            className="px-6 py-2 bg-blue-600 text-white font-bold rounded-md hover:bg-blue-700 transition-colors disabled:bg-gray-400"
+                        >
+                            {t.departments.migrate}
+                        </button>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
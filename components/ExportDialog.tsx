@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import { Hall } from '../types';
+import { CloseIcon } from './icons';
+import { ExportLayout, ExportOptions } from '../services/excelExport';
+import { useSettings } from '../contexts/SettingsContext';
+import { useLocale } from '../contexts/LocaleContext';
+import { MAX_RANGE_YEARS, addHijriMonths, formatDateDisplay, fromHijriMonth, getDaysInRange, isRangeTooLong, parseYYYYMMDD, toHijri } from '../utils/dateUtils';
+
+interface ExportDialogProps {
+    halls: Hall[];
+    defaultHallId: string;
+    currentDate: Date;
+    onExport: (options: ExportOptions) => void;
+    onClose: () => void;
+}
+
+type RangeKind = 'month' | 'hijriMonth' | 'quarter' | 'year' | 'custom';
+
+const rangeOptions: RangeKind[] = ['month', 'hijriMonth', 'quarter', 'year', 'custom'];
+
+const inputClasses = "px-3 py-2 border border-gray-300 rounded-md bg-white text-gray-900";
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ halls, defaultHallId, currentDate, onExport, onClose }) => {
+    const { settings } = useSettings();
+    const { t, locale, hallName } = useLocale();
+    const [hallIds, setHallIds] = useState<string[]>([defaultHallId]);
+    const [rangeKind, setRangeKind] = useState<RangeKind>('month');
+    const [year, setYear] = useState(currentDate.getFullYear());
+    const [month, setMonth] = useState(currentDate.getMonth());
+    const [quarter, setQuarter] = useState(Math.floor(currentDate.getMonth() / 3));
+    const [from, setFrom] = useState('');
+    const [to, setTo] = useState('');
+    const [layout, setLayout] = useState<ExportLayout>('grid');
+    const [includeSummary, setIncludeSummary] = useState(false);
+    const [includeHijri, setIncludeHijri] = useState(settings.showHijriDates);
+    const [hijriYear, setHijriYear] = useState(toHijri(currentDate).year);
+    const [hijriMonth, setHijriMonth] = useState(toHijri(currentDate).month);
+    const [error, setError] = useState('');
+
+    const yearsForSelect = Array.from({ length: 11 }, (_, i) => currentDate.getFullYear() - 5 + i);
+    const hijriYearsForSelect = Array.from({ length: 11 }, (_, i) => toHijri(currentDate).year - 5 + i);
+
+    const toggleHall = (hallId: string) => {
+        setHallIds(prev => prev.includes(hallId) ? prev.filter(id => id !== hallId) : [...prev, hallId]);
+    };
+
+    const getRange = (): { days: Date[]; periodLabel: string } => {
+        switch (rangeKind) {
+            case 'month':
+                return {
+                    days: getDaysInRange(new Date(year, month, 1), new Date(year, month + 1, 0)),
+                    periodLabel: `${t.calendar.months[month]} ${year}`,
+                };
+            case 'hijriMonth': {
+                const start = fromHijriMonth(currentDate, hijriYear, hijriMonth);
+                const end = addHijriMonths(start, 1);
+                end.setDate(end.getDate() - 1);
+                return {
+                    days: getDaysInRange(start, end),
+                    periodLabel: `${t.calendar.hijriMonths[hijriMonth - 1]} ${hijriYear} ${t.calendar.hijriSuffix}`,
+                };
+            }
+            case 'quarter':
+                return {
+                    days: getDaysInRange(new Date(year, quarter * 3, 1), new Date(year, quarter * 3 + 3, 0)),
+                    periodLabel: `${t.calendar.quarters[quarter]} ${year}`,
+                };
+            case 'year':
+                return {
+                    days: getDaysInRange(new Date(year, 0, 1), new Date(year, 11, 31)),
+                    periodLabel: String(year),
+                };
+            case 'custom': {
+                if (!from || !to || to < from) {
+                    throw new Error(t.export.invalidRange);
+                }
+                const start = parseYYYYMMDD(from);
+                const end = parseYYYYMMDD(to);
+                if (isRangeTooLong(start, end)) {
+                    throw new Error(t.common.rangeTooLong(MAX_RANGE_YEARS));
+                }
+                return {
+                    days: getDaysInRange(start, end),
+                    periodLabel: `${formatDateDisplay(start)} - ${formatDateDisplay(end)}`,
+                };
+            }
+        }
+    };
+
+    const handleExport = () => {
+        try {
+            setError('');
+            const selectedHalls = halls.filter(h => hallIds.includes(h.id));
+            if (selectedHalls.length === 0) {
+                throw new Error(t.export.noHallSelected);
+            }
+            onExport({ halls: selectedHalls, ...getRange(), layout, includeSummary, weekendDays: settings.weekendDays, includeHijri, locale });
+            onClose();
+        } catch (e: any) {
+            setError(e.message || t.common.unexpectedError);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50" onClick={onClose}>
+            <div
+                className="bg-white rounded-lg shadow-xl p-8 w-full max-w-lg max-h-[90vh] overflow-y-auto relative"
+                onClick={e => e.stopPropagation()}
+            >
+                <button onClick={onClose} className="absolute top-4 end-4 text-gray-400 hover:text-gray-600">
+                    <CloseIcon />
+                </button>
+                <h2 className="text-2xl font-bold text-gray-900 text-center mb-6">{t.export.title}</h2>
+
+                {error && (
+                    <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded text-center mb-4" role="alert">
+                        {error}
+                    </div>
+                )}
+
+                <div className="space-y-4 text-start">
+                    <fieldset>
+                        <legend className="block text-sm font-bold text-gray-700 mb-1">{t.export.hallsLegend}</legend>
+                        <div className="flex flex-wrap gap-4">
+                            {halls.map(hall => (
+                                <label key={hall.id} className="flex items-center gap-1 text-gray-700">
+                                    <input type="checkbox" checked={hallIds.includes(hall.id)} onChange={() => toggleHall(hall.id)} />
+                                    {hallName(hall)}
+                                </label>
+                            ))}
+                            <button
+                                type="button"
+                                onClick={() => setHallIds(hallIds.length === halls.length ? [] : halls.map(h => h.id))}
+                                className="text-blue-700 font-bold text-sm hover:underline"
+                            >
+                                {hallIds.length === halls.length ? t.export.deselectAll : t.export.selectAll}
+                            </button>
+                        </div>
+                    </fieldset>
+
+                    <div>
+                        <label htmlFor="export-range" className="block text-sm font-bold text-gray-700 mb-1">{t.export.period}</label>
+                        <div className="flex flex-wrap gap-2">
+                            <select id="export-range" value={rangeKind} onChange={e => setRangeKind(e.target.value as RangeKind)} className={inputClasses}>
+                                {rangeOptions.map(option => (
+                                    <option key={option} value={option}>{t.export.ranges[option]}</option>
+                                ))}
+                            </select>
+                            {rangeKind === 'hijriMonth' && (
+                                <>
+                                    <select value={hijriYear} onChange={e => setHijriYear(Number(e.target.value))} className={inputClasses} aria-label={t.export.hijriYear}>
+                                        {hijriYearsForSelect.map(y => (
+                                            <option key={y} value={y}>{`${y} ${t.calendar.hijriSuffix}`}</option>
+                                        ))}
+                                    </select>
+                                    <select value={hijriMonth} onChange={e => setHijriMonth(Number(e.target.value))} className={inputClasses} aria-label={t.export.hijriMonth}>
+                                        {t.calendar.hijriMonths.map((name, i) => (
+                                            <option key={i} value={i + 1}>{name}</option>
+                                        ))}
+                                    </select>
+                                </>
+                            )}
+                            {rangeKind !== 'custom' && rangeKind !== 'hijriMonth' && (
+                                <select value={year} onChange={e => setYear(Number(e.target.value))} className={inputClasses} aria-label={t.export.year}>
+                                    {yearsForSelect.map(y => (
+                                        <option key={y} value={y}>{y}</option>
+                                    ))}
+                                </select>
+                            )}
+                            {rangeKind === 'month' && (
+                                <select value={month} onChange={e => setMonth(Number(e.target.value))} className={inputClasses} aria-label={t.export.month}>
+                                    {t.calendar.months.map((name, i) => (
+                                        <option key={i} value={i}>{name}</option>
+                                    ))}
+                                </select>
+                            )}
+                            {rangeKind === 'quarter' && (
+                                <select value={quarter} onChange={e => setQuarter(Number(e.target.value))} className={inputClasses} aria-label={t.export.quarter}>
+                                    {t.calendar.quarters.map((name, i) => (
+                                        <option key={i} value={i}>{name}</option>
+                                    ))}
+                                </select>
+                            )}
+                            {rangeKind === 'custom' && (
+                                <>
+                                    <input type="date" value={from} onChange={e => setFrom(e.target.value)} className={inputClasses} aria-label={t.common.from} />
+                                    <input type="date" value={to} onChange={e => setTo(e.target.value)} className={inputClasses} aria-label={t.common.to} />
+                                </>
+                            )}
+                        </div>
+                    </div>
+
+                    <fieldset>
+                        <legend className="block text-sm font-bold text-gray-700 mb-1">{t.export.layout}</legend>
+                        <div className="flex flex-wrap gap-4">
+                            <label className="flex items-center gap-1 text-gray-700">
+                                <input type="radio" name="export-layout" checked={layout === 'grid'} onChange={() => setLayout('grid')} />
+                                {t.export.gridLayout}
+                            </label>
+                            <label className="flex items-center gap-1 text-gray-700">
+                                <input type="radio" name="export-layout" checked={layout === 'list'} onChange={() => setLayout('list')} />
+                                {t.export.listLayout}
+                            </label>
+                        </div>
+                    </fieldset>
+
+                    <label className="flex items-center gap-2 text-gray-700 font-bold">
+                        <input type="checkbox" checked={includeSummary} onChange={e => setIncludeSummary(e.target.checked)} />
+                        {t.export.includeSummary}
+                    </label>
+
+                    <label className="flex items-center gap-2 text-gray-700 font-bold">
+                        <input type="checkbox" checked={includeHijri} onChange={e => setIncludeHijri(e.target.checked)} />
+                        {t.export.includeHijri}
+                    </label>
+                </div>
+
+                <div className="mt-8 flex justify-end gap-4">
+                    <button onClick={onClose} className="px-6 py-2 bg-gray-200 text-gray-800 font-bold rounded-md hover:bg-gray-300 transition-colors">
+                        {t.common.cancel}
+                    </button>
+                    <button onClick={handleExport} className="px-6 py-2 bg-blue-600 text-white font-bold rounded-md hover:bg-blue-700 transition-colors">
+                        {t.export.submit}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
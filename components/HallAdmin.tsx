@@ -0,0 +1,349 @@
+import React, { useState } from 'react';
+import { Hall, HallSchedule, SlotMinutes } from '../types';
+import { HallInput } from '../services/hallRepository';
+import { DEFAULT_HALL_SCHEDULE, SLOT_MINUTES_OPTIONS } from '../constants';
+import { getHallSchedule } from '../utils/timeSlots';
+import { orderedWeekdays } from '../utils/workWeek';
+import { messages } from '../i18n';
+import { useSettings } from '../contexts/SettingsContext';
+import { useLocale } from '../contexts/LocaleContext';
+
+interface HallAdminProps {
+    halls: Hall[];
+    onSave: (hallData: HallInput, hallId?: string) => Promise<void>;
+    onClose: () => void;
+}
+
+type OverrideMode = 'default' | 'custom' | 'closed';
+
+interface WeekdayOverrideForm {
+    mode: OverrideMode;
+    openTime: string;
+    closeTime: string;
+}
+
+interface HallForm {
+    nameAr: string;
+    nameEn: string;
+    capacity: string;
+    location: string;
+    equipment: string;
+    active: boolean;
+    requiresApproval: boolean;
+    openTime: string;
+    closeTime: string;
+    slotMinutes: SlotMinutes;
+    overrides: WeekdayOverrideForm[]; // Indexed by Date#getDay()
+}
+
+const toOverrideForms = (schedule: HallSchedule): WeekdayOverrideForm[] =>
+    Array.from({ length: 7 }, (_, weekday): WeekdayOverrideForm => {
+        if (!(weekday in schedule.weekdayOverrides)) {
+            return { mode: 'default', openTime: schedule.openTime, closeTime: schedule.closeTime };
+        }
+        const hours = schedule.weekdayOverrides[weekday];
+        return hours
+            ? { mode: 'custom', openTime: hours.openTime, closeTime: hours.closeTime }
+            : { mode: 'closed', openTime: schedule.openTime, closeTime: schedule.closeTime };
+    });
+
+const emptyForm: HallForm = {
+    nameAr: '',
+    nameEn: '',
+    capacity: '',
+    location: '',
+    equipment: '',
+    active: true,
+    requiresApproval: false,
+    openTime: DEFAULT_HALL_SCHEDULE.openTime,
+    closeTime: DEFAULT_HALL_SCHEDULE.closeTime,
+    slotMinutes: DEFAULT_HALL_SCHEDULE.slotMinutes,
+    overrides: toOverrideForms(DEFAULT_HALL_SCHEDULE),
+};
+
+const toForm = (hall: Hall): HallForm => {
+    const schedule = getHallSchedule(hall);
+    return {
+        nameAr: hall.nameAr,
+        nameEn: hall.nameEn,
+        capacity: String(hall.capacity),
+        location: hall.location,
+        equipment: hall.equipment.join(messages().common.listSeparator),
+        active: hall.active,
+        requiresApproval: !!hall.requiresApproval,
+        openTime: schedule.openTime,
+        closeTime: schedule.closeTime,
+        slotMinutes: schedule.slotMinutes,
+        overrides: toOverrideForms(schedule),
+    };
+};
+
+const toSchedule = (form: HallForm): HallSchedule => {
+    const t = messages();
+    if (form.closeTime <= form.openTime) {
+        throw new Error(t.halls.closeBeforeOpen);
+    }
+    const weekdayOverrides: HallSchedule['weekdayOverrides'] = {};
+    form.overrides.forEach((override, weekday) => {
+        if (override.mode === 'closed') {
+            weekdayOverrides[weekday] = null;
+        } else if (override.mode === 'custom') {
+            if (override.closeTime <= override.openTime) {
+                throw new Error(t.halls.invalidWeekdayHours(t.calendar.weekdays[weekday]));
+            }
+            weekdayOverrides[weekday] = { openTime: override.openTime, closeTime: override.closeTime };
+        }
+    });
+    return {
+        openTime: form.openTime,
+        closeTime: form.closeTime,
+        slotMinutes: form.slotMinutes,
+        weekdayOverrides,
+    };
+};
+
+const formatScheduleSummary = (schedule: HallSchedule) =>
+    `${schedule.openTime} - ${schedule.closeTime} (${schedule.slotMinutes}′)`;
+
+const inputClasses = "w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900 placeholder-gray-400";
+
+export const HallAdmin: React.FC<HallAdminProps> = ({ halls, onSave, onClose }) => {
+    const { settings } = useSettings();
+    const { t } = useLocale();
+    const isWeekendDay = (weekday: number) => settings.weekendDays.includes(weekday);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [form, setForm] = useState<HallForm>(emptyForm);
+    const [error, setError] = useState('');
+
+    const updateField = <K extends keyof HallForm>(field: K, value: HallForm[K]) => {
+        setForm(prev => ({ ...prev, [field]: value }));
+    };
+
+    const updateOverride = (weekday: number, changes: Partial<WeekdayOverrideForm>) => {
+        setForm(prev => ({
+            ...prev,
+            overrides: prev.overrides.map((o, i) => i === weekday ? { ...o, ...changes } : o),
+        }));
+    };
+
+    const startEdit = (hall: Hall) => {
+        setEditingId(hall.id);
+        setForm(toForm(hall));
+        setError('');
+    };
+
+    const resetForm = () => {
+        setEditingId(null);
+        setForm(emptyForm);
+        setError('');
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        try {
+            setError('');
+            if (!form.nameAr.trim()) {
+                throw new Error(t.halls.nameRequired);
+            }
+            const capacity = parseInt(form.capacity, 10);
+            if (isNaN(capacity) || capacity < 0) {
+                throw new Error(t.halls.capacityInvalid);
+            }
+            await onSave({
+                nameAr: form.nameAr.trim(),
+                nameEn: form.nameEn.trim(),
+                capacity,
+                location: form.location.trim(),
+                equipment: form.equipment.split(/[,،]/).map(item => item.trim()).filter(Boolean),
+                active: form.active,
+                requiresApproval: form.requiresApproval,
+                schedule: toSchedule(form),
+            }, editingId || undefined);
+            resetForm();
+        } catch (e: any) {
+            setError(e.message || t.common.unexpectedError);
+        }
+    };
+
+    const handleToggleActive = async (hall: Hall) => {
+        try {
+            setError('');
+            const { id, ...hallData } = hall;
+            await onSave({ ...hallData, active: !hall.active }, id);
+        } catch (e: any) {
+            setError(e.message || t.common.unexpectedError);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-lg shadow-lg p-6">
+            <div className="flex justify-between items-center mb-6">
+                <h2 className="text-2xl font-bold text-gray-900">{t.halls.title}</h2>
+                <button
+                    onClick={onClose}
+                    className="px-4 py-2 bg-gray-200 text-gray-800 font-bold rounded-md hover:bg-gray-300 transition-colors"
+                >
+                    {t.common.backToSchedule}
+                </button>
+            </div>
+
+            {error && (
+                <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded text-center mb-4" role="alert">
+                    {error}
+                </div>
+            )}
+
+            <div className="overflow-x-auto mb-8">
+                <table className="min-w-full border-collapse text-center text-sm">
+                    <thead className="bg-slate-900 text-white font-bold">
+                        <tr>
+                            <th className="py-2 px-2 border border-slate-700">{t.halls.nameAr}</th>
+                            <th className="py-2 px-2 border border-slate-700">{t.halls.nameEn}</th>
+                            <th className="py-2 px-2 border border-slate-700">{t.halls.capacity}</th>
+                            <th className="py-2 px-2 border border-slate-700">{t.halls.location}</th>
+                            <th className="py-2 px-2 border border-slate-700">{t.halls.equipment}</th>
+                            <th className="py-2 px-2 border border-slate-700">{t.halls.workingHours}</th>
+                            <th className="py-2 px-2 border border-slate-700">{t.common.status}</th>
+                            <th className="py-2 px-2 border border-slate-700"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {halls.map(hall => (
+                            <tr key={hall.id} className={hall.active ? 'bg-white' : 'bg-gray-100 text-gray-500'}>
+                                <td className="py-2 px-2 border border-gray-200 font-semibold">{hall.nameAr}</td>
+                                <td className="py-2 px-2 border border-gray-200" dir="ltr">{hall.nameEn}</td>
+                                <td className="py-2 px-2 border border-gray-200">{hall.capacity}</td>
+                                <td className="py-2 px-2 border border-gray-200">{hall.location}</td>
+                                <td className="py-2 px-2 border border-gray-200">{hall.equipment.join(t.common.listSeparator)}</td>
+                                <td className="py-2 px-2 border border-gray-200" dir="ltr">
+                                    {formatScheduleSummary(getHallSchedule(hall))}
+                                </td>
+                                <td className="py-2 px-2 border border-gray-200">
+                                    {hall.active ? t.halls.available : t.halls.suspended}
+                                    {hall.requiresApproval && <div className="text-xs text-amber-700">{t.halls.requiresApprovalBadge}</div>}
+                                </td>
+                                <td className="py-2 px-2 border border-gray-200 whitespace-nowrap">
+                                    <button onClick={() => startEdit(hall)} className="text-blue-700 font-bold hover:underline me-4">
+                                        {t.common.edit}
+                                    </button>
+                                    <button onClick={() => handleToggleActive(hall)} className="text-gray-700 font-bold hover:underline">
+                                        {hall.active ? t.halls.deactivate : t.halls.reactivate}
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4 text-start max-w-2xl">
+                <h3 className="text-lg font-bold text-gray-800">{editingId ? t.halls.editTitle : t.halls.addTitle}</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label htmlFor="hall-name-ar" className="block text-sm font-bold text-gray-700 mb-1">{t.halls.nameAr}</label>
+                        <input id="hall-name-ar" type="text" value={form.nameAr} onChange={e => updateField('nameAr', e.target.value)} className={inputClasses} />
+                    </div>
+                    <div>
+                        <label htmlFor="hall-name-en" className="block text-sm font-bold text-gray-700 mb-1">{t.halls.nameEn}</label>
+                        <input id="hall-name-en" type="text" dir="ltr" value={form.nameEn} onChange={e => updateField('nameEn', e.target.value)} className={inputClasses} />
+                    </div>
+                    <div>
+                        <label htmlFor="hall-capacity" className="block text-sm font-bold text-gray-700 mb-1">{t.halls.capacityLabel}</label>
+                        <input id="hall-capacity" type="number" min={0} value={form.capacity} onChange={e => updateField('capacity', e.target.value)} className={inputClasses} />
+                    </div>
+                    <div>
+                        <label htmlFor="hall-location" className="block text-sm font-bold text-gray-700 mb-1">{t.halls.location}</label>
+                        <input id="hall-location" type="text" value={form.location} onChange={e => updateField('location', e.target.value)} className={inputClasses} placeholder={t.halls.locationPlaceholder} />
+                    </div>
+                    <div className="md:col-span-2">
+                        <label htmlFor="hall-equipment" className="block text-sm font-bold text-gray-700 mb-1">{t.halls.equipment}</label>
+                        <input id="hall-equipment" type="text" value={form.equipment} onChange={e => updateField('equipment', e.target.value)} className={inputClasses} placeholder={t.halls.equipmentPlaceholder} />
+                    </div>
+                </div>
+
+                <h4 className="text-md font-bold text-gray-800 pt-2">{t.halls.workingHours}</h4>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <div>
+                        <label htmlFor="hall-open" className="block text-sm font-bold text-gray-700 mb-1">{t.halls.openTime}</label>
+                        <input id="hall-open" type="time" value={form.openTime} onChange={e => updateField('openTime', e.target.value)} className={inputClasses} />
+                    </div>
+                    <div>
+                        <label htmlFor="hall-close" className="block text-sm font-bold text-gray-700 mb-1">{t.halls.closeTime}</label>
+                        <input id="hall-close" type="time" value={form.closeTime} onChange={e => updateField('closeTime', e.target.value)} className={inputClasses} />
+                    </div>
+                    <div>
+                        <label htmlFor="hall-slot" className="block text-sm font-bold text-gray-700 mb-1">{t.halls.slotMinutes}</label>
+                        <select
+                            id="hall-slot"
+                            value={form.slotMinutes}
+                            onChange={e => updateField('slotMinutes', Number(e.target.value) as SlotMinutes)}
+                            className={inputClasses}
+                        >
+                            {SLOT_MINUTES_OPTIONS.map(minutes => (
+                                <option key={minutes} value={minutes}>{minutes}</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+
+                <table className="w-full text-sm">
+                    <tbody>
+                        {orderedWeekdays(settings.firstDayOfWeek).map(weekday => {
+                            const override = form.overrides[weekday];
+                            return (
+                                <tr key={weekday}>
+                                    <td className="py-1 font-semibold text-gray-700 w-28">
+                                        {t.calendar.weekdays[weekday]}
+                                        {isWeekendDay(weekday) && <span className="text-xs font-normal text-amber-700">{t.halls.weekend}</span>}
+                                    </td>
+                                    <td className="py-1">
+                                        <select
+                                            value={override.mode}
+                                            onChange={e => updateOverride(weekday, { mode: e.target.value as OverrideMode })}
+                                            className="px-2 py-1 border border-gray-300 rounded-md bg-white text-gray-900"
+                                            aria-label={t.halls.weekdayHours(t.calendar.weekdays[weekday])}
+                                        >
+                                            <option value="default">
+                                                {settings.closedOnWeekends && isWeekendDay(weekday) ? t.halls.closedWeekend : t.halls.defaultHours}
+                                            </option>
+                                            <option value="custom">{t.halls.customHours}</option>
+                                            <option value="closed">{t.halls.closed}</option>
+                                        </select>
+                                    </td>
+                                    <td className="py-1">
+                                        {override.mode === 'custom' && (
+                                            <div className="flex items-center gap-2">
+                                                <input type="time" value={override.openTime} onChange={e => updateOverride(weekday, { openTime: e.target.value })} className="px-2 py-1 border border-gray-300 rounded-md" />
+                                                <span>-</span>
+                                                <input type="time" value={override.closeTime} onChange={e => updateOverride(weekday, { closeTime: e.target.value })} className="px-2 py-1 border border-gray-300 rounded-md" />
+                                            </div>
+                                        )}
+                                    </td>
+                                </tr>
+                            );
+                        })}
+                    </tbody>
+                </table>
+
+                <label className="flex items-center gap-2 text-gray-700 font-bold">
+                    <input type="checkbox" checked={form.active} onChange={e => updateField('active', e.target.checked)} />
+                    {t.halls.activeLabel}
+                </label>
+                <label className="flex items-center gap-2 text-gray-700 font-bold">
+                    <input type="checkbox" checked={form.requiresApproval} onChange={e => updateField('requiresApproval', e.target.checked)} />
+                    {t.halls.requiresApprovalLabel}
+                </label>
+                <div className="flex gap-4">
+                    <button type="submit" className="px-6 py-2 bg-blue-600 text-white font-bold rounded-md hover:bg-blue-700 transition-colors">
+                        {editingId ? t.common.saveChanges : t.halls.addSubmit}
+                    </button>
+                    {editingId && (
+                        <button type="button" onClick={resetForm} className="px-6 py-2 bg-gray-200 text-gray-800 font-bold rounded-md hover:bg-gray-300 transition-colors">
+                            {t.common.cancel}
+                        </button>
+                    )}
+                </div>
+            </form>
+        </div>
+    );
+};
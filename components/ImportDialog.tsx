@@ -0,0 +1,157 @@
+import React, { useMemo, useState } from 'react';
+import { Blackout, Booking, Department, Hall } from '../types';
+import { CloseIcon } from './icons';
+import { ImportedBooking, checkImportRows, parseBookingFile } from '../services/excelImport';
+import { formatDateDisplay, parseYYYYMMDD } from '../utils/dateUtils';
+import { useLocale } from '../contexts/LocaleContext';
+
+interface ImportDialogProps {
+    halls: Hall[];
+    bookings: Booking[];
+    blackouts: Blackout[];
+    departments: Department[];
+    defaultHallId: string;
+    onImport: (bookings: ImportedBooking[]) => Promise<void>;
+    onClose: () => void;
+}
+
+export const ImportDialog: React.FC<ImportDialogProps> = ({ halls, bookings, blackouts, departments, defaultHallId, onImport, onClose }) => {
+    const { t, hallName } = useLocale();
+    const [file, setFile] = useState<{ name: string; data: ArrayBuffer } | null>(null);
+    const [fallbackHallId, setFallbackHallId] = useState(defaultHallId);
+    const [error, setError] = useState('');
+    const [isImporting, setIsImporting] = useState(false);
+
+    const rows = useMemo(() => {
+        if (!file) return [];
+        try {
+            const parsed = parseBookingFile(file.data, halls, halls.find(h => h.id === fallbackHallId));
+            return checkImportRows(parsed, bookings, halls, blackouts, departments);
+        } catch {
+            return [{ sheet: file.name, rowNumber: 1, errors: [t.import.readFailed], warnings: [] }];
+        }
+    }, [file, fallbackHallId, halls, bookings, blackouts, departments, t]);
+
+    const validBookings = rows.filter(row => row.booking && row.errors.length === 0).map(row => row.booking!);
+    const getHallName = (id: string) => {
+        const hall = halls.find(h => h.id === id);
+        return hall ? hallName(hall) : id;
+    };
+
+    const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const selected = e.target.files?.[0];
+        setError('');
+        setFile(selected ? { name: selected.name, data: await selected.arrayBuffer() } : null);
+    };
+
+    const handleImport = async () => {
+        try {
+            setError('');
+            setIsImporting(true);
+            await onImport(validBookings);
+        } catch (e: any) {
+            setError(e.message || t.common.unexpectedError);
+        } finally {
+            setIsImporting(false);
+        }
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black bg-opacity-50 flex justify-center items-center z-50" onClick={onClose}>
+            <div
+                className="bg-white rounded-lg shadow-xl p-8 w-full max-w-5xl max-h-[90vh] overflow-y-auto relative"
+                onClick={e => e.stopPropagation()}
+            >
+                <button onClick={onClose} className="absolute top-4 end-4 text-gray-400 hover:text-gray-600">
+                    <CloseIcon />
+                </button>
+                <h2 className="text-2xl font-bold text-gray-900 text-center mb-2">{t.import.title}</h2>
+                <p className="text-sm text-gray-600 text-center mb-6">
+                    {t.import.hint}
+                </p>
+
+                {error && (
+                    <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded text-center mb-4 whitespace-pre-line" role="alert">
+                        {error}
+                    </div>
+                )}
+
+                <div className="flex flex-wrap items-end gap-4 mb-6 text-start">
+                    <div>
+                        <label htmlFor="import-file" className="block text-sm font-bold text-gray-700 mb-1">{t.import.file}</label>
+                        <input id="import-file" type="file" accept=".xlsx,.xls,.csv" onChange={handleFileChange} className="text-sm" />
+                    </div>
+                    <div>
+                        <label htmlFor="import-hall" className="block text-sm font-bold text-gray-700 mb-1">{t.import.fallbackHall}</label>
+                        <select
+                            id="import-hall"
+                            value={fallbackHallId}
+                            onChange={e => setFallbackHallId(e.target.value)}
+                            className="px-3 py-2 border border-gray-300 rounded-md bg-white text-gray-900"
+                        >
+                            {halls.map(hall => (
+                                <option key={hall.id} value={hall.id}>{hallName(hall)}</option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+
+                {file && (
+                    <>
+                        <p className="font-bold text-gray-800 mb-2">
+                            {t.import.ready(validBookings.length, rows.length)}
+                        </p>
+                        <div className="overflow-x-auto mb-6">
+                            <table className="min-w-full border-collapse text-center text-sm">
+                                <thead className="bg-slate-900 text-white font-bold">
+                                    <tr>
+                                        <th className="py-2 px-2 border border-slate-700">{t.import.sheetRow}</th>
+                                        <th className="py-2 px-2 border border-slate-700">{t.common.hall}</th>
+                                        <th className="py-2 px-2 border border-slate-700">{t.common.date}</th>
+                                        <th className="py-2 px-2 border border-slate-700">{t.common.time}</th>
+                                        <th className="py-2 px-2 border border-slate-700">{t.common.department}</th>
+                                        <th className="py-2 px-2 border border-slate-700">{t.common.notes}</th>
+                                        <th className="py-2 px-2 border border-slate-700">{t.import.validation}</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {rows.map((row, i) => (
+                                        <tr key={i} className={row.errors.length ? 'bg-red-50' : row.warnings.length ? 'bg-amber-50' : 'bg-white'}>
+                                            <td className="py-1 px-2 border border-gray-200 whitespace-nowrap">{`${row.sheet} / ${row.rowNumber}`}</td>
+                                            <td className="py-1 px-2 border border-gray-200">{row.booking && getHallName(row.booking.hallId)}</td>
+                                            <td className="py-1 px-2 border border-gray-200">{row.booking && formatDateDisplay(parseYYYYMMDD(row.booking.date))}</td>
+                                            <td className="py-1 px-2 border border-gray-200" dir="ltr">{row.booking && `${row.booking.time} - ${row.booking.endTime}`}</td>
+                                            <td className="py-1 px-2 border border-gray-200">{row.booking?.department}</td>
+                                            <td className="py-1 px-2 border border-gray-200">{row.booking?.notes}</td>
+                                            <td className="py-1 px-2 border border-gray-200 text-start">
+                                                {row.errors.map(message => <div key={message} className="text-red-700">{message}</div>)}
+                                                {row.warnings.map(message => <div key={message} className="text-amber-700">{message}</div>)}
+                                                {!row.errors.length && !row.warnings.length && <span className="text-green-700">✓</span>}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </>
+                )}
+
+                <div className="flex justify-end gap-4">
+                    <button
+                        onClick={onClose}
+                        className="px-6 py-2 bg-gray-200 text-gray-800 font-bold rounded-md hover:bg-gray-300 transition-colors"
+                    >
+                        {t.common.cancel}
+                    </button>
+                    <button
+                        onClick={handleImport}
+                        disabled={isImporting || validBookings.length === 0}
+                        className="px-6 py-2 bg-blue-600 text-white font-bold rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                        {t.import.submit(validBookings.length)}
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
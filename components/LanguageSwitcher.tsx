@@ -0,0 +1,20 @@
+import React from 'react';
+import { LOCALES, messages, isLocale } from '../i18n';
+import { useLocale } from '../contexts/LocaleContext';
+
+// Each language is listed under its own name
+export const LanguageSwitcher: React.FC<{ className?: string }> = ({ className }) => {
+    const { t, locale, setLocale } = useLocale();
+    return (
+        <select
+            value={locale}
+            onChange={e => isLocale(e.target.value) && setLocale(e.target.value)}
+            className={className || 'px-2 py-1 border border-gray-300 rounded-md bg-white text-gray-900 text-sm'}
+            aria-label={t.app.language}
+        >
+            {LOCALES.map(option => (
+                <option key={option} value={option}>{messages(option).languageName}</option>
+            ))}
+        </select>
+    );
+};
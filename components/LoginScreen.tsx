@@ -0,0 +1,123 @@
+import React, { useState } from 'react';
+import { useAuth } from '../contexts/AuthContext';
+import { useLocale } from '../contexts/LocaleContext';
+import { LanguageSwitcher } from './LanguageSwitcher';
+
+const inputClasses = "w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900";
+
+// Shown after signing in with the seeded admin's default password
+const ChangePasswordForm: React.FC = () => {
+    const { changePassword, signOut } = useAuth();
+    const { t } = useLocale();
+    const [currentPassword, setCurrentPassword] = useState('');
+    const [newPassword, setNewPassword] = useState('');
+    const [confirmPassword, setConfirmPassword] = useState('');
+    const [error, setError] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (newPassword !== confirmPassword) {
+            setError(t.login.passwordMismatch);
+            return;
+        }
+        setError('');
+        setIsSubmitting(true);
+        try {
+            await changePassword(currentPassword, newPassword);
+        } catch (e: any) {
+            setError(e.message || t.login.failed);
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <div className="min-h-screen bg-slate-100 flex items-center justify-center p-4">
+            <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-lg p-8 w-full max-w-sm space-y-4 text-start">
+                <div className="flex justify-end">
+                    <LanguageSwitcher />
+                </div>
+                <h1 className="text-2xl font-bold text-gray-900 text-center">{t.login.changePasswordTitle}</h1>
+                <p className="text-gray-600 text-center">{t.login.changePasswordSubtitle}</p>
+                {error && (
+                    <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded text-center" role="alert">
+                        {error}
+                    </div>
+                )}
+                <div>
+                    <label htmlFor="current-password" className="block text-sm font-bold text-gray-700 mb-1">{t.login.currentPassword}</label>
+                    <input id="current-password" type="password" dir="ltr" autoComplete="current-password" value={currentPassword} onChange={e => setCurrentPassword(e.target.value)} className={inputClasses} required />
+                </div>
+                <div>
+                    <label htmlFor="new-password" className="block text-sm font-bold text-gray-700 mb-1">{t.login.newPassword}</label>
+                    <input id="new-password" type="password" dir="ltr" autoComplete="new-password" value={newPassword} onChange={e => setNewPassword(e.target.value)} className={inputClasses} required />
+                </div>
+                <div>
+                    <label htmlFor="confirm-password" className="block text-sm font-bold text-gray-700 mb-1">{t.login.confirmPassword}</label>
+                    <input id="confirm-password" type="password" dir="ltr" autoComplete="new-password" value={confirmPassword} onChange={e => setConfirmPassword(e.target.value)} className={inputClasses} required />
+                </div>
+                <button type="submit" disabled={isSubmitting} className="w-full px-6 py-2 bg-blue-600 text-white font-bold rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50">
+                    {isSubmitting ? t.login.changingPassword : t.login.changePassword}
+                </button>
+                <button type="button" onClick={signOut} className="w-full text-blue-700 font-bold hover:underline">
+                    {t.app.signOut}
+                </button>
+            </form>
+        </div>
+    );
+};
+
+export const LoginScreen: React.FC = () => {
+    const { signIn, mustChangePassword, error: sessionError } = useAuth();
+    const { t } = useLocale();
+    const [username, setUsername] = useState('');
+    const [password, setPassword] = useState('');
+    const [error, setError] = useState('');
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setError('');
+        setIsSubmitting(true);
+        try {
+            await signIn(username, password);
+            // Stays mounted behind the password change form
+            setPassword('');
+        } catch (e: any) {
+            setError(e.message || t.login.failed);
+        }
+        setIsSubmitting(false);
+    };
+
+    if (mustChangePassword) {
+        return <ChangePasswordForm />;
+    }
+
+    return (
+        <div className="min-h-screen bg-slate-100 flex items-center justify-center p-4">
+            <form onSubmit={handleSubmit} className="bg-white rounded-lg shadow-lg p-8 w-full max-w-sm space-y-4 text-start">
+                <div className="flex justify-end">
+                    <LanguageSwitcher />
+                </div>
+                <h1 className="text-2xl font-bold text-gray-900 text-center">{t.login.title}</h1>
+                <p className="text-gray-600 text-center">{t.login.subtitle}</p>
+                {(error || sessionError) && (
+                    <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded text-center" role="alert">
+                        {error || sessionError}
+                    </div>
+                )}
+                <div>
+                    <label htmlFor="login-username" className="block text-sm font-bold text-gray-700 mb-1">{t.common.username}</label>
+                    <input id="login-username" type="text" dir="ltr" autoComplete="username" value={username} onChange={e => setUsername(e.target.value)} className={inputClasses} required />
+                </div>
+                <div>
+                    <label htmlFor="login-password" className="block text-sm font-bold text-gray-700 mb-1">{t.login.password}</label>
+                    <input id="login-password" type="password" dir="ltr" autoComplete="current-password" value={password} onChange={e => setPassword(e.target.value)} className={inputClasses} required />
+                </div>
+                <button type="submit" disabled={isSubmitting} className="w-full px-6 py-2 bg-blue-600 text-white font-bold rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50">
+                    {isSubmitting ? t.login.submitting : t.login.submit}
+                </button>
+            </form>
+        </div>
+    );
+};
@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { Blackout, Booking, Hall } from '../types';
+import { formatDateDisplay, formatToYYYYMMDD, parseYYYYMMDD } from '../utils/dateUtils';
+import { getHallSchedule, getHallTimeSlots } from '../utils/timeSlots';
+import { findBlackout } from '../utils/bookingRules';
+import { ScheduleTable } from './ScheduleTable';
+import { useLocale } from '../contexts/LocaleContext';
+
+type PrintLayout = 'month' | 'doorSign';
+type PaperSize = 'A4' | 'A3';
+
+interface PrintViewProps {
+    halls: Hall[];
+    defaultHallId: string;
+    days: Date[];
+    bookings: Booking[];
+    blackouts: Blackout[];
+    periodLabel: string;
+    defaultDate: Date;
+    onClose: () => void;
+}
+
+// Shrinks the on-screen schedule to the page width (no fixed column widths or
+// cell heights) and keeps backgrounds so the weekend shading prints.
+const pageStyles = (layout: PrintLayout, paper: PaperSize) => `
+    @page { size: ${paper} ${layout === 'month' ? 'landscape' : 'portrait'}; margin: 8mm; }
+    .print-sheet { -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+    .print-sheet table { width: 100%; font-size: ${paper === 'A3' ? '11px' : '8px'}; }
+    .print-sheet th, .print-sheet td { height: auto !important; padding: 2px !important; width: auto !important; }
+    .print-sheet thead { position: static !important; }
+`;
+
+const noop = () => {};
+
+const PrintHeader: React.FC<{ title: string; subtitle: string }> = ({ title, subtitle }) => {
+    const { t } = useLocale();
+    return (
+        <div className="flex justify-between items-end border-b-4 border-slate-900 pb-2 mb-4">
+            <div>
+                <p className="text-lg font-bold text-slate-900">{t.common.company}</p>
+                <p className="text-xs text-gray-600">SAHER FOR SMART SERVICES</p>
+            </div>
+            <div className="text-end">
+                <h1 className="text-xl font-bold text-slate-900">{title}</h1>
+                <p className="text-sm text-gray-700">{subtitle}</p>
+            </div>
+        </div>
+    );
+};
+
+export const PrintView: React.FC<PrintViewProps> = ({ halls, defaultHallId, days, bookings, blackouts, periodLabel, defaultDate, onClose }) => {
+    const { t, hallName } = useLocale();
+    const [layout, setLayout] = useState<PrintLayout>('month');
+    const [paper, setPaper] = useState<PaperSize>('A4');
+    const [hallId, setHallId] = useState(defaultHallId);
+    const [date, setDate] = useState(formatToYYYYMMDD(defaultDate));
+
+    const hall = halls.find(h => h.id === hallId);
+    const name = hall ? hallName(hall) : '';
+    const schedule = getHallSchedule(hall);
+    const hallBookings = bookings.filter(b => b.hallId === hallId);
+    const dayBookings = hallBookings
+        .filter(b => b.date === date)
+        .sort((a, b) => a.time.localeCompare(b.time));
+    const signDate = parseYYYYMMDD(date);
+    const signBlackout = findBlackout(blackouts, hallId, date);
+
+    const controlClasses = "bg-white border border-gray-300 text-gray-900 text-sm rounded-lg p-2";
+
+    return (
+        <div className="min-h-screen bg-gray-100 print:bg-white">
+            <style>{pageStyles(layout, paper)}</style>
+
+            <div className="print:hidden sticky top-0 z-10 bg-white shadow-md p-4 flex flex-wrap items-center gap-4">
+                <select value={layout} onChange={e => setLayout(e.target.value as PrintLayout)} className={controlClasses} aria-label={t.print.layout}>
+                    <option value="month">{t.print.monthLayout}</option>
+                    <option value="doorSign">{t.print.doorSignLayout}</option>
+                </select>
+                <select value={hallId} onChange={e => setHallId(e.target.value)} className={controlClasses} aria-label={t.common.hall}>
+                    {halls.map(h => (
+                        <option key={h.id} value={h.id}>{hallName(h)}</option>
+                    ))}
+                </select>
+                {layout === 'doorSign' && (
+                    <input type="date" value={date} onChange={e => e.target.value && setDate(e.target.value)} className={controlClasses} aria-label={t.print.day} />
+                )}
+                <select value={paper} onChange={e => setPaper(e.target.value as PaperSize)} className={controlClasses} aria-label={t.print.paper}>
+                    <option value="A4">A4</option>
+                    <option value="A3">A3</option>
+                </select>
+                <button
+                    onClick={() => window.print()}
+                    className="px-4 py-2 bg-blue-950 text-white font-bold rounded-md hover:bg-blue-800 transition-colors"
+                >
+                    {t.print.print}
+                </button>
+                <button
+                    onClick={onClose}
+                    className="px-4 py-2 bg-gray-200 text-gray-800 font-bold rounded-md hover:bg-gray-300 transition-colors"
+                >
+                    {t.print.back}
+                </button>
+            </div>
+
+            <div className="print-sheet bg-white m-4 p-6 shadow-lg print:m-0 print:p-0 print:shadow-none">
+                {layout === 'month' ? (
+                    <>
+                        <PrintHeader title={t.print.scheduleTitle(name)} subtitle={periodLabel} />
+                        <ScheduleTable
+                            days={days}
+                            timeSlots={getHallTimeSlots(schedule)}
+                            bookings={hallBookings}
+                            hallId={hallId}
+                            schedule={schedule}
+                            blackouts={blackouts}
+                            onCellClick={noop}
+                            onBookingClick={noop}
+                        />
+                    </>
+                ) : (
+                    <>
+                        <PrintHeader title={name} subtitle={`${t.calendar.weekdays[signDate.getDay()]} ${formatDateDisplay(signDate)}`} />
+                        {signBlackout && (
+                            <p className="py-8 text-center text-3xl font-bold text-rose-800">{t.print.hallClosed(signBlackout.reason)}</p>
+                        )}
+                        {dayBookings.length === 0 ? (
+                            !signBlackout && <p className="py-16 text-center text-3xl font-bold text-gray-500">{t.print.noBookings}</p>
+                        ) : (
+                            <ul className="divide-y-2 divide-gray-300">
+                                {dayBookings.map(booking => (
+                                    <li key={booking.id} className="flex gap-8 py-6">
+                                        <span className="text-3xl font-bold font-mono text-slate-900 whitespace-nowrap">
+                                            {booking.time} - {booking.endTime}
+                                        </span>
+                                        <div>
+                                            <p className="text-3xl font-bold text-slate-900">{booking.department}</p>
+                                            {booking.notes && <p className="mt-1 text-xl text-gray-700">{booking.notes}</p>}
+                                            {booking.status === 'pending' && <p className="mt-1 text-lg text-amber-700">{t.bookingStatus.pending}</p>}
+                                        </div>
+                                    </li>
+                                ))}
+                            </ul>
+                        )}
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
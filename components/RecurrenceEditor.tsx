@@ -0,0 +1,165 @@
+import React from 'react';
+import { RecurrenceFrequency, RecurrenceRule } from '../types';
+import { parseYYYYMMDD } from '../utils/dateUtils';
+import { getWeekOfMonth, isLastWeekdayOfMonth, describeRecurrence } from '../utils/recurrence';
+import { orderedWeekdays } from '../utils/workWeek';
+import { useSettings } from '../contexts/SettingsContext';
+import { useLocale } from '../contexts/LocaleContext';
+
+interface RecurrenceEditorProps {
+    value?: RecurrenceRule;
+    onChange: (rule?: RecurrenceRule) => void;
+    startDate: string;
+    disabled?: boolean;
+}
+
+const frequencyOptions: (RecurrenceFrequency | 'none')[] = ['none', 'daily', 'weekly', 'monthly'];
+
+const fieldClasses = "px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900 disabled:bg-gray-100";
+
+export const RecurrenceEditor: React.FC<RecurrenceEditorProps> = ({ value, onChange, startDate, disabled }) => {
+    const { settings } = useSettings();
+    const { t } = useLocale();
+    const start = parseYYYYMMDD(startDate);
+
+    const handleFrequencyChange = (frequency: RecurrenceFrequency | 'none') => {
+        if (frequency === 'none') {
+            onChange(undefined);
+            return;
+        }
+        onChange({
+            frequency,
+            interval: value?.interval || 1,
+            weekdays: frequency === 'weekly' ? [start.getDay()] : undefined,
+            monthlyWeek: frequency === 'monthly' ? getWeekOfMonth(start) : undefined,
+            until: value?.until,
+            count: value?.until ? undefined : (value?.count || 4),
+            exceptions: value?.exceptions,
+        });
+    };
+
+    const update = (changes: Partial<RecurrenceRule>) => {
+        if (value) {
+            onChange({ ...value, ...changes });
+        }
+    };
+
+    const toggleWeekday = (weekday: number) => {
+        const weekdays = value?.weekdays || [];
+        update({
+            weekdays: weekdays.includes(weekday)
+                ? weekdays.filter(d => d !== weekday)
+                : [...weekdays, weekday].sort(),
+        });
+    };
+
+    return (
+        <div className="space-y-3">
+            <div className="flex items-center gap-3">
+                <label htmlFor="recurrence-frequency" className="text-sm font-bold text-gray-700">{t.recurrence.label}</label>
+                <select
+                    id="recurrence-frequency"
+                    value={value?.frequency || 'none'}
+                    onChange={e => handleFrequencyChange(e.target.value as RecurrenceFrequency | 'none')}
+                    disabled={disabled}
+                    className={fieldClasses}
+                >
+                    {frequencyOptions.map(option => (
+                        <option key={option} value={option}>{t.recurrence.frequencies[option]}</option>
+                    ))}
+                </select>
+                {value && (
+                    <>
+                        <label htmlFor="recurrence-interval" className="text-sm text-gray-700">{t.recurrence.every}</label>
+                        <input
+                            id="recurrence-interval"
+                            type="number"
+                            min={1}
+                            value={value.interval}
+                            onChange={e => update({ interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                            disabled={disabled}
+                            className={`${fieldClasses} w-20`}
+                        />
+                    </>
+                )}
+            </div>
+
+            {value?.frequency === 'weekly' && (
+                <div className="flex flex-wrap gap-2">
+                    {orderedWeekdays(settings.firstDayOfWeek).map(weekday => (
+                        <label key={weekday} className="flex items-center gap-1 text-sm text-gray-700">
+                            <input
+                                type="checkbox"
+                                checked={value.weekdays?.includes(weekday) || false}
+                                onChange={() => toggleWeekday(weekday)}
+                                disabled={disabled}
+                            />
+                            {t.calendar.weekdays[weekday]}
+                        </label>
+                    ))}
+                </div>
+            )}
+
+            {value?.frequency === 'monthly' && isLastWeekdayOfMonth(start) && (
+                <label className="flex items-center gap-2 text-sm text-gray-700">
+                    <input
+                        type="checkbox"
+                        checked={value.monthlyWeek === -1}
+                        onChange={e => update({ monthlyWeek: e.target.checked ? -1 : getWeekOfMonth(start) })}
+                        disabled={disabled}
+                    />
+                    {t.recurrence.lastWeekdayOfMonth(t.calendar.weekdays[start.getDay()])}
+                </label>
+            )}
+
+            {value && (
+                <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700">
+                    <label className="flex items-center gap-1">
+                        <input
+                            type="radio"
+                            name="recurrence-end"
+                            checked={!!value.until}
+                            onChange={() => update({ until: startDate, count: undefined })}
+                            disabled={disabled}
+                        />
+                        {t.recurrence.until}
+                    </label>
+                    {value.until && (
+                        <input
+                            type="date"
+                            value={value.until}
+                            min={startDate}
+                            onChange={e => update({ until: e.target.value })}
+                            disabled={disabled}
+                            className={fieldClasses}
+                        />
+                    )}
+                    <label className="flex items-center gap-1">
+                        <input
+                            type="radio"
+                            name="recurrence-end"
+                            checked={!value.until}
+                            onChange={() => update({ until: undefined, count: value.count || 4 })}
+                            disabled={disabled}
+                        />
+                        {t.recurrence.count}
+                    </label>
+                    {!value.until && (
+                        <input
+                            type="number"
+                            min={1}
+                            value={value.count || ''}
+                            onChange={e => update({ count: parseInt(e.target.value, 10) || undefined })}
+                            disabled={disabled}
+                            className={`${fieldClasses} w-20`}
+                        />
+                    )}
+                </div>
+            )}
+
+            {value && (
+                <p className="text-sm text-blue-800">{describeRecurrence(value, startDate)}</p>
+            )}
+        </div>
+    );
+};
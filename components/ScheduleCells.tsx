@@ -0,0 +1,237 @@
+import React from 'react';
+import { Booking } from '../types';
+import { formatToYYYYMMDD } from '../utils/dateUtils';
+import { GridSegment } from '../utils/timeSlots';
+import { useLocale } from '../contexts/LocaleContext';
+import { GridSlot, getCreateRange, useScheduleDrag } from './ScheduleDrag';
+
+// Cells shared by the month, week and day schedule views
+
+const bookingColors = [
+    { bg: 'bg-blue-200', hover: 'hover:bg-blue-300', text: 'text-blue-800' },
+    { bg: 'bg-teal-200', hover: 'hover:bg-teal-300', text: 'text-teal-800' },
+    { bg: 'bg-green-200', hover: 'hover:bg-green-300', text: 'text-green-800' },
+    { bg: 'bg-indigo-200', hover: 'hover:bg-indigo-300', text: 'text-indigo-800' },
+    { bg: 'bg-purple-200', hover: 'hover:bg-purple-300', text: 'text-purple-800' },
+    { bg: 'bg-pink-200', hover: 'hover:bg-pink-300', text: 'text-pink-800' },
+    { bg: 'bg-sky-200', hover: 'hover:bg-sky-300', text: 'text-sky-800' },
+    { bg: 'bg-cyan-200', hover: 'hover:bg-cyan-300', text: 'text-cyan-800' },
+    { bg: 'bg-emerald-200', hover: 'hover:bg-emerald-300', text: 'text-emerald-800' },
+    { bg: 'bg-rose-200', hover: 'hover:bg-rose-300', text: 'text-rose-800' },
+];
+
+type BookingColor = typeof bookingColors[0];
+
+// Pending requests hold their slot but are drawn apart from confirmed bookings
+const pendingColor: BookingColor = { bg: 'bg-amber-50', hover: 'hover:bg-amber-100', text: 'text-amber-800' };
+
+export const useBookingColors = () => {
+    const bookingColorMap = React.useRef(new Map<string, BookingColor>());
+    const lastColorIndex = React.useRef(-1);
+
+    return (bookingId: string): BookingColor => {
+        if (!bookingColorMap.current.has(bookingId)) {
+            lastColorIndex.current = (lastColorIndex.current + 1) % bookingColors.length;
+            bookingColorMap.current.set(bookingId, bookingColors[lastColorIndex.current]);
+        }
+        return bookingColorMap.current.get(bookingId)!;
+    };
+};
+
+interface SpanProps {
+    colSpan?: number;
+    rowSpan?: number;
+}
+
+interface DragHandlers {
+    onMouseDown?: (e: React.MouseEvent) => void;
+    onMouseEnter?: (e: React.MouseEvent) => void;
+}
+
+export const EmptyCell: React.FC<SpanProps & DragHandlers & { date: Date; time: string; isSelected?: boolean; onClick: () => void }> = ({ date, time, isSelected, onClick, onMouseDown, onMouseEnter, colSpan, rowSpan }) => {
+    const formattedDate = formatToYYYYMMDD(date);
+    return (
+        <td
+            colSpan={colSpan}
+            rowSpan={rowSpan}
+            className={`relative group border border-gray-200 h-12 hover:bg-blue-100 cursor-pointer transition-colors ${isSelected ? 'bg-blue-200' : ''}`}
+            onClick={onClick}
+            onMouseDown={onMouseDown}
+            onMouseEnter={onMouseEnter}
+        >
+            <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 hidden group-hover:block px-2 py-1 bg-gray-900 text-gray-200 text-xs rounded-md shadow-lg whitespace-nowrap z-10">
+                {`${formattedDate} - ${time}`}
+            </div>
+        </td>
+    );
+};
+
+export const ClosedCell: React.FC<SpanProps & DragHandlers> = ({ colSpan, rowSpan, onMouseEnter }) => (
+    <td colSpan={colSpan} rowSpan={rowSpan} onMouseEnter={onMouseEnter} className="border border-gray-200 h-12 bg-gray-200 bg-opacity-60 cursor-not-allowed" aria-disabled="true"></td>
+);
+
+export const BlockedCell: React.FC<SpanProps & DragHandlers & { reason: string }> = ({ reason, colSpan, rowSpan, onMouseEnter }) => (
+    <td
+        colSpan={colSpan}
+        rowSpan={rowSpan}
+        onMouseEnter={onMouseEnter}
+        title={reason}
+        className="border border-gray-200 h-12 p-1 bg-rose-100 text-rose-800 text-xs font-semibold align-middle cursor-not-allowed"
+        aria-disabled="true"
+    >
+        {reason}
+    </td>
+);
+
+interface BookingCellProps extends SpanProps {
+    booking: Booking;
+    color: BookingColor;
+    vertical?: boolean;
+    isDragging?: boolean;
+    isHighlighted?: boolean; // Picked from the search results; scrolled into view
+    onClick: () => void;
+    // Called with the index of the grid slot under the pointer within this cell
+    onSlotMouseDown?: (slotIndex: number, e: React.MouseEvent) => void;
+    onSlotHover?: (slotIndex: number) => void;
+    onResizeStart?: (e: React.MouseEvent) => void;
+}
+
+export const BookingCell: React.FC<BookingCellProps> = ({ booking, color, vertical, isDragging, isHighlighted, onClick, onSlotMouseDown, onSlotHover, onResizeStart, colSpan, rowSpan }) => {
+    const { t } = useLocale();
+    const cellRef = React.useRef<HTMLTableCellElement>(null);
+
+    React.useEffect(() => {
+        if (isHighlighted) {
+            cellRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center', inline: 'center' });
+        }
+    }, [isHighlighted]);
+    const span = (vertical ? rowSpan : colSpan) || 1;
+    const isPending = booking.status === 'pending';
+    const cellColor = isPending ? pendingColor : color;
+
+    const slotIndexAt = (e: React.MouseEvent<HTMLElement>) => {
+        const rect = e.currentTarget.getBoundingClientRect();
+        let fraction: number;
+        if (vertical) {
+            fraction = (e.clientY - rect.top) / rect.height;
+        } else {
+            const isRtl = getComputedStyle(e.currentTarget).direction === 'rtl';
+            fraction = isRtl ? (rect.right - e.clientX) / rect.width : (e.clientX - rect.left) / rect.width;
+        }
+        return Math.min(span - 1, Math.max(0, Math.floor(fraction * span)));
+    };
+
+    return (
+        <td
+            ref={cellRef}
+            colSpan={colSpan}
+            rowSpan={rowSpan}
+            className={`relative border border-gray-200 p-1 ${cellColor.bg} ${cellColor.hover} cursor-pointer transition-colors text-center align-middle ${isPending ? 'outline-dashed outline-2 -outline-offset-4 outline-amber-500' : ''} ${isHighlighted ? 'ring-4 ring-inset ring-orange-500' : ''} ${isDragging ? 'opacity-50' : ''}`}
+            onClick={onClick}
+            onMouseDown={e => onSlotMouseDown?.(slotIndexAt(e), e)}
+            onMouseMove={e => onSlotHover?.(slotIndexAt(e))}
+        >
+            <div className={`font-semibold ${cellColor.text}`}>
+                {booking.seriesId && <span title={t.schedule.recurring} className="me-1">↻</span>}
+                {booking.department}
+            </div>
+            {isPending && <div className="text-xs text-amber-700">{t.bookingStatus.pending}</div>}
+            {onResizeStart && (
+                <div
+                    title={t.schedule.resizeHint}
+                    onMouseDown={e => {
+                        e.stopPropagation();
+                        onResizeStart(e);
+                    }}
+                    className={vertical
+                        ? 'absolute bottom-0 inset-x-0 h-2 cursor-ns-resize hover:bg-black hover:bg-opacity-10'
+                        : 'absolute inset-y-0 end-0 w-2 cursor-ew-resize hover:bg-black hover:bg-opacity-10'}
+                ></div>
+            )}
+        </td>
+    );
+};
+
+interface SegmentCellProps {
+    segment: GridSegment;
+    gridSlots: string[];
+    hallId: string;
+    date: Date;
+    vertical?: boolean; // Segments run down a column (day view) instead of along a row
+    highlightedBookingId?: string;
+    getColor: (bookingId: string) => BookingColor;
+    onCellClick: (date: Date, time: string) => void;
+    onBookingClick: (bookingId: string) => void;
+}
+
+export const SegmentCell: React.FC<SegmentCellProps> = ({ segment, gridSlots, hallId, date, vertical, highlightedBookingId, getColor, onCellClick, onBookingClick }) => {
+    const dragContext = useScheduleDrag();
+    const drag = dragContext?.drag;
+    const formattedDate = formatToYYYYMMDD(date);
+    const spanProps = vertical ? { rowSpan: segment.span } : { colSpan: segment.span };
+
+    const slotAt = (index: number): GridSlot => ({
+        hallId,
+        date: formattedDate,
+        time: gridSlots[segment.startIndex + index],
+        endTime: gridSlots[segment.startIndex + index + 1],
+    });
+
+    if (segment.type === 'booking') {
+        const { booking } = segment;
+        const isDragging = !!drag && drag.mode !== 'create' && drag.booking.id === booking.id;
+        const movable = dragContext?.canDrag(booking) ? dragContext : null;
+        return (
+            <BookingCell
+                {...spanProps}
+                booking={booking}
+                color={getColor(booking.id)}
+                vertical={vertical}
+                isDragging={isDragging}
+                isHighlighted={booking.id === highlightedBookingId}
+                onClick={() => {
+                    if (!dragContext?.consumeClick()) onBookingClick(booking.id);
+                }}
+                onSlotMouseDown={movable ? ((index, e) => {
+                    if (e.button !== 0) return;
+                    e.preventDefault();
+                    movable.beginMove(booking, slotAt(index));
+                }) : undefined}
+                onSlotHover={dragContext && (index => dragContext.hover(slotAt(index)))}
+                onResizeStart={movable ? (e => {
+                    if (e.button !== 0) return;
+                    e.preventDefault();
+                    movable.beginResize(booking, { ...slotAt(segment.span - 1), endTime: booking.endTime });
+                }) : undefined}
+            />
+        );
+    }
+
+    const slot = { hallId, date: formattedDate, time: segment.time, endTime: segment.endTime };
+    const onMouseEnter = dragContext ? () => dragContext.hover(slot) : undefined;
+
+    if (segment.type === 'empty') {
+        const range = drag?.mode === 'create' ? getCreateRange(drag) : null;
+        const isSelected = !!range && range.hallId === hallId && range.date === formattedDate
+            && segment.time >= range.time && segment.endTime <= range.endTime;
+        return (
+            <EmptyCell
+                {...spanProps}
+                date={date}
+                time={segment.time}
+                isSelected={isSelected}
+                onClick={() => onCellClick(date, segment.time)}
+                onMouseDown={dragContext && (e => {
+                    if (e.button !== 0) return;
+                    e.preventDefault();
+                    dragContext.beginCreate(slot);
+                })}
+                onMouseEnter={onMouseEnter}
+            />
+        );
+    }
+    if (segment.type === 'blocked') {
+        return <BlockedCell {...spanProps} reason={segment.reason} onMouseEnter={onMouseEnter} />;
+    }
+    return <ClosedCell {...spanProps} onMouseEnter={onMouseEnter} />;
+};
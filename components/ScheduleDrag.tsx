@@ -0,0 +1,164 @@
+import React, { createContext, useContext, useEffect, useRef, useState } from 'react';
+import { Booking } from '../types';
+import { formatDateDisplay, parseYYYYMMDD } from '../utils/dateUtils';
+import { minutesToTime, timeToMinutes } from '../utils/timeSlots';
+import { useLocale } from '../contexts/LocaleContext';
+
+// A grid cell (or the part of a booking cell) under the pointer
+export interface GridSlot {
+    hallId: string;
+    date: string;
+    time: string;
+    endTime: string;
+}
+
+export type BookingPlacement = Pick<Booking, 'hallId' | 'date' | 'time' | 'endTime'>;
+
+type DragState =
+    | { mode: 'create'; anchor: GridSlot; current: GridSlot }
+    | { mode: 'move'; booking: Booking; grabOffset: number; target: GridSlot }
+    | { mode: 'resize'; booking: Booking; target: GridSlot };
+
+interface ScheduleDragContextValue {
+    drag: DragState | null;
+    beginCreate: (slot: GridSlot) => void;
+    beginMove: (booking: Booking, slot: GridSlot) => void;
+    beginResize: (booking: Booking, slot: GridSlot) => void;
+    hover: (slot: GridSlot) => void;
+    canDrag: (booking: Booking) => boolean;
+    // True right after a drag ended on the element that started it, so the
+    // trailing click does not also open the booking modal.
+    consumeClick: () => boolean;
+}
+
+const ScheduleDragContext = createContext<ScheduleDragContextValue | null>(null);
+
+export const useScheduleDrag = () => useContext(ScheduleDragContext);
+
+const sameSlot = (a: GridSlot, b: GridSlot) =>
+    a.hallId === b.hallId && a.date === b.date && a.time === b.time;
+
+export const getCreateRange = (drag: Extract<DragState, { mode: 'create' }>): GridSlot | null => {
+    const { anchor, current } = drag;
+    if (anchor.hallId !== current.hallId || anchor.date !== current.date) {
+        return null;
+    }
+    return {
+        ...anchor,
+        time: anchor.time < current.time ? anchor.time : current.time,
+        endTime: anchor.endTime > current.endTime ? anchor.endTime : current.endTime,
+    };
+};
+
+// Where the dragged booking would land; null when the drag changes nothing
+const getPlacement = (drag: DragState): BookingPlacement | null => {
+    if (drag.mode === 'move') {
+        const { booking, grabOffset, target } = drag;
+        const duration = timeToMinutes(booking.endTime) - timeToMinutes(booking.time);
+        const start = Math.max(0, timeToMinutes(target.time) - grabOffset);
+        const placement = {
+            hallId: target.hallId,
+            date: target.date,
+            time: minutesToTime(start),
+            endTime: minutesToTime(start + duration),
+        };
+        const unchanged = placement.hallId === booking.hallId && placement.date === booking.date && placement.time === booking.time;
+        return unchanged ? null : placement;
+    }
+    if (drag.mode === 'resize') {
+        const { booking, target } = drag;
+        if (target.hallId !== booking.hallId || target.date !== booking.date
+            || target.endTime <= booking.time || target.endTime === booking.endTime) {
+            return null;
+        }
+        return { hallId: booking.hallId, date: booking.date, time: booking.time, endTime: target.endTime };
+    }
+    return null;
+};
+
+interface ScheduleDragProviderProps {
+    hallNames: Record<string, string>;
+    onCreateRange: (slot: GridSlot) => void;
+    onPlaceBooking: (booking: Booking, placement: BookingPlacement) => void;
+    // Bookings the current user may not change stay fixed in the grid
+    canDragBooking?: (booking: Booking) => boolean;
+    children: React.ReactNode;
+}
+
+export const ScheduleDragProvider: React.FC<ScheduleDragProviderProps> = ({ hallNames, onCreateRange, onPlaceBooking, canDragBooking, children }) => {
+    const { t } = useLocale();
+    const [drag, setDrag] = useState<DragState | null>(null);
+    const dragRef = useRef<DragState | null>(null);
+    const suppressClick = useRef(false);
+    const handlers = useRef({ onCreateRange, onPlaceBooking });
+    handlers.current = { onCreateRange, onPlaceBooking };
+
+    const update = (next: DragState | null) => {
+        dragRef.current = next;
+        setDrag(next);
+    };
+
+    useEffect(() => {
+        if (!drag) return;
+        const handleMouseUp = () => {
+            const current = dragRef.current;
+            update(null);
+            if (!current) return;
+
+            if (current.mode === 'create') {
+                const range = getCreateRange(current);
+                // A press and release on the same cell is an ordinary click
+                if (range && !sameSlot(current.anchor, current.current)) {
+                    handlers.current.onCreateRange(range);
+                }
+                return;
+            }
+            const placement = getPlacement(current);
+            if (placement) {
+                suppressClick.current = true;
+                setTimeout(() => { suppressClick.current = false; }, 0);
+                handlers.current.onPlaceBooking(current.booking, placement);
+            }
+        };
+        window.addEventListener('mouseup', handleMouseUp);
+        return () => window.removeEventListener('mouseup', handleMouseUp);
+    }, [drag !== null]);
+
+    const value: ScheduleDragContextValue = {
+        drag,
+        beginCreate: slot => update({ mode: 'create', anchor: slot, current: slot }),
+        beginMove: (booking, slot) => update({
+            mode: 'move',
+            booking,
+            grabOffset: timeToMinutes(slot.time) - timeToMinutes(booking.time),
+            target: slot,
+        }),
+        beginResize: (booking, slot) => update({ mode: 'resize', booking, target: slot }),
+        canDrag: booking => !canDragBooking || canDragBooking(booking),
+        hover: slot => {
+            const current = dragRef.current;
+            if (!current) return;
+            if (current.mode === 'create') {
+                if (!sameSlot(current.current, slot)) update({ ...current, current: slot });
+            } else if (!sameSlot(current.target, slot) || current.target.endTime !== slot.endTime) {
+                update({ ...current, target: slot });
+            }
+        },
+        consumeClick: () => suppressClick.current,
+    };
+
+    const placement = drag && getPlacement(drag);
+
+    return (
+        <ScheduleDragContext.Provider value={value}>
+            <div className={drag ? 'select-none' : undefined}>
+                {children}
+            </div>
+            {placement && (
+                <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-40 px-4 py-2 bg-gray-900 text-white text-sm rounded-md shadow-lg">
+                    {`${drag?.mode === 'resize' ? t.schedule.dragResize : t.schedule.dragMove}: ${hallNames[placement.hallId] || ''} - ${formatDateDisplay(parseYYYYMMDD(placement.date))} ${placement.time}-${placement.endTime}`}
+                </div>
+            )}
+        </ScheduleDragContext.Provider>
+    );
+};
@@ -1,70 +1,30 @@
 
 import React from 'react';
-import { Booking } from '../types';
-import { formatDateDisplay, formatToYYYYMMDD } from '../utils/dateUtils';
+import { Blackout, Booking, HallSchedule } from '../types';
+import { formatDateDisplay, formatHijriDisplay, formatToYYYYMMDD } from '../utils/dateUtils';
+import { blockGridSegments, getDayTimeSlots, layoutGridSegments } from '../utils/timeSlots';
+import { findBlackout } from '../utils/bookingRules';
+import { isWeekend } from '../utils/workWeek';
+import { useSettings } from '../contexts/SettingsContext';
+import { useLocale } from '../contexts/LocaleContext';
+import { SegmentCell, useBookingColors } from './ScheduleCells';
 
 interface ScheduleTableProps {
     days: Date[];
     timeSlots: string[];
     bookings: Booking[];
+    hallId: string;
+    schedule: HallSchedule;
+    blackouts?: Blackout[];
+    highlightedBookingId?: string;
     onCellClick: (date: Date, time: string) => void;
     onBookingClick: (bookingId: string) => void;
 }
 
-const EmptyCell: React.FC<{ date: Date; time: string; onClick: () => void }> = ({ date, time, onClick }) => {
-    const formattedDate = formatToYYYYMMDD(date);
-    return (
-        <td
-            className="relative group border border-gray-200 h-12 hover:bg-blue-100 cursor-pointer transition-colors"
-            onClick={onClick}
-        >
-            <div className="absolute bottom-full left-1/2 -translate-x-1/2 mb-2 hidden group-hover:block px-2 py-1 bg-gray-900 text-gray-200 text-xs rounded-md shadow-lg whitespace-nowrap z-10">
-                {`${formattedDate} - ${time}`}
-            </div>
-        </td>
-    );
-};
-
-export const ScheduleTable: React.FC<ScheduleTableProps> = ({ days, timeSlots, bookings, onCellClick, onBookingClick }) => {
-    
-    const bookingColors = [
-        { bg: 'bg-blue-200', hover: 'hover:bg-blue-300', text: 'text-blue-800' },
-        { bg: 'bg-teal-200', hover: 'hover:bg-teal-300', text: 'text-teal-800' },
-        { bg: 'bg-green-200', hover: 'hover:bg-green-300', text: 'text-green-800' },
-        { bg: 'bg-indigo-200', hover: 'hover:bg-indigo-300', text: 'text-indigo-800' },
-        { bg: 'bg-purple-200', hover: 'hover:bg-purple-300', text: 'text-purple-800' },
-        { bg: 'bg-pink-200', hover: 'hover:bg-pink-300', text: 'text-pink-800' },
-        { bg: 'bg-sky-200', hover: 'hover:bg-sky-300', text: 'text-sky-800' },
-        { bg: 'bg-cyan-200', hover: 'hover:bg-cyan-300', text: 'text-cyan-800' },
-        { bg: 'bg-emerald-200', hover: 'hover:bg-emerald-300', text: 'text-emerald-800' },
-        { bg: 'bg-rose-200', hover: 'hover:bg-rose-300', text: 'text-rose-800' },
-    ];
-
-    const bookingColorMap = React.useRef(new Map<string, typeof bookingColors[0]>());
-    const lastColorIndex = React.useRef(-1);
-
-    const getBookingColor = (bookingId: string) => {
-        if (!bookingColorMap.current.has(bookingId)) {
-            lastColorIndex.current = (lastColorIndex.current + 1) % bookingColors.length;
-            bookingColorMap.current.set(bookingId, bookingColors[lastColorIndex.current]);
-        }
-        return bookingColorMap.current.get(bookingId)!;
-    };
-    
-    const arabicDayNames: { [key: string]: string } = {
-        'Saturday': 'السبت',
-        'Sunday': 'الاحد',
-        'Monday': 'الاثنين',
-        'Tuesday': 'الثلاثاء',
-        'Wednesday': 'الاربعاء',
-        'Thursday': 'الخميس',
-        'Friday': 'الجمعة',
-    };
-
-    const getArabicDayName = (date: Date) => {
-        const dayName = date.toLocaleDateString('en-US', { weekday: 'long' });
-        return arabicDayNames[dayName] || dayName;
-    };
+export const ScheduleTable: React.FC<ScheduleTableProps> = ({ days, timeSlots, bookings, hallId, schedule, blackouts = [], highlightedBookingId, onCellClick, onBookingClick }) => {
+    const getBookingColor = useBookingColors();
+    const { settings } = useSettings();
+    const { t, locale } = useLocale();
 
     const displayTimeSlots = timeSlots.slice(0, -1);
 
@@ -79,71 +39,58 @@ export const ScheduleTable: React.FC<ScheduleTableProps> = ({ days, timeSlots, b
         <table className="min-w-full border-collapse text-center">
             <thead className="bg-slate-900 text-sm font-bold text-white sticky top-0">
                 <tr>
-                    <th colSpan={3} className="py-2 border border-slate-700"></th>
+                    <th colSpan={settings.showHijriDates ? 4 : 3} className="py-2 border border-slate-700"></th>
                     <th colSpan={displayTimeSlots.length + 1} className="py-2 border border-slate-700">
-                        من / الى
+                        {t.schedule.timeRange}
                     </th>
                 </tr>
                 <tr>
-                    <th className="py-3 px-2 border border-slate-700 w-12">م</th>
-                    <th className="py-3 px-2 border border-slate-700 w-28">اليوم</th>
-                    <th className="py-3 px-2 border border-slate-700 w-32">التاريخ</th>
+                    <th className="py-3 px-2 border border-slate-700 w-12">{t.schedule.index}</th>
+                    <th className="py-3 px-2 border border-slate-700 w-28">{t.common.weekday}</th>
+                    <th className="py-3 px-2 border border-slate-700 w-32">{t.common.date}</th>
+                    {settings.showHijriDates && (
+                        <th className="py-3 px-2 border border-slate-700 w-32">{t.schedule.hijriDate}</th>
+                    )}
                     {displayTimeSlots.map(time => (
                         <th key={time} className="py-3 px-2 border border-slate-700 w-24">{time}</th>
                     ))}
-                    <th className="py-3 px-2 border border-slate-700 w-48">الملاحظات</th>
+                    <th className="py-3 px-2 border border-slate-700 w-48">{t.common.notes}</th>
                 </tr>
             </thead>
             <tbody>
                 {days.map((day, index) => {
-                    const isWeekend = day.getDay() === 0 || day.getDay() === 6; // Sunday or Saturday
-                    const dayHeaderClasses = `border border-gray-200 font-semibold align-middle ${isWeekend ? 'text-amber-900' : 'bg-blue-100 text-blue-900'}`;
-                    const dayHeaderMonoClasses = `border border-gray-200 font-mono align-middle ${isWeekend ? 'text-amber-900' : 'bg-blue-100 text-blue-900'}`;
+                    const weekend = isWeekend(day, settings);
+                    const dayHeaderClasses = `border border-gray-200 font-semibold align-middle ${weekend ? 'text-amber-900' : 'bg-blue-100 text-blue-900'}`;
+                    const dayHeaderMonoClasses = `border border-gray-200 font-mono align-middle ${weekend ? 'text-amber-900' : 'bg-blue-100 text-blue-900'}`;
 
                     const formattedDate = formatToYYYYMMDD(day);
                     const allDayBookings = bookingsByDate[formattedDate] || [];
-                    const notes = allDayBookings.map(b => b.notes).filter(Boolean).join('، ');
+                    const notes = allDayBookings.map(b => b.notes).filter(Boolean).join(t.common.listSeparator);
 
                     return (
-                        <tr key={day.toISOString()} className={`text-sm ${isWeekend ? 'bg-amber-50' : 'bg-white'}`}>
+                        <tr key={day.toISOString()} className={`text-sm ${weekend ? 'bg-amber-50' : 'bg-white'}`}>
                             <td className={dayHeaderClasses}>{index + 1}</td>
-                            <td className={dayHeaderClasses}>{getArabicDayName(day)}</td>
+                            <td className={dayHeaderClasses}>{t.calendar.weekdays[day.getDay()]}</td>
                             <td className={dayHeaderMonoClasses}>{formatDateDisplay(day)}</td>
-                            {(() => {
-                                const cells = [];
-                                for (let i = 0; i < displayTimeSlots.length; ) {
-                                    const time = timeSlots[i];
-                                    const booking = allDayBookings.find(b => b.time === time);
-
-                                    if (booking) {
-                                        const startTimeIndex = i;
-                                        const endTimeIndex = timeSlots.indexOf(booking.endTime);
-                                        const color = getBookingColor(booking.id);
-                                        
-                                        if (endTimeIndex > startTimeIndex) {
-                                            const span = endTimeIndex - startTimeIndex;
-                                            cells.push(
-                                                <td
-                                                    key={booking.id}
-                                                    colSpan={span}
-                                                    className={`border border-gray-200 p-1 ${color.bg} ${color.hover} cursor-pointer transition-colors text-center align-middle`}
-                                                    onClick={() => onBookingClick(booking.id)}
-                                                >
-                                                    <div className={`font-semibold ${color.text}`}>{booking.department}</div>
-                                                </td>
-                                            );
-                                            i += span;
-                                        } else {
-                                            cells.push(<EmptyCell key={time} date={day} time={time} onClick={() => onCellClick(day, time)} />);
-                                            i++;
-                                        }
-                                    } else {
-                                        cells.push(<EmptyCell key={time} date={day} time={time} onClick={() => onCellClick(day, time)} />);
-                                        i++;
-                                    }
-                                }
-                                return cells;
-                            })()}
+                            {settings.showHijriDates && (
+                                <td className={dayHeaderMonoClasses}>{formatHijriDisplay(day, locale)}</td>
+                            )}
+                            {blockGridSegments(
+                                layoutGridSegments(timeSlots, getDayTimeSlots(schedule, day), allDayBookings),
+                                findBlackout(blackouts, hallId, formattedDate)?.reason,
+                            ).map(segment => (
+                                <SegmentCell
+                                    key={segment.startIndex}
+                                    segment={segment}
+                                    gridSlots={timeSlots}
+                                    hallId={hallId}
+                                    date={day}
+                                    highlightedBookingId={highlightedBookingId}
+                                    getColor={getBookingColor}
+                                    onCellClick={onCellClick}
+                                    onBookingClick={onBookingClick}
+                                />
+                            ))}
                             <td className="border border-gray-200 p-1 text-gray-600 align-middle">{notes}</td>
                         </tr>
                     );
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { OrganizationSettings } from '../types';
+import { orderedWeekdays } from '../utils/workWeek';
+import { useLocale } from '../contexts/LocaleContext';
+
+interface SettingsAdminProps {
+    settings: OrganizationSettings;
+    onSave: (settings: OrganizationSettings) => Promise<void>;
+    onClose: () => void;
+}
+
+export const SettingsAdmin: React.FC<SettingsAdminProps> = ({ settings, onSave, onClose }) => {
+    const { t } = useLocale();
+    const [form, setForm] = useState<OrganizationSettings>(settings);
+    const [error, setError] = useState('');
+    const [notice, setNotice] = useState('');
+
+    const toggleWeekend = (weekday: number) => {
+        setForm(prev => ({
+            ...prev,
+            weekendDays: prev.weekendDays.includes(weekday)
+                ? prev.weekendDays.filter(d => d !== weekday)
+                : [...prev.weekendDays, weekday].sort(),
+        }));
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        try {
+            setError('');
+            setNotice('');
+            if (form.weekendDays.length === 7) {
+                throw new Error(t.settings.allWeekend);
+            }
+            await onSave(form);
+            setNotice(t.settings.saved);
+        } catch (e: any) {
+            setError(e.message || t.common.unexpectedError);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-lg shadow-lg p-6">
+            <div className="flex justify-between items-center mb-6">
+                <h2 className="text-2xl font-bold text-gray-900">{t.settings.title}</h2>
+                <button
+                    onClick={onClose}
+                    className="px-4 py-2 bg-gray-200 text-gray-800 font-bold rounded-md hover:bg-gray-300 transition-colors"
+                >
+                    {t.common.backToSchedule}
+                </button>
+            </div>
+
+            {error && (
+                <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded text-center mb-4" role="alert">
+                    {error}
+                </div>
+            )}
+            {notice && (
+                <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded text-center mb-4" role="status">
+                    {notice}
+                </div>
+            )}
+
+            <form onSubmit={handleSubmit} className="space-y-6">
+                <div>
+                    <label htmlFor="first-day" className="block text-sm font-bold text-gray-700 mb-1">{t.settings.firstDayOfWeek}</label>
+                    <select
+                        id="first-day"
+                        value={form.firstDayOfWeek}
+                        onChange={e => setForm(prev => ({ ...prev, firstDayOfWeek: Number(e.target.value) }))}
+                        className="px-3 py-2 border border-gray-300 rounded-md bg-white text-gray-900"
+                    >
+                        {t.calendar.weekdays.map((name, weekday) => (
+                            <option key={weekday} value={weekday}>{name}</option>
+                        ))}
+                    </select>
+                </div>
+
+                <fieldset>
+                    <legend className="block text-sm font-bold text-gray-700 mb-1">{t.settings.weekendDays}</legend>
+                    <div className="flex flex-wrap gap-4">
+                        {orderedWeekdays(form.firstDayOfWeek).map(weekday => (
+                            <label key={weekday} className="flex items-center gap-1 text-gray-700">
+                                <input type="checkbox" checked={form.weekendDays.includes(weekday)} onChange={() => toggleWeekend(weekday)} />
+                                {t.calendar.weekdays[weekday]}
+                            </label>
+                        ))}
+                    </div>
+                </fieldset>
+
+                <label className="flex items-center gap-2 text-gray-700 font-bold">
+                    <input
+                        type="checkbox"
+                        checked={form.closedOnWeekends}
+                        onChange={e => setForm(prev => ({ ...prev, closedOnWeekends: e.target.checked }))}
+                    />
+                    {t.settings.closedOnWeekends}
+                </label>
+                <p className="text-sm text-gray-600 -mt-4">
+                    {t.settings.closedOnWeekendsHint}
+                </p>
+
+                <label className="flex items-center gap-2 text-gray-700 font-bold">
+                    <input
+                        type="checkbox"
+                        checked={form.showHijriDates}
+                        onChange={e => setForm(prev => ({ ...prev, showHijriDates: e.target.checked }))}
+                    />
+                    {t.settings.showHijriDates}
+                </label>
+                <p className="text-sm text-gray-600 -mt-4">
+                    {t.settings.showHijriDatesHint}
+                </p>
+
+                <button type="submit" className="px-6 py-2 bg-blue-600 text-white font-bold rounded-md hover:bg-blue-700 transition-colors">
+                    {t.settings.submit}
+                </button>
+            </form>
+        </div>
+    );
+};
@@ -0,0 +1,33 @@
+import React, { useEffect } from 'react';
+import { useLocale } from '../contexts/LocaleContext';
+
+interface ToastProps {
+    message: string;
+    actionLabel?: string;
+    onAction?: () => void;
+    onDismiss: () => void;
+    duration?: number; // Milliseconds before the toast hides itself
+}
+
+export const Toast: React.FC<ToastProps> = ({ message, actionLabel, onAction, onDismiss, duration = 6000 }) => {
+    const { t } = useLocale();
+
+    useEffect(() => {
+        const timer = setTimeout(onDismiss, duration);
+        return () => clearTimeout(timer);
+    }, [message, duration, onDismiss]);
+
+    return (
+        <div className="fixed bottom-6 inset-x-0 flex justify-center z-50 pointer-events-none" role="status" aria-live="polite">
+            <div className="pointer-events-auto flex items-center gap-4 bg-slate-900 text-white px-5 py-3 rounded-lg shadow-xl">
+                <span>{message}</span>
+                {actionLabel && onAction && (
+                    <button onClick={onAction} className="font-bold text-yellow-300 hover:text-yellow-200">
+                        {actionLabel}
+                    </button>
+                )}
+                <button onClick={onDismiss} className="text-gray-400 hover:text-white" aria-label={t.common.close}>×</button>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,256 @@
+import React, { useMemo, useState } from 'react';
+import { Blackout, Booking, Department, Hall } from '../types';
+import { MAX_RANGE_YEARS, formatDateDisplay, formatToYYYYMMDD, getDaysInRange, isRangeTooLong, parseYYYYMMDD } from '../utils/dateUtils';
+import { UsageTotals, buildUtilizationReport, formatMonthKey, occupancyRate } from '../utils/utilization';
+import { orderedWeekdays } from '../utils/workWeek';
+import { exportUtilizationReport } from '../services/reportExport';
+import { useDebouncedValue } from '../hooks/useDebouncedValue';
+import { useSettings } from '../contexts/SettingsContext';
+import { useLocale } from '../contexts/LocaleContext';
+
+interface UsageReportsProps {
+    bookings: Booking[];
+    halls: Hall[];
+    blackouts: Blackout[];
+    departments: Department[];
+    onClose: () => void;
+}
+
+interface BarRow {
+    key: string;
+    label: string;
+    share: number; // Bar length, 0..1
+    value: string;
+    detail?: string;
+}
+
+const filterClasses = "px-2 py-1 border border-gray-300 rounded-md bg-white text-gray-900 text-sm";
+
+// Horizontal bars; the longest row is emphasised as the peak
+const BarList: React.FC<{ rows: BarRow[] }> = ({ rows }) => {
+    const peak = Math.max(0, ...rows.map(r => r.share));
+    return (
+        <div className="space-y-1">
+            {rows.map(row => (
+                <div key={row.key} className="flex items-center gap-2 text-sm">
+                    <span className="w-32 shrink-0 text-gray-700 truncate" title={row.label}>{row.label}</span>
+                    <div className="flex-1 h-4 bg-gray-100 rounded">
+                        <div
+                            className={`h-4 rounded ${peak > 0 && row.share === peak ? 'bg-blue-700' : 'bg-blue-400'}`}
+                            style={{ width: `${Math.min(100, row.share * 100)}%` }}
+                        />
+                    </div>
+                    <span className="w-20 shrink-0 text-end font-semibold text-gray-800">{row.value}</span>
+                    {row.detail !== undefined && <span className="w-24 shrink-0 text-end text-xs text-gray-500">{row.detail}</span>}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+const Section: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+    <section className="border border-gray-200 rounded-lg p-4">
+        <h3 className="text-lg font-bold text-gray-800 mb-3 text-start">{title}</h3>
+        {children}
+    </section>
+);
+
+// Five months back to the end of the current one, so the trend has something to show
+const defaultRange = () => {
+    const today = new Date();
+    return {
+        from: formatToYYYYMMDD(new Date(today.getFullYear(), today.getMonth() - 5, 1)),
+        to: formatToYYYYMMDD(new Date(today.getFullYear(), today.getMonth() + 1, 0)),
+    };
+};
+
+export const UsageReports: React.FC<UsageReportsProps> = ({ bookings, halls, blackouts, departments, onClose }) => {
+    const { settings } = useSettings();
+    const { t, locale, hallName, departmentName, formatNumber } = useLocale();
+    const [range, setRange] = useState(defaultRange);
+    const [hallIds, setHallIds] = useState<string[]>(() => halls.filter(h => h.active).map(h => h.id));
+
+    // The date inputs pass every keystroke, so the report waits for typing to pause
+    const period = useDebouncedValue(range, 400);
+
+    const selectedHalls = useMemo(() => halls.filter(h => hallIds.includes(h.id)), [halls, hallIds]);
+    const validRange = !!period.from && !!period.to && period.from <= period.to;
+    const tooLong = validRange && isRangeTooLong(parseYYYYMMDD(period.from), parseYYYYMMDD(period.to));
+    const report = useMemo(() => validRange && !tooLong
+        ? buildUtilizationReport(bookings, selectedHalls, blackouts, getDaysInRange(parseYYYYMMDD(period.from), parseYYYYMMDD(period.to)))
+        : null, [bookings, selectedHalls, blackouts, period, validRange, tooLong]);
+
+    const hours = (minutes: number) => t.reports.hours(formatNumber(Math.round(minutes / 6) / 10));
+    const percent = (usage: UsageTotals) => t.reports.percent(formatNumber(Math.round(occupancyRate(usage) * 1000) / 10));
+    const occupancyRow = (key: string, label: string, usage: UsageTotals): BarRow =>
+        ({ key, label, share: occupancyRate(usage), value: percent(usage), detail: hours(usage.bookedMinutes) });
+
+    const toggleHall = (hallId: string) => {
+        setHallIds(prev => prev.includes(hallId) ? prev.filter(id => id !== hallId) : [...prev, hallId]);
+    };
+
+    const handleExport = () => {
+        if (!report) return;
+        exportUtilizationReport(report, {
+            halls,
+            departments,
+            periodLabel: `${formatDateDisplay(parseYYYYMMDD(period.from))} - ${formatDateDisplay(parseYYYYMMDD(period.to))}`,
+            locale,
+        });
+    };
+
+    const topDepartmentMinutes = report?.departments[0]?.bookedMinutes || 0;
+    const peakMonthRate = Math.max(0, ...(report?.months.map(occupancyRate) || []));
+
+    return (
+        <div className="bg-white rounded-lg shadow-lg p-6">
+            <div className="flex justify-between items-center mb-6">
+                <h2 className="text-2xl font-bold text-gray-900">{t.reports.title}</h2>
+                <button
+                    onClick={onClose}
+                    className="px-4 py-2 bg-gray-200 text-gray-800 font-bold rounded-md hover:bg-gray-300 transition-colors"
+                >
+                    {t.common.backToSchedule}
+                </button>
+            </div>
+
+            <div className="flex flex-wrap items-center gap-3 mb-3">
+                <label className="flex items-center gap-1 text-sm text-gray-700">
+                    {t.common.from}
+                    <input type="date" value={range.from} onChange={e => setRange(prev => ({ ...prev, from: e.target.value }))} className={filterClasses} />
+                </label>
+                <label className="flex items-center gap-1 text-sm text-gray-700">
+                    {t.common.to}
+                    <input type="date" value={range.to} onChange={e => setRange(prev => ({ ...prev, to: e.target.value }))} className={filterClasses} />
+                </label>
+                <button
+                    onClick={handleExport}
+                    disabled={!report}
+                    className="ms-auto px-4 py-2 bg-green-600 text-white font-bold rounded-md hover:bg-green-700 transition-colors disabled:bg-gray-400"
+                >
+                    {t.reports.export}
+                </button>
+            </div>
+            <fieldset className="mb-6 text-start">
+                <legend className="text-sm font-bold text-gray-700 mb-1">{t.reports.hallsLegend}</legend>
+                <div className="flex flex-wrap gap-4 text-sm">
+                    {halls.map(hall => (
+                        <label key={hall.id} className={`flex items-center gap-1 ${hall.active ? 'text-gray-700' : 'text-gray-400'}`}>
+                            <input type="checkbox" checked={hallIds.includes(hall.id)} onChange={() => toggleHall(hall.id)} />
+                            {hallName(hall)}
+                        </label>
+                    ))}
+                    <button
+                        type="button"
+                        onClick={() => setHallIds(hallIds.length === halls.length ? [] : halls.map(h => h.id))}
+                        className="text-blue-700 font-bold hover:underline"
+                    >
+                        {hallIds.length === halls.length ? t.reports.deselectAll : t.reports.selectAll}
+                    </button>
+                </div>
+            </fieldset>
+
+            {!report ? (
+                <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded text-center" role="alert">
+                    {tooLong ? t.common.rangeTooLong(MAX_RANGE_YEARS) : t.reports.invalidRange}
+                </div>
+            ) : report.totals.availableMinutes === 0 ? (
+                <p className="text-center text-gray-600 py-8">{t.reports.noData}</p>
+            ) : (
+                <div className="space-y-6">
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                        {[
+                            [t.reports.occupancy, percent(report.totals)],
+                            [t.reports.bookedHours, hours(report.totals.bookedMinutes)],
+                            [t.reports.availableHours, hours(report.totals.availableMinutes)],
+                            [t.reports.bookings, formatNumber(report.totals.bookingCount)],
+                        ].map(([label, value]) => (
+                            <div key={label} className="bg-slate-50 border border-slate-200 rounded-lg p-4 text-center">
+                                <div className="text-sm text-gray-600">{label}</div>
+                                <div className="text-2xl font-bold text-slate-900">{value}</div>
+                            </div>
+                        ))}
+                    </div>
+
+                    <Section title={t.reports.byHall}>
+                        <table className="min-w-full border-collapse text-center text-sm">
+                            <thead className="bg-slate-900 text-white font-bold">
+                                <tr>
+                                    <th className="py-2 px-2 border border-slate-700">{t.common.hall}</th>
+                                    <th className="py-2 px-2 border border-slate-700">{t.reports.bookings}</th>
+                                    <th className="py-2 px-2 border border-slate-700">{t.reports.bookedHours}</th>
+                                    <th className="py-2 px-2 border border-slate-700">{t.reports.availableHours}</th>
+                                    <th className="py-2 px-2 border border-slate-700 w-1/3">{t.reports.occupancy}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {report.halls.map(row => (
+                                    <tr key={row.hallId}>
+                                        <td className="py-2 px-2 border border-gray-200 font-semibold">{hallName(selectedHalls.find(h => h.id === row.hallId)!)}</td>
+                                        <td className="py-2 px-2 border border-gray-200">{formatNumber(row.bookingCount)}</td>
+                                        <td className="py-2 px-2 border border-gray-200">{hours(row.bookedMinutes)}</td>
+                                        <td className="py-2 px-2 border border-gray-200">{hours(row.availableMinutes)}</td>
+                                        <td className="py-2 px-2 border border-gray-200">
+                                            <div className="flex items-center gap-2">
+                                                <div className="flex-1 h-4 bg-gray-100 rounded">
+                                                    <div className="h-4 rounded bg-blue-500" style={{ width: `${Math.min(100, occupancyRate(row) * 100)}%` }} />
+                                                </div>
+                                                <span className="w-16 text-end font-semibold">{percent(row)}</span>
+                                            </div>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </Section>
+
+                    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                        <Section title={t.reports.peakHours}>
+                            <BarList rows={report.slots.map(row => occupancyRow(row.time, row.time, row))} />
+                        </Section>
+                        <Section title={t.reports.peakWeekdays}>
+                            <BarList rows={orderedWeekdays(settings.firstDayOfWeek).map(weekday =>
+                                occupancyRow(String(weekday), t.calendar.weekdays[weekday], report.weekdays[weekday]))} />
+                        </Section>
+                    </div>
+
+                    <Section title={t.reports.topDepartments}>
+                        {report.departments.length === 0 ? (
+                            <p className="text-sm text-gray-600 text-start">{t.reports.noBookings}</p>
+                        ) : (
+                            <BarList rows={report.departments.slice(0, 10).map(row => {
+                                const department = departments.find(d => d.id === row.departmentId);
+                                return {
+                                    key: row.departmentId || row.department,
+                                    label: department ? departmentName(department) : row.department,
+                                    share: topDepartmentMinutes ? row.bookedMinutes / topDepartmentMinutes : 0,
+                                    value: hours(row.bookedMinutes),
+                                    detail: t.reports.bookingCount(row.bookingCount),
+                                };
+                            })} />
+                        )}
+                    </Section>
+
+                    <Section title={t.reports.monthlyTrend}>
+                        <div className="flex items-end gap-3 h-48 overflow-x-auto pb-1">
+                            {report.months.map(row => {
+                                const rate = occupancyRate(row);
+                                return (
+                                    <div key={row.month} className="flex flex-col items-center justify-end h-full min-w-[4rem] flex-1 text-xs">
+                                        <span className="font-semibold text-gray-800">{percent(row)}</span>
+                                        <div
+                                            className={`w-full rounded-t ${peakMonthRate > 0 && rate === peakMonthRate ? 'bg-blue-700' : 'bg-blue-400'}`}
+                                            style={{ height: `${Math.min(100, rate * 100)}%` }}
+                                            title={`${hours(row.bookedMinutes)} / ${hours(row.availableMinutes)}`}
+                                        />
+                                        <span className="mt-1 text-gray-600 whitespace-nowrap">{formatMonthKey(row.month, locale)}</span>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </Section>
+                </div>
+            )}
+        </div>
+    );
+};
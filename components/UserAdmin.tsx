@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import { User, UserRole } from '../types';
+import { UserInput } from '../services/authProvider';
+import { useLocale } from '../contexts/LocaleContext';
+
+interface UserAdminProps {
+    users: User[];
+    currentUserId: string;
+    onSave: (user: UserInput, password?: string, userId?: string) => Promise<void>;
+    onClose: () => void;
+}
+
+interface UserForm {
+    username: string;
+    displayName: string;
+    role: UserRole;
+    active: boolean;
+    password: string;
+}
+
+const emptyForm: UserForm = {
+    username: '',
+    displayName: '',
+    role: 'requester',
+    active: true,
+    password: '',
+};
+
+const inputClasses = "w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-2 focus:ring-blue-500 bg-white text-gray-900 placeholder-gray-400";
+
+export const UserAdmin: React.FC<UserAdminProps> = ({ users, currentUserId, onSave, onClose }) => {
+    const { t } = useLocale();
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [form, setForm] = useState<UserForm>(emptyForm);
+    const [error, setError] = useState('');
+
+    const updateField = <K extends keyof UserForm>(field: K, value: UserForm[K]) => {
+        setForm(prev => ({ ...prev, [field]: value }));
+    };
+
+    const startEdit = (user: User) => {
+        setEditingId(user.id);
+        setForm({ username: user.username, displayName: user.displayName, role: user.role, active: user.active, password: '' });
+        setError('');
+    };
+
+    const resetForm = () => {
+        setEditingId(null);
+        setForm(emptyForm);
+        setError('');
+    };
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        try {
+            setError('');
+            if (!form.username.trim() || !form.displayName.trim()) {
+                throw new Error(t.users.nameRequired);
+            }
+            // Admins cannot lock themselves out
+            if (editingId === currentUserId && (form.role !== 'admin' || !form.active)) {
+                throw new Error(t.users.cannotDemoteSelf);
+            }
+            await onSave({
+                username: form.username,
+                displayName: form.displayName.trim(),
+                role: form.role,
+                active: form.active,
+            }, form.password || undefined, editingId || undefined);
+            resetForm();
+        } catch (e: any) {
+            setError(e.message || t.common.unexpectedError);
+        }
+    };
+
+    return (
+        <div className="bg-white rounded-lg shadow-lg p-6">
+            <div className="flex justify-between items-center mb-6">
+                <h2 className="text-2xl font-bold text-gray-900">{t.users.title}</h2>
+                <button
+                    onClick={onClose}
+                    className="px-4 py-2 bg-gray-200 text-gray-800 font-bold rounded-md hover:bg-gray-300 transition-colors"
+                >
+                    {t.common.backToSchedule}
+                </button>
+            </div>
+
+            {error && (
+                <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded text-center mb-4" role="alert">
+                    {error}
+                </div>
+            )}
+
+            <div className="overflow-x-auto mb-8">
+                <table className="min-w-full border-collapse text-center text-sm">
+                    <thead className="bg-slate-900 text-white font-bold">
+                        <tr>
+                            <th className="py-2 px-2 border border-slate-700">{t.common.name}</th>
+                            <th className="py-2 px-2 border border-slate-700">{t.common.username}</th>
+                            <th className="py-2 px-2 border border-slate-700">{t.users.role}</th>
+                            <th className="py-2 px-2 border border-slate-700">{t.common.status}</th>
+                            <th className="py-2 px-2 border border-slate-700"></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {users.map(user => (
+                            <tr key={user.id} className={user.active ? 'bg-white' : 'bg-gray-100 text-gray-500'}>
+                                <td className="py-2 px-2 border border-gray-200 font-semibold">{user.displayName}</td>
+                                <td className="py-2 px-2 border border-gray-200" dir="ltr">{user.username}</td>
+                                <td className="py-2 px-2 border border-gray-200">{t.roles[user.role]}</td>
+                                <td className="py-2 px-2 border border-gray-200">{user.active ? t.users.active : t.users.inactive}</td>
+                                <td className="py-2 px-2 border border-gray-200">
+                                    <button onClick={() => startEdit(user)} className="text-blue-700 font-bold hover:underline">
+                                        {t.common.edit}
+                                    </button>
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4 text-start max-w-2xl">
+                <h3 className="text-lg font-bold text-gray-800">{editingId ? t.users.editTitle : t.users.addTitle}</h3>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <label htmlFor="user-display-name" className="block text-sm font-bold text-gray-700 mb-1">{t.users.displayName}</label>
+                        <input id="user-display-name" type="text" value={form.displayName} onChange={e => updateField('displayName', e.target.value)} className={inputClasses} />
+                    </div>
+                    <div>
+                        <label htmlFor="user-username" className="block text-sm font-bold text-gray-700 mb-1">{t.common.username}</label>
+                        <input id="user-username" type="text" dir="ltr" autoComplete="off" value={form.username} onChange={e => updateField('username', e.target.value)} className={inputClasses} />
+                    </div>
+                    <div>
+                        <label htmlFor="user-role" className="block text-sm font-bold text-gray-700 mb-1">{t.users.role}</label>
+                        <select id="user-role" value={form.role} onChange={e => updateField('role', e.target.value as UserRole)} className={inputClasses}>
+                            {(Object.keys(t.roles) as UserRole[]).map(role => (
+                                <option key={role} value={role}>{t.roles[role]}</option>
+                            ))}
+                        </select>
+                    </div>
+                    <div>
+                        <label htmlFor="user-password" className="block text-sm font-bold text-gray-700 mb-1">
+                            {editingId ? t.users.newPassword : t.users.password}
+                        </label>
+                        <input id="user-password" type="password" dir="ltr" autoComplete="new-password" value={form.password} onChange={e => updateField('password', e.target.value)} className={inputClasses} />
+                    </div>
+                </div>
+                <label className="flex items-center gap-2 text-gray-700 font-bold">
+                    <input type="checkbox" checked={form.active} onChange={e => updateField('active', e.target.checked)} />
+                    {t.users.activeAccount}
+                </label>
+                <div className="flex gap-4">
+                    <button type="submit" className="px-6 py-2 bg-blue-600 text-white font-bold rounded-md hover:bg-blue-700 transition-colors">
+                        {editingId ? t.common.saveChanges : t.users.addSubmit}
+                    </button>
+                    {editingId && (
+                        <button type="button" onClick={resetForm} className="px-6 py-2 bg-gray-200 text-gray-800 font-bold rounded-md hover:bg-gray-300 transition-colors">
+                            {t.common.cancel}
+                        </button>
+                    )}
+                </div>
+            </form>
+        </div>
+    );
+};
@@ -0,0 +1,82 @@
+import React from 'react';
+import { Blackout, Booking, Hall } from '../types';
+import { formatDateDisplay, formatToYYYYMMDD } from '../utils/dateUtils';
+import { blockGridSegments, getDayTimeSlots, getHallSchedule, getHallTimeSlots, layoutGridSegments, mergeTimeSlots } from '../utils/timeSlots';
+import { findBlackout } from '../utils/bookingRules';
+import { isWeekend } from '../utils/workWeek';
+import { useSettings } from '../contexts/SettingsContext';
+import { useLocale } from '../contexts/LocaleContext';
+import { SegmentCell, useBookingColors } from './ScheduleCells';
+
+interface WeekViewProps {
+    days: Date[];
+    halls: Hall[];
+    bookings: Booking[];
+    blackouts?: Blackout[];
+    onCellClick: (date: Date, time: string, hallId: string) => void;
+    onBookingClick: (bookingId: string) => void;
+}
+
+// Seven days with one row per hall, on a time grid shared by every hall
+export const WeekView: React.FC<WeekViewProps> = ({ days, halls, bookings, blackouts = [], onCellClick, onBookingClick }) => {
+    const getBookingColor = useBookingColors();
+    const { settings } = useSettings();
+    const { t, hallName } = useLocale();
+    const timeSlots = mergeTimeSlots(...halls.map(hall => getHallTimeSlots(getHallSchedule(hall))));
+    const displayTimeSlots = timeSlots.slice(0, -1);
+
+    return (
+        <table className="min-w-full border-collapse text-center">
+            <thead className="bg-slate-900 text-sm font-bold text-white sticky top-0">
+                <tr>
+                    <th className="py-3 px-2 border border-slate-700 w-28">{t.common.weekday}</th>
+                    <th className="py-3 px-2 border border-slate-700 w-32">{t.common.date}</th>
+                    <th className="py-3 px-2 border border-slate-700 w-32">{t.common.hall}</th>
+                    {displayTimeSlots.map(time => (
+                        <th key={time} className="py-3 px-2 border border-slate-700 w-24">{time}</th>
+                    ))}
+                </tr>
+            </thead>
+            <tbody>
+                {days.map(day => {
+                    const formattedDate = formatToYYYYMMDD(day);
+                    const dayClasses = isWeekend(day, settings) ? 'bg-amber-50 text-amber-900' : 'bg-blue-100 text-blue-900';
+                    return halls.map((hall, hallIndex) => (
+                        <tr key={`${formattedDate}-${hall.id}`} className={`text-sm bg-white ${hallIndex === 0 ? 'border-t-2 border-slate-400' : ''}`}>
+                            {hallIndex === 0 && (
+                                <>
+                                    <td rowSpan={halls.length} className={`border border-gray-200 font-semibold align-middle ${dayClasses}`}>
+                                        {t.calendar.weekdays[day.getDay()]}
+                                    </td>
+                                    <td rowSpan={halls.length} className={`border border-gray-200 font-mono align-middle ${dayClasses}`}>
+                                        {formatDateDisplay(day)}
+                                    </td>
+                                </>
+                            )}
+                            <td className="border border-gray-200 font-semibold align-middle text-gray-700">{hallName(hall)}</td>
+                            {blockGridSegments(
+                                layoutGridSegments(
+                                    timeSlots,
+                                    getDayTimeSlots(getHallSchedule(hall), day),
+                                    bookings.filter(b => b.hallId === hall.id && b.date === formattedDate),
+                                ),
+                                findBlackout(blackouts, hall.id, formattedDate)?.reason,
+                            ).map(segment => (
+                                <SegmentCell
+                                    key={segment.startIndex}
+                                    segment={segment}
+                                    gridSlots={timeSlots}
+                                    hallId={hall.id}
+                                    date={day}
+                                    getColor={getBookingColor}
+                                    onCellClick={(d, t) => onCellClick(d, t, hall.id)}
+                                    onBookingClick={onBookingClick}
+                                />
+                            ))}
+                        </tr>
+                    ));
+                })}
+            </tbody>
+        </table>
+    );
+};
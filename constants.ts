@@ -0,0 +1,78 @@
+import { AuditAction, BookingService, BookingStatus, Department, Hall, HallSchedule, OrganizationSettings, SeatingLayout, SlotMinutes, StoredUser, UserRole } from './types';
+
+export const SLOT_MINUTES_OPTIONS: SlotMinutes[] = [15, 30, 60];
+
+// Labels live in the i18n catalogues (bookingStatus, auditActions)
+export const BOOKING_STATUSES: BookingStatus[] = ['pending', 'approved', 'rejected', 'cancelled'];
+
+export const AUDIT_ACTIONS: AuditAction[] = ['create', 'update', 'delete', 'approve', 'reject', 'cancel', 'restore'];
+
+// Labels live in the i18n catalogue (roles)
+export const USER_ROLES: UserRole[] = ['requester', 'approver', 'admin'];
+
+// Labels live in the i18n catalogues (services, seatingLayouts)
+export const BOOKING_SERVICES: BookingService[] = ['projector', 'videoConference', 'catering'];
+
+export const SEATING_LAYOUTS: SeatingLayout[] = ['theatre', 'classroom', 'boardroom', 'uShape'];
+
+// Matches the grid the schedule had before halls got their own hours (07:30
+// to 18:00), so bookings made then keep fitting
+export const DEFAULT_HALL_SCHEDULE: HallSchedule = {
+    openTime: '07:30',
+    closeTime: '18:00',
+    slotMinutes: 30,
+    weekdayOverrides: {},
+};
+
+export const DEFAULT_SETTINGS: OrganizationSettings = {
+    weekendDays: [0, 6], // Sunday and Saturday
+    firstDayOfWeek: 0,
+    closedOnWeekends: false,
+    showHijriDates: false,
+};
+
+// Seed catalogue used the first time the app (or the API server) starts
+export const DEFAULT_HALLS: Hall[] = [
+    {
+        id: 'al-waha',
+        nameAr: 'قاعة الواحة',
+        nameEn: 'Al Waha Hall',
+        capacity: 20,
+        location: '',
+        equipment: [],
+        active: true,
+        schedule: DEFAULT_HALL_SCHEDULE,
+    },
+    {
+        id: 'al-dana',
+        nameAr: 'قاعة الدانة',
+        nameEn: 'Al Dana Hall',
+        capacity: 40,
+        location: '',
+        equipment: [],
+        active: true,
+        schedule: DEFAULT_HALL_SCHEDULE,
+    },
+];
+
+// Seed registry; matches the departments of the sample bookings
+export const DEFAULT_DEPARTMENTS: Department[] = [
+    { id: 'hr', code: 'HR', nameAr: 'قسم الموارد البشرية', nameEn: 'Human Resources', contactName: '', contactEmail: '', active: true },
+    { id: 'it', code: 'IT', nameAr: 'قسم تكنولوجيا المعلومات', nameEn: 'Information Technology', contactName: '', contactEmail: '', active: true },
+    { id: 'marketing', code: 'MKT', nameAr: 'قسم التسويق', nameEn: 'Marketing', contactName: '', contactEmail: '', active: true },
+];
+
+// PBKDF2-SHA256 work factor, shared by the local provider and the API server
+export const PASSWORD_HASH_ITERATIONS = 210_000;
+
+// Seeded administrator, password 'admin'; it must be changed at the first sign-in
+export const DEFAULT_ADMIN: StoredUser = {
+    id: 'admin',
+    username: 'admin',
+    displayName: 'مدير النظام',
+    role: 'admin',
+    active: true,
+    mustChangePassword: true,
+    passwordHash: '368f559a37bf2d53abafd21e7a27345d9fb86c170a68b9b3346de4a9a9116d79',
+    passwordSalt: '9173f161e0d63972b528b09c8c70bccb',
+};
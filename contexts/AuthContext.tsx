@@ -0,0 +1,84 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { User } from '../types';
+import { AuthProvider, UserInput, createAuthProvider } from '../services/authProvider';
+import { messages } from '../i18n';
+
+interface AuthContextValue {
+    user: User | null;
+    users: User[];
+    isLoading: boolean;
+    // Set when the session or the account list could not be loaded
+    error: string;
+    // Signed in, but the default password has to be replaced before `user` is set
+    mustChangePassword: boolean;
+    signIn: (username: string, password: string) => Promise<void>;
+    changePassword: (currentPassword: string, newPassword: string) => Promise<void>;
+    signOut: () => Promise<void>;
+    saveUser?: (user: UserInput, password?: string, userId?: string) => Promise<void>;
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null);
+
+export const useAuth = (): AuthContextValue => {
+    const context = useContext(AuthContext);
+    if (!context) {
+        throw new Error('useAuth must be used within an AuthContextProvider');
+    }
+    return context;
+};
+
+export const AuthContextProvider: React.FC<{ provider?: AuthProvider; children: React.ReactNode }> = ({ provider, children }) => {
+    const [authProvider] = useState(() => provider || createAuthProvider());
+    const [account, setAccount] = useState<User | null>(null);
+    const [users, setUsers] = useState<User[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [error, setError] = useState('');
+
+    const user = account && !account.mustChangePassword ? account : null;
+
+    // The account list is only readable once signed in with a changed password
+    const loadUsers = async (current: User | null) =>
+        setUsers(current && !current.mustChangePassword ? await authProvider.listUsers() : []);
+
+    useEffect(() => {
+        authProvider.getCurrentUser()
+            .then(async currentUser => {
+                await loadUsers(currentUser);
+                setAccount(currentUser);
+            })
+            .catch((e: any) => setError(e.message || messages().login.loadFailed))
+            .finally(() => setIsLoading(false));
+    }, [authProvider]);
+
+    const value: AuthContextValue = {
+        user,
+        users,
+        isLoading,
+        error,
+        mustChangePassword: !!account?.mustChangePassword,
+        signIn: async (username, password) => {
+            const signedIn = await authProvider.signIn(username, password);
+            await loadUsers(signedIn);
+            setError('');
+            setAccount(signedIn);
+        },
+        changePassword: async (currentPassword, newPassword) => {
+            const updated = await authProvider.changePassword(currentPassword, newPassword);
+            await loadUsers(updated);
+            setAccount(updated);
+        },
+        signOut: async () => {
+            await authProvider.signOut();
+            setAccount(null);
+        },
+        saveUser: authProvider.saveUser && (async (input, password, userId) => {
+            const saved = await authProvider.saveUser!(input, password, userId);
+            setUsers(prev => userId ? prev.map(u => u.id === saved.id ? saved : u) : [...prev, saved]);
+            if (saved.id === user?.id) {
+                setAccount(saved);
+            }
+        }),
+    };
+
+    return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>;
+};
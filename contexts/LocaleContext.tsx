@@ -0,0 +1,60 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { Department, Hall } from '../types';
+import { DEFAULT_LOCALE, Locale, Messages, formatNumber, isLocale, localeDirection, localizedName, messages, setActiveLocale } from '../i18n';
+import { readFromStorage, writeToStorage } from '../services/storage';
+
+interface LocaleContextValue {
+    locale: Locale;
+    setLocale: (locale: Locale) => void;
+    t: Messages;
+    dir: 'rtl' | 'ltr';
+    hallName: (hall: Pick<Hall, 'nameAr' | 'nameEn'>) => string;
+    departmentName: (department: Pick<Department, 'nameAr' | 'nameEn'>) => string;
+    formatNumber: (value: number) => string;
+}
+
+// Chosen per browser, unlike the organisation-wide settings
+const STORAGE_KEY = 'hall-booking:locale';
+
+const LocaleContext = createContext<LocaleContextValue | null>(null);
+
+export const useLocale = (): LocaleContextValue => {
+    const context = useContext(LocaleContext);
+    if (!context) {
+        throw new Error('useLocale must be used within a LocaleContextProvider');
+    }
+    return context;
+};
+
+const loadLocale = (): Locale => {
+    const stored = readFromStorage<string>(STORAGE_KEY);
+    const locale = isLocale(stored) ? stored : DEFAULT_LOCALE;
+    setActiveLocale(locale);
+    return locale;
+};
+
+export const LocaleContextProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+    const [locale, setLocaleState] = useState<Locale>(loadLocale);
+    const dir = localeDirection(locale);
+
+    useEffect(() => {
+        document.documentElement.lang = locale;
+        document.documentElement.dir = dir;
+    }, [locale, dir]);
+
+    const value: LocaleContextValue = {
+        locale,
+        setLocale: (next) => {
+            setActiveLocale(next);
+            writeToStorage(STORAGE_KEY, next);
+            setLocaleState(next);
+        },
+        t: messages(locale),
+        dir,
+        hallName: (hall) => localizedName(hall, locale),
+        departmentName: (department) => localizedName(department, locale),
+        formatNumber: (value) => formatNumber(value, locale),
+    };
+
+    return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+};
@@ -0,0 +1,43 @@
+import React, { createContext, useContext, useEffect, useState } from 'react';
+import { OrganizationSettings } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { SettingsRepository, createSettingsRepository } from '../services/settingsRepository';
+import { useAuth } from './AuthContext';
+
+interface SettingsContextValue {
+    settings: OrganizationSettings;
+    saveSettings: (settings: OrganizationSettings) => Promise<void>;
+}
+
+const SettingsContext = createContext<SettingsContextValue | null>(null);
+
+export const useSettings = (): SettingsContextValue => {
+    const context = useContext(SettingsContext);
+    if (!context) {
+        throw new Error('useSettings must be used within a SettingsContextProvider');
+    }
+    return context;
+};
+
+// Serves the defaults until the stored settings have loaded
+export const SettingsContextProvider: React.FC<{ repository?: SettingsRepository; children: React.ReactNode }> = ({ repository, children }) => {
+    const [settingsRepository] = useState(() => repository || createSettingsRepository());
+    const [settings, setSettings] = useState<OrganizationSettings>(DEFAULT_SETTINGS);
+    // Reloaded on sign-in, as the API only answers signed-in users
+    const { user } = useAuth();
+
+    useEffect(() => {
+        settingsRepository.get()
+            .then(setSettings)
+            .catch(() => setSettings(DEFAULT_SETTINGS));
+    }, [settingsRepository, user?.id]);
+
+    const value: SettingsContextValue = {
+        settings,
+        saveSettings: async (next) => {
+            setSettings(await settingsRepository.save(next));
+        },
+    };
+
+    return <SettingsContext.Provider value={value}>{children}</SettingsContext.Provider>;
+};
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react';
+
+// The value as it was once it stopped changing for `delay` milliseconds
+export const useDebouncedValue = <T>(value: T, delay: number): T => {
+    const [debounced, setDebounced] = useState(value);
+
+    useEffect(() => {
+        const timer = setTimeout(() => setDebounced(value), delay);
+        return () => clearTimeout(timer);
+    }, [value, delay]);
+
+    return debounced;
+};
@@ -0,0 +1,64 @@
+import { useCallback, useRef, useState } from 'react';
+
+export interface Command {
+    label: string;
+    undo: () => Promise<void>;
+    redo: () => Promise<void>;
+}
+
+const MAX_COMMANDS = 50;
+
+// Undo/redo history of already-executed commands. A command that fails to
+// undo or redo stays where it was so the user can retry.
+export const useUndoStack = () => {
+    const [past, setPast] = useState<Command[]>([]);
+    const [future, setFuture] = useState<Command[]>([]);
+    const isRunning = useRef(false);
+
+    const push = useCallback((command: Command) => {
+        setPast(prev => [...prev, command].slice(-MAX_COMMANDS));
+        setFuture([]);
+    }, []);
+
+    const clear = useCallback(() => {
+        setPast([]);
+        setFuture([]);
+    }, []);
+
+    const undo = async (): Promise<Command | undefined> => {
+        const command = past[past.length - 1];
+        if (!command || isRunning.current) return undefined;
+        isRunning.current = true;
+        try {
+            await command.undo();
+        } finally {
+            isRunning.current = false;
+        }
+        setPast(prev => prev.slice(0, -1));
+        setFuture(prev => [...prev, command]);
+        return command;
+    };
+
+    const redo = async (): Promise<Command | undefined> => {
+        const command = future[future.length - 1];
+        if (!command || isRunning.current) return undefined;
+        isRunning.current = true;
+        try {
+            await command.redo();
+        } finally {
+            isRunning.current = false;
+        }
+        setFuture(prev => prev.slice(0, -1));
+        setPast(prev => [...prev, command]);
+        return command;
+    };
+
+    return {
+        push,
+        clear,
+        undo,
+        redo,
+        nextUndo: past[past.length - 1],
+        nextRedo: future[future.length - 1],
+    };
+};
@@ -0,0 +1,591 @@
+// Arabic strings. This is the source catalogue: its shape defines `Messages`,
+// so every other locale has to provide the same keys.
+export const ar = {
+    intlLocale: 'ar-AE',
+    languageName: 'العربية',
+
+    common: {
+        save: 'حفظ',
+        cancel: 'إلغاء',
+        close: 'إغلاق',
+        edit: 'تعديل',
+        delete: 'حذف',
+        add: 'إضافة',
+        saveChanges: 'حفظ التعديلات',
+        cancelEdit: 'إلغاء التعديل',
+        backToSchedule: 'العودة إلى الجدول',
+        unexpectedError: 'حدث خطأ غير متوقع.',
+        allHalls: 'جميع القاعات',
+        hall: 'القاعة',
+        date: 'التاريخ',
+        time: 'الوقت',
+        weekday: 'اليوم',
+        department: 'الإدارة الطالبة',
+        notes: 'الملاحظات',
+        status: 'الحالة',
+        name: 'الاسم',
+        username: 'اسم المستخدم',
+        from: 'من',
+        to: 'إلى',
+        unknownUser: 'غير معروف',
+        listSeparator: '، ',
+        rangeTooLong: (years: number) => `لا يمكن أن تتجاوز الفترة ${years} سنوات.`,
+        company: 'شركة ساهر للخدمات الذكية',
+    },
+
+    calendar: {
+        // Indexed by Date#getDay()
+        weekdays: ['الاحد', 'الاثنين', 'الثلاثاء', 'الاربعاء', 'الخميس', 'الجمعة', 'السبت'],
+        // Indexed by Date#getMonth()
+        months: ['يناير', 'فبراير', 'مارس', 'أبريل', 'مايو', 'يونيو', 'يوليو', 'أغسطس', 'سبتمبر', 'أكتوبر', 'نوفمبر', 'ديسمبر'],
+        // Indexed by Hijri month - 1
+        hijriMonths: ['محرم', 'صفر', 'ربيع الأول', 'ربيع الآخر', 'جمادى الأولى', 'جمادى الآخرة', 'رجب', 'شعبان', 'رمضان', 'شوال', 'ذو القعدة', 'ذو الحجة'],
+        hijriSuffix: 'هـ',
+        gregorian: 'ميلادي',
+        hijri: 'هجري',
+        quarters: ['الربع الأول', 'الربع الثاني', 'الربع الثالث', 'الربع الرابع'],
+    },
+
+    services: {
+        projector: 'جهاز عرض',
+        videoConference: 'اتصال مرئي',
+        catering: 'ضيافة',
+    },
+
+    seatingLayouts: {
+        theatre: 'مسرحي',
+        classroom: 'فصل دراسي',
+        boardroom: 'طاولة اجتماعات',
+        uShape: 'على شكل U',
+    },
+
+    bookingStatus: {
+        pending: 'بانتظار الاعتماد',
+        approved: 'معتمد',
+        rejected: 'مرفوض',
+        cancelled: 'ملغى',
+    },
+
+    auditActions: {
+        create: 'إنشاء',
+        update: 'تعديل',
+        delete: 'حذف',
+        approve: 'اعتماد',
+        reject: 'رفض',
+        cancel: 'إلغاء',
+        restore: 'استعادة',
+    },
+
+    roles: {
+        requester: 'مقدم طلب',
+        approver: 'معتمد',
+        admin: 'مدير',
+    },
+
+    app: {
+        title: 'نظام حجز القاعات',
+        home: 'الصفحة الرئيسية',
+        contactUs: 'تواصل معنا',
+        signOut: 'تسجيل الخروج',
+        language: 'اللغة',
+        scheduleViews: { month: 'شهري', week: 'أسبوعي', day: 'يومي' },
+        calendarToggle: 'التقويم',
+        year: 'السنة:',
+        month: 'الشهر:',
+        exportExcel: 'تصدير إلى Excel',
+        exportCalendar: 'تصدير التقويم',
+        exportCalendarTitle: 'تنزيل حجوزات القاعة لهذا الشهر كملف .ics',
+        print: 'طباعة',
+        feedLink: 'رابط الاشتراك',
+        feedLinkTitle: 'رابط يمكن إضافته إلى Outlook للاشتراك في حجوزات القاعة',
+        feedCopied: 'تم نسخ رابط الاشتراك في التقويم.',
+        feedPrompt: 'رابط الاشتراك في التقويم:',
+        import: 'استيراد',
+        history: 'سجل التغييرات',
+        approvals: 'طلبات الاعتماد',
+        halls: 'إدارة القاعات',
+        blackouts: 'العطل والإيقاف',
+        departments: 'الإدارات',
+        reports: 'التقارير',
+        search: 'بحث في الحجوزات',
+        settings: 'إعدادات التقويم',
+        users: 'إدارة المستخدمين',
+        monthTotals: 'إجمالي الحجوزات للشهر المحدد',
+        undo: 'تراجع',
+        redo: 'إعادة',
+        undoTitle: (label: string) => `تراجع: ${label} (Ctrl+Z)`,
+        redoTitle: (label: string) => `إعادة: ${label} (Ctrl+Y)`,
+        nothingToUndo: 'لا يوجد ما يمكن التراجع عنه',
+        nothingToRedo: 'لا يوجد ما يمكن إعادته',
+        undone: (label: string) => `تم التراجع عن: ${label}`,
+        redone: (label: string) => `تمت إعادة: ${label}`,
+        previous: 'السابق',
+        next: 'التالي',
+        loadFailed: 'تعذر تحميل الحجوزات.',
+        undoFailed: 'تعذر التراجع.',
+        redoFailed: 'تعذرت الإعادة.',
+        moveFailed: 'تعذر نقل الحجز.',
+        notAllowed: 'لا تملك صلاحية تعديل هذا الحجز.',
+        noApprovePermission: 'لا تملك صلاحية اعتماد الحجوزات.',
+        noImportPermission: 'لا تملك صلاحية استيراد الحجوزات.',
+        noAdminPermission: 'هذا الإجراء متاح للمديرين فقط.',
+        noHallAvailable: 'لا توجد قاعة متاحة للحجز.',
+        noRecurrenceDates: 'لا توجد تواريخ مطابقة لقاعدة التكرار.',
+        imported: (count: number) => `تم استيراد ${count} حجز`,
+        // Undo/redo labels
+        changes: {
+            create: (department: string) => `إنشاء حجز ${department}`,
+            update: (department: string) => `تعديل حجز ${department}`,
+            move: (department: string) => `نقل حجز ${department}`,
+            delete: (department: string) => `حذف حجز ${department}`,
+            cancel: (department: string) => `إلغاء حجز ${department}`,
+            restore: (department: string) => `استعادة حجز ${department}`,
+            import: (count: number) => `استيراد ${count} حجز`,
+        },
+        footer: {
+            about: 'عن SAHER',
+            aboutText: 'شركة رائدة في تقديم الحلول والأنظمة الذكية، ملتزمون بالابتكار والجودة لتحقيق أعلى مستويات الكفاءة والخدمات الذكية.',
+            quickLinks: 'روابط سريعة',
+            home: 'الرئيسية',
+            services: 'خدماتنا',
+            credits: 'اعداد وتصميم / خالد الجفري',
+        },
+    },
+
+    login: {
+        title: 'حجز القاعات',
+        subtitle: 'يرجى تسجيل الدخول للمتابعة',
+        password: 'كلمة المرور',
+        submit: 'تسجيل الدخول',
+        submitting: 'جارٍ تسجيل الدخول...',
+        failed: 'تعذر تسجيل الدخول.',
+        insecureContext: 'تسجيل الدخول المحلي يتطلب اتصالاً آمناً (HTTPS أو localhost).',
+        invalidCredentials: 'اسم المستخدم أو كلمة المرور غير صحيحة.',
+        loadFailed: 'تعذر التحقق من الجلسة أو تحميل المستخدمين.',
+        // First sign-in of the seeded admin
+        changePasswordTitle: 'تغيير كلمة المرور',
+        changePasswordSubtitle: 'يجب تغيير كلمة المرور الافتراضية قبل المتابعة.',
+        currentPassword: 'كلمة المرور الحالية',
+        newPassword: 'كلمة المرور الجديدة',
+        confirmPassword: 'تأكيد كلمة المرور',
+        changePassword: 'حفظ كلمة المرور',
+        changingPassword: 'جارٍ الحفظ...',
+        passwordMismatch: 'كلمتا المرور غير متطابقتين.',
+        passwordUnchanged: 'يجب أن تختلف كلمة المرور الجديدة عن الحالية.',
+        currentPasswordWrong: 'كلمة المرور الحالية غير صحيحة.',
+        passwordChangeRequired: 'يجب تغيير كلمة المرور الافتراضية أولاً.',
+    },
+
+    search: {
+        title: 'البحث في الحجوزات',
+        departmentPlaceholder: 'اسم الإدارة أو رمزها',
+        notesPlaceholder: 'نص في الملاحظات',
+        timeOfDay: 'وقت اليوم',
+        clear: 'مسح',
+        hint: 'حدد معياراً واحداً على الأقل للبحث في جميع الحجوزات.',
+        results: (count: number) => `${count} نتيجة`,
+        noResults: 'لا توجد حجوزات مطابقة.',
+        showInSchedule: 'اضغط على نتيجة لعرضها في الجدول.',
+    },
+
+    schedule: {
+        index: 'م',
+        timeRange: 'من / الى',
+        hijriDate: 'التاريخ الهجري',
+        recurring: 'حجز متكرر',
+        resizeHint: 'اسحب لتغيير المدة',
+        dragResize: 'تغيير المدة',
+        dragMove: 'نقل الحجز',
+        allHallsClosed: 'جميع القاعات مغلقة في هذا اليوم.',
+    },
+
+    booking: {
+        titleNew: 'حجز جديد',
+        titleEdit: 'تعديل الحجز',
+        titleView: 'تفاصيل الحجز',
+        createdBy: (name: string) => `أنشأه ${name}`,
+        updatedBy: (name: string) => `آخر تعديل ${name}`,
+        at: (timestamp: string) => ` في ${timestamp}`,
+        conflictWith: (department: string, time: string, endTime: string, hall: string, date: string) =>
+            `يتعارض مع حجز ${department} (${time} - ${endTime}) في ${hall} بتاريخ ${date}`,
+        suggestionsTitle: 'أوقات متاحة مقترحة:',
+        suggestionGroups: {
+            'same-day': 'أوقات أخرى في نفس اليوم',
+            'other-hall': 'قاعات أخرى في نفس الوقت',
+            'next-days': 'الأيام التالية',
+        },
+        startTime: 'وقت البدء',
+        endTime: 'وقت الإنتهاء',
+        chooseStart: 'اختر وقت البدء',
+        chooseEnd: 'اختر وقت الإنتهاء',
+        hallClosedOnDay: 'القاعة مغلقة في هذا اليوم',
+        departmentPlaceholder: 'ابحث باسم الإدارة أو رمزها',
+        departmentContact: (contact: string) => `جهة الاتصال: ${contact}`,
+        logisticsTitle: 'الحضور والتجهيزات',
+        attendees: 'عدد الحضور المتوقع',
+        hallCapacity: (capacity: number) => `سعة القاعة: ${capacity} شخص`,
+        servicesLegend: 'التجهيزات والخدمات المطلوبة',
+        seatingLayout: 'ترتيب المقاعد',
+        noSeatingPreference: 'بدون تفضيل',
+        missingEquipment: (items: string, hall: string) => `تنبيه: لا تتوفر في ${hall} التجهيزات التالية: ${items}.`,
+        organizerTitle: 'منظم الاجتماع',
+        organizerName: 'الاسم',
+        organizerPhone: 'الهاتف',
+        organizerEmail: 'البريد الإلكتروني',
+        notesPlaceholder: 'أضف ملاحظات (اختياري)',
+        scopeLegend: 'تطبيق التعديل أو الحذف على',
+        scopes: {
+            single: 'هذا الموعد فقط',
+            following: 'هذا الموعد وما يليه',
+            series: 'السلسلة كاملة',
+        },
+        historyTitle: (count: number) => `سجل التغييرات (${count})`,
+        deleteBooking: 'حذف الحجز',
+        cancelBooking: 'إلغاء الحجز',
+        duplicate: 'نسخ الحجز',
+        addToCalendar: 'إضافة إلى التقويم',
+        addToCalendarTitle: 'تنزيل الحجز كملف .ics لإضافته إلى Outlook أو أي تقويم آخر',
+        errors: {
+            dateRequired: 'يرجى تحديد تاريخ الحجز.',
+            startRequired: 'يرجى تحديد وقت بدء الحجز.',
+            departmentRequired: 'يرجى إدخال اسم الإدارة الطالبة.',
+            departmentUnknown: 'يرجى اختيار الإدارة الطالبة من القائمة.',
+            attendeesInvalid: 'عدد الحضور يجب أن يكون رقماً صحيحاً موجباً.',
+            overCapacity: (attendees: number, capacity: number, hall: string) => `عدد الحضور (${attendees}) يتجاوز سعة ${hall} (${capacity} شخص). اختر قاعة أكبر أو قلل العدد.`,
+            organizerEmailInvalid: 'البريد الإلكتروني للمنظم غير صحيح.',
+            endRequired: 'يرجى تحديد وقت انتهاء الحجز.',
+            endBeforeStart: 'وقت الانتهاء يجب أن يكون بعد وقت البدء.',
+            recurrenceEndRequired: 'يرجى تحديد نهاية التكرار (تاريخ أو عدد مرات).',
+            recurrenceUntilBeforeStart: 'تاريخ نهاية التكرار يجب أن يكون بعد تاريخ الحجز.',
+            weekdayRequired: 'يرجى اختيار يوم واحد على الأقل للتكرار الأسبوعي.',
+            dateTimeInvalid: 'التاريخ أو الوقت غير صحيح.',
+            recurrenceInvalid: 'قاعدة التكرار غير صحيحة.',
+            departmentInactive: 'الإدارة المحددة غير موجودة أو غير نشطة.',
+            statusInvalid: 'حالة الحجز غير صحيحة.',
+        },
+    },
+
+    recurrence: {
+        label: 'التكرار',
+        frequencies: { none: 'بدون تكرار', daily: 'يومي', weekly: 'أسبوعي', monthly: 'شهري' },
+        every: 'كل',
+        lastWeekdayOfMonth: (weekday: string) => `آخر ${weekday} في الشهر`,
+        until: 'حتى تاريخ',
+        count: 'عدد المرات',
+        // describeRecurrence
+        ordinals: ['الأول', 'الثاني', 'الثالث', 'الرابع', 'الخامس'],
+        lastOrdinal: 'الأخير',
+        interval: (interval: number) => ` (كل ${interval})`,
+        daily: (every: string) => `يومياً${every}`,
+        weekly: (every: string, weekdays: string) => `أسبوعياً${every}: ${weekdays}`,
+        monthly: (every: string, weekday: string, ordinal: string) => `شهرياً${every}: يوم ${weekday} ${ordinal}`,
+        untilDate: (date: string) => ` حتى ${date}`,
+        times: (count: number) => ` (${count} مرات)`,
+        occurrences: (count: number) => `(${count} موعد)`,
+    },
+
+    rules: {
+        conflict: 'يوجد تعارض في الحجز. الرجاء اختيار وقت آخر.',
+        outsideWorkingHours: 'الوقت المحدد خارج ساعات عمل القاعة.',
+        blackout: (reason: string) => `لا يمكن الحجز في هذا اليوم: ${reason}`,
+        blockedDates: (dates: string) => `لا يمكن الحجز في أيام العطل والإيقاف التالية: ${dates}`,
+        conflictDates: (dates: string) => `يوجد تعارض في الحجز في التواريخ التالية: ${dates}`,
+        outsideHoursDates: (dates: string) => `الوقت المحدد خارج ساعات عمل القاعة في التواريخ التالية: ${dates}`,
+        hallUnknown: 'القاعة المحددة غير موجودة.',
+        hallInactive: 'القاعة المحددة غير متاحة للحجز.',
+    },
+
+    history: {
+        title: 'سجل التغييرات',
+        empty: 'لا يوجد سجل لهذا الحجز.',
+        allActions: 'كل الإجراءات',
+        allUsers: 'كل المستخدمين',
+        allHalls: 'كل القاعات',
+        action: 'الإجراء',
+        user: 'المستخدم',
+        bookingDate: 'موعد الحجز',
+        details: 'التفاصيل',
+        searchPlaceholder: 'بحث في الإدارة أو الملاحظات',
+        clearFilters: 'مسح التصفية',
+        noMatches: 'لا توجد سجلات مطابقة.',
+        restore: 'استعادة',
+        restoreFailed: 'تعذر استعادة الحجز.',
+        change: (field: string, before: string, after: string) => `${field}: من ${before} إلى ${after}`,
+    },
+
+    approvals: {
+        title: 'طلبات بانتظار الاعتماد',
+        empty: 'لا توجد طلبات بانتظار الاعتماد.',
+        requester: 'مقدم الطلب',
+        rejectReason: 'سبب الرفض',
+        rejectReasonRequired: 'يرجى كتابة سبب الرفض.',
+        approve: 'اعتماد',
+        reject: 'رفض',
+    },
+
+    users: {
+        title: 'إدارة المستخدمين',
+        displayName: 'الاسم الظاهر',
+        role: 'الدور',
+        active: 'نشط',
+        inactive: 'موقوف',
+        activeAccount: 'حساب نشط',
+        editTitle: 'تعديل المستخدم',
+        addTitle: 'إضافة مستخدم جديد',
+        password: 'كلمة المرور',
+        newPassword: 'كلمة مرور جديدة (اختياري)',
+        addSubmit: 'إضافة المستخدم',
+        nameRequired: 'يرجى إدخال اسم المستخدم والاسم الظاهر.',
+        cannotDemoteSelf: 'لا يمكنك إزالة صلاحية المدير عن حسابك أو إيقافه.',
+        usernameTaken: 'اسم المستخدم مستخدم بالفعل.',
+        passwordRequired: 'يرجى إدخال كلمة المرور.',
+    },
+
+    halls: {
+        title: 'إدارة القاعات',
+        nameAr: 'الاسم بالعربية',
+        nameEn: 'الاسم بالإنجليزية',
+        capacity: 'السعة',
+        capacityLabel: 'السعة (عدد الأشخاص)',
+        location: 'الموقع',
+        locationPlaceholder: 'مثال: الطابق الثالث',
+        equipment: 'التجهيزات',
+        equipmentPlaceholder: 'افصل بين العناصر بفاصلة، مثال: جهاز عرض، سبورة',
+        workingHours: 'ساعات العمل',
+        openTime: 'وقت الافتتاح',
+        closeTime: 'وقت الإغلاق',
+        slotMinutes: 'مدة الفترة (دقيقة)',
+        available: 'متاحة',
+        suspended: 'موقوفة',
+        requiresApprovalBadge: 'تتطلب اعتماد',
+        deactivate: 'إيقاف',
+        reactivate: 'إعادة تفعيل',
+        editTitle: 'تعديل القاعة',
+        addTitle: 'إضافة قاعة جديدة',
+        addSubmit: 'إضافة القاعة',
+        weekend: ' (عطلة)',
+        weekdayHours: (weekday: string) => `ساعات يوم ${weekday}`,
+        defaultHours: 'الساعات الافتراضية',
+        closedWeekend: 'مغلقة (عطلة نهاية الأسبوع)',
+        customHours: 'ساعات مخصصة',
+        closed: 'مغلقة',
+        activeLabel: 'متاحة للحجز',
+        requiresApprovalLabel: 'الحجوزات تتطلب اعتماد',
+        nameRequired: 'يرجى إدخال اسم القاعة.',
+        capacityInvalid: 'السعة يجب أن تكون رقماً موجباً.',
+        closeBeforeOpen: 'وقت الإغلاق يجب أن يكون بعد وقت الافتتاح.',
+        invalidWeekdayHours: (weekday: string) => `ساعات يوم ${weekday} غير صحيحة.`,
+        invalidHours: 'ساعات العمل غير صحيحة.',
+        slotMinutesInvalid: 'مدة الفترة الزمنية غير مدعومة.',
+    },
+
+    blackouts: {
+        title: 'العطل وفترات الإيقاف',
+        period: 'الفترة',
+        reason: 'السبب',
+        empty: 'لا توجد عطل أو فترات إيقاف.',
+        editTitle: 'تعديل الفترة',
+        addTitle: 'إضافة عطلة أو فترة إيقاف',
+        startDate: 'من تاريخ',
+        endDate: 'إلى تاريخ',
+        reasonPlaceholder: 'مثال: اليوم الوطني، صيانة',
+        invalidPeriod: 'فترة الإيقاف غير صحيحة.',
+        reasonRequired: 'يرجى إدخال سبب الإيقاف.',
+        confirmDelete: (reason: string) => `هل تريد حذف "${reason}"؟`,
+        importTitle: 'استيراد من ملف تقويم (.ics)',
+        importHint: 'تُضاف كل مناسبة في الملف كفترة إيقاف باسمها، مثل قائمة العطل الرسمية.',
+        importEmpty: 'لم يتم العثور على أي مناسبات في الملف.',
+        imported: (count: number, skipped: number) => `تم استيراد ${count} من العطل والإيقافات${skipped ? `، وتخطي ${skipped} موجودة مسبقاً` : ''}.`,
+        defaultReason: 'عطلة',
+    },
+
+    departments: {
+        title: 'سجل الإدارات',
+        code: 'الرمز',
+        nameAr: 'الاسم بالعربية',
+        nameEn: 'الاسم بالإنجليزية',
+        contact: 'جهة الاتصال',
+        contactName: 'اسم جهة الاتصال',
+        contactEmail: 'البريد الإلكتروني',
+        active: 'نشطة',
+        inactive: 'موقوفة',
+        activeLabel: 'متاحة للاختيار في الحجوزات',
+        deactivate: 'إيقاف',
+        reactivate: 'إعادة تفعيل',
+        editTitle: 'تعديل الإدارة',
+        addTitle: 'إضافة إدارة جديدة',
+        addSubmit: 'إضافة الإدارة',
+        codeRequired: 'يرجى إدخال رمز الإدارة.',
+        nameRequired: 'يرجى إدخال اسم الإدارة بالعربية.',
+        codeTaken: 'رمز الإدارة مستخدم بالفعل.',
+        // Linking free-text bookings to the registry
+        migrationTitle: 'ربط الحجوزات السابقة بالإدارات',
+        migrationHint: 'الحجوزات التي أُدخلت فيها الإدارة كنص حر. اختر الإدارة المقابلة لكل كتابة ثم اربطها؛ تُقترح الإدارة تلقائياً عند تطابق الاسم أو الرمز.',
+        migrationEmpty: 'جميع الحجوزات مرتبطة بإدارات من السجل.',
+        writtenAs: 'الاسم كما كُتب',
+        bookingCount: 'عدد الحجوزات',
+        linkTo: 'الإدارة',
+        chooseDepartment: '— اختر —',
+        addFromText: 'إضافة كإدارة جديدة',
+        migrate: 'ربط الحجوزات',
+        migrated: (count: number) => `تم ربط ${count} حجز بالإدارات.`,
+        migrationFailed: (count: number) => `تعذر ربط ${count} حجز؛ افتحها وعدّلها يدوياً.`,
+    },
+
+    reports: {
+        title: 'تقارير الإشغال',
+        hallsLegend: 'القاعات',
+        selectAll: 'تحديد الكل',
+        deselectAll: 'إلغاء التحديد',
+        invalidRange: 'يرجى اختيار فترة صحيحة.',
+        noData: 'لا توجد ساعات عمل متاحة للقاعات المحددة في هذه الفترة.',
+        noBookings: 'لا توجد حجوزات في هذه الفترة.',
+        occupancy: 'نسبة الإشغال',
+        bookedHours: 'الساعات المحجوزة',
+        availableHours: 'الساعات المتاحة',
+        bookings: 'عدد الحجوزات',
+        bookingCount: (count: number) => `${count} حجز`,
+        byHall: 'الإشغال حسب القاعة',
+        peakHours: 'أوقات الذروة',
+        peakWeekdays: 'أيام الذروة',
+        topDepartments: 'أكثر الإدارات حجزاً (بالساعات)',
+        monthlyTrend: 'الاتجاه الشهري',
+        month: 'الشهر',
+        percent: (value: string) => `${value}٪`,
+        hours: (value: string) => `${value} ساعة`,
+        export: 'تصدير الأرقام إلى Excel',
+        fileName: (period: string) => `تقرير الإشغال - ${period}`,
+        sheets: {
+            summary: 'الملخص',
+            halls: 'القاعات',
+            slots: 'الأوقات',
+            weekdays: 'أيام الأسبوع',
+            departments: 'الإدارات',
+            months: 'الأشهر',
+        },
+    },
+
+    settings: {
+        title: 'إعدادات التقويم وأسبوع العمل',
+        firstDayOfWeek: 'أول يوم في الأسبوع',
+        weekendDays: 'أيام عطلة نهاية الأسبوع',
+        closedOnWeekends: 'إغلاق القاعات في عطلة نهاية الأسبوع',
+        closedOnWeekendsHint: 'يمكن فتح قاعة في يوم عطلة، أو تحديد دوام جزئي (مثل نصف يوم الجمعة)، من ساعات العمل الخاصة بالقاعة في إدارة القاعات.',
+        showHijriDates: 'عرض التاريخ الهجري (أم القرى) بجانب التاريخ الميلادي',
+        showHijriDatesHint: 'يضيف عمود التاريخ الهجري إلى الجدول وملفات Excel، ويتيح التنقل في الجدول حسب الشهر الهجري.',
+        allWeekend: 'لا يمكن أن تكون جميع أيام الأسبوع عطلة.',
+        saved: 'تم حفظ الإعدادات.',
+        submit: 'حفظ الإعدادات',
+        invalid: 'إعدادات أسبوع العمل غير صحيحة.',
+    },
+
+    export: {
+        title: 'تصدير إلى Excel',
+        hallsLegend: 'القاعات (ورقة لكل قاعة)',
+        selectAll: 'تحديد الكل',
+        deselectAll: 'إلغاء تحديد الكل',
+        period: 'الفترة',
+        ranges: { month: 'شهر', hijriMonth: 'شهر هجري', quarter: 'ربع سنة', year: 'سنة', custom: 'فترة مخصصة' },
+        year: 'السنة',
+        month: 'الشهر',
+        quarter: 'الربع',
+        hijriYear: 'السنة الهجرية',
+        hijriMonth: 'الشهر الهجري',
+        layout: 'التنسيق',
+        gridLayout: 'جدول زمني (يوم لكل صف)',
+        listLayout: 'قائمة (حجز لكل صف)',
+        includeSummary: 'إضافة ورقة ملخص (عدد الحجوزات لكل قاعة وإدارة)',
+        includeHijri: 'إضافة عمود التاريخ الهجري',
+        invalidRange: 'يرجى تحديد فترة صحيحة.',
+        noHallSelected: 'يرجى اختيار قاعة واحدة على الأقل.',
+        submit: 'تصدير',
+    },
+
+    // Workbook labels. The importer accepts the labels of every locale.
+    excel: {
+        headers: {
+            index: 'م',
+            weekday: 'اليوم',
+            date: 'التاريخ',
+            hijriDate: 'التاريخ الهجري',
+            timeRange: 'من / الى',
+            notes: 'الملاحظات',
+        },
+        columns: {
+            hall: 'القاعة',
+            date: 'التاريخ',
+            time: 'من',
+            endTime: 'إلى',
+            department: 'الإدارة الطالبة',
+            notes: 'الملاحظات',
+        },
+        sheetTitle: (hall: string, period: string) => `جدول حجوزات ${hall} - ${period}`,
+        hallSheetName: (hall: string) => `حجوزات ${hall}`,
+        summarySheetName: 'الملخص',
+        summaryTitle: (period: string) => `ملخص الحجوزات - ${period}`,
+        total: 'الإجمالي',
+        fileName: (hall: string, period: string) => `حجوزات_${hall}_${period}`,
+        allHalls: 'جميع_القاعات',
+    },
+
+    import: {
+        title: 'استيراد الحجوزات',
+        hint: 'ملف Excel بنفس تنسيق التصدير، أو ملف CSV/Excel بأعمدة: القاعة، التاريخ، من، إلى، الإدارة الطالبة، الملاحظات.',
+        file: 'الملف',
+        fallbackHall: 'القاعة عند تعذر تحديدها من الملف',
+        ready: (valid: number, total: number) => `${valid} حجز جاهز للاستيراد من أصل ${total}`,
+        sheetRow: 'الورقة / الصف',
+        validation: 'التحقق',
+        submit: (count: number) => `استيراد ${count} حجز`,
+        readFailed: 'تعذرت قراءة الملف.',
+        missingColumns: 'الأعمدة المطلوبة غير موجودة: القاعة، التاريخ، من، إلى، الإدارة الطالبة.',
+        hallNotFound: (hall: string) => `القاعة "${hall}" غير موجودة.`,
+        invalidDate: 'التاريخ غير صحيح.',
+        invalidTime: 'الوقت غير صحيح.',
+        missingDepartment: 'اسم الإدارة الطالبة مفقود.',
+        unknownDepartment: (department: string) => `الإدارة "${department}" غير موجودة في سجل الإدارات.`,
+        unknownFormat: 'لم يتم التعرف على تنسيق الورقة.',
+        unknownHall: 'تعذر تحديد القاعة من عنوان الورقة؛ يرجى اختيارها.',
+        notesOnFirstBooking: 'ملاحظات اليوم أُسندت إلى أول حجز فيه.',
+        hallInactive: 'القاعة غير متاحة للحجز.',
+        endBeforeStart: 'وقت الانتهاء يجب أن يكون بعد وقت البدء.',
+        duplicate: 'الحجز موجود مسبقاً.',
+        conflictsWith: (department: string, time: string, endTime: string) => `يتعارض مع حجز ${department} (${time} - ${endTime}).`,
+        conflictsWithRow: (row: number, sheet: string) => `يتعارض مع الصف ${row} في ورقة ${sheet}.`,
+    },
+
+    print: {
+        layout: 'التخطيط',
+        monthLayout: 'جدول الشهر',
+        doorSignLayout: 'لافتة الباب (يوم واحد)',
+        day: 'اليوم',
+        paper: 'حجم الورق',
+        print: 'طباعة / حفظ PDF',
+        back: 'رجوع',
+        scheduleTitle: (hall: string) => `جدول حجوزات ${hall}`,
+        hallClosed: (reason: string) => `القاعة مغلقة: ${reason}`,
+        noBookings: 'لا توجد حجوزات في هذا اليوم',
+    },
+
+    icalendar: {
+        bookingFileName: (hall: string, date: string) => `حجز_${hall}_${date}`,
+        hallFileName: (hall: string, period: string) => `حجوزات_${hall}_${period}`,
+        calendarName: (hall: string) => `حجوزات ${hall}`,
+    },
+
+    http: {
+        connectionFailed: (status: number) => `تعذر الاتصال بالخادم (${status}).`,
+        signInRequired: 'يرجى تسجيل الدخول للمتابعة.',
+        forbidden: 'لا تملك صلاحية تنفيذ هذا الإجراء.',
+        invalidBody: 'صيغة الطلب غير صحيحة.',
+    },
+
+    notFound: {
+        item: 'العنصر غير موجود.',
+        hall: 'القاعة غير موجودة.',
+        booking: 'الحجز غير موجود.',
+        blackout: 'فترة الإيقاف غير موجودة.',
+        department: 'الإدارة غير موجودة.',
+        user: 'المستخدم غير موجود.',
+    },
+};
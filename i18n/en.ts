@@ -0,0 +1,586 @@
+import type { Messages } from './index';
+
+const plural = (count: number, singular: string, pluralForm = `${singular}s`) => `${count} ${count === 1 ? singular : pluralForm}`;
+
+export const en: Messages = {
+    intlLocale: 'en-GB',
+    languageName: 'English',
+
+    common: {
+        save: 'Save',
+        cancel: 'Cancel',
+        close: 'Close',
+        edit: 'Edit',
+        delete: 'Delete',
+        add: 'Add',
+        saveChanges: 'Save changes',
+        cancelEdit: 'Cancel editing',
+        backToSchedule: 'Back to schedule',
+        unexpectedError: 'An unexpected error occurred.',
+        allHalls: 'All halls',
+        hall: 'Hall',
+        date: 'Date',
+        time: 'Time',
+        weekday: 'Day',
+        department: 'Department',
+        notes: 'Notes',
+        status: 'Status',
+        name: 'Name',
+        username: 'Username',
+        from: 'From',
+        to: 'To',
+        unknownUser: 'Unknown',
+        listSeparator: ', ',
+        rangeTooLong: (years: number) => `The period cannot be longer than ${years} years.`,
+        company: 'SAHER for Smart Services',
+    },
+
+    calendar: {
+        weekdays: ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'],
+        months: ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'],
+        hijriMonths: ['Muharram', 'Safar', 'Rabi al-Awwal', 'Rabi al-Thani', 'Jumada al-Ula', 'Jumada al-Akhirah', 'Rajab', 'Shaban', 'Ramadan', 'Shawwal', 'Dhu al-Qadah', 'Dhu al-Hijjah'],
+        hijriSuffix: 'AH',
+        gregorian: 'Gregorian',
+        hijri: 'Hijri',
+        quarters: ['Q1', 'Q2', 'Q3', 'Q4'],
+    },
+
+    services: {
+        projector: 'Projector',
+        videoConference: 'Video conference',
+        catering: 'Catering',
+    },
+
+    seatingLayouts: {
+        theatre: 'Theatre',
+        classroom: 'Classroom',
+        boardroom: 'Boardroom',
+        uShape: 'U-shape',
+    },
+
+    bookingStatus: {
+        pending: 'Pending approval',
+        approved: 'Approved',
+        rejected: 'Rejected',
+        cancelled: 'Cancelled',
+    },
+
+    auditActions: {
+        create: 'Created',
+        update: 'Updated',
+        delete: 'Deleted',
+        approve: 'Approved',
+        reject: 'Rejected',
+        cancel: 'Cancelled',
+        restore: 'Restored',
+    },
+
+    roles: {
+        requester: 'Requester',
+        approver: 'Approver',
+        admin: 'Administrator',
+    },
+
+    app: {
+        title: 'Hall Booking System',
+        home: 'Home',
+        contactUs: 'Contact us',
+        signOut: 'Sign out',
+        language: 'Language',
+        scheduleViews: { month: 'Month', week: 'Week', day: 'Day' },
+        calendarToggle: 'Calendar',
+        year: 'Year:',
+        month: 'Month:',
+        exportExcel: 'Export to Excel',
+        exportCalendar: 'Export calendar',
+        exportCalendarTitle: "Download this month's hall bookings as an .ics file",
+        print: 'Print',
+        feedLink: 'Subscription link',
+        feedLinkTitle: "A link you can add to Outlook to subscribe to the hall's bookings",
+        feedCopied: 'Calendar subscription link copied.',
+        feedPrompt: 'Calendar subscription link:',
+        import: 'Import',
+        history: 'Change history',
+        approvals: 'Approval requests',
+        halls: 'Manage halls',
+        blackouts: 'Holidays & blackouts',
+        departments: 'Departments',
+        reports: 'Reports',
+        search: 'Search bookings',
+        settings: 'Calendar settings',
+        users: 'Manage users',
+        monthTotals: 'Bookings in the selected month',
+        undo: 'Undo',
+        redo: 'Redo',
+        undoTitle: (label: string) => `Undo: ${label} (Ctrl+Z)`,
+        redoTitle: (label: string) => `Redo: ${label} (Ctrl+Y)`,
+        nothingToUndo: 'Nothing to undo',
+        nothingToRedo: 'Nothing to redo',
+        undone: (label: string) => `Undone: ${label}`,
+        redone: (label: string) => `Redone: ${label}`,
+        previous: 'Previous',
+        next: 'Next',
+        loadFailed: 'Could not load the bookings.',
+        undoFailed: 'Could not undo.',
+        redoFailed: 'Could not redo.',
+        moveFailed: 'Could not move the booking.',
+        notAllowed: 'You are not allowed to change this booking.',
+        noApprovePermission: 'You are not allowed to approve bookings.',
+        noImportPermission: 'You are not allowed to import bookings.',
+        noAdminPermission: 'Only admins can do this.',
+        noHallAvailable: 'No hall is available for booking.',
+        noRecurrenceDates: 'No dates match the recurrence rule.',
+        imported: (count: number) => `Imported ${plural(count, 'booking')}`,
+        changes: {
+            create: (department: string) => `Create booking for ${department}`,
+            update: (department: string) => `Edit booking for ${department}`,
+            move: (department: string) => `Move booking for ${department}`,
+            delete: (department: string) => `Delete booking for ${department}`,
+            cancel: (department: string) => `Cancel booking for ${department}`,
+            restore: (department: string) => `Restore booking for ${department}`,
+            import: (count: number) => `Import ${plural(count, 'booking')}`,
+        },
+        footer: {
+            about: 'About SAHER',
+            aboutText: 'A leading provider of smart solutions and systems, committed to innovation and quality to deliver the highest levels of efficiency and smart services.',
+            quickLinks: 'Quick links',
+            home: 'Home',
+            services: 'Our services',
+            credits: 'Prepared and designed by Khaled Al-Jefri',
+        },
+    },
+
+    login: {
+        title: 'Hall Booking',
+        subtitle: 'Please sign in to continue',
+        password: 'Password',
+        submit: 'Sign in',
+        submitting: 'Signing in...',
+        failed: 'Could not sign in.',
+        insecureContext: 'Local sign-in requires a secure connection (HTTPS or localhost).',
+        invalidCredentials: 'Incorrect username or password.',
+        loadFailed: 'Could not check the session or load the user accounts.',
+        changePasswordTitle: 'Change password',
+        changePasswordSubtitle: 'The default password must be changed before you continue.',
+        currentPassword: 'Current password',
+        newPassword: 'New password',
+        confirmPassword: 'Confirm password',
+        changePassword: 'Save password',
+        changingPassword: 'Saving...',
+        passwordMismatch: 'The passwords do not match.',
+        passwordUnchanged: 'The new password must differ from the current one.',
+        currentPasswordWrong: 'The current password is incorrect.',
+        passwordChangeRequired: 'The default password must be changed first.',
+    },
+
+    search: {
+        title: 'Search bookings',
+        departmentPlaceholder: 'Department name or code',
+        notesPlaceholder: 'Text in the notes',
+        timeOfDay: 'Time of day',
+        clear: 'Clear',
+        hint: 'Enter at least one criterion to search all bookings.',
+        results: (count: number) => plural(count, 'result'),
+        noResults: 'No matching bookings.',
+        showInSchedule: 'Click a result to show it in the schedule.',
+    },
+
+    schedule: {
+        index: '#',
+        timeRange: 'From / To',
+        hijriDate: 'Hijri date',
+        recurring: 'Recurring booking',
+        resizeHint: 'Drag to change the duration',
+        dragResize: 'Change duration',
+        dragMove: 'Move booking',
+        allHallsClosed: 'All halls are closed on this day.',
+    },
+
+    booking: {
+        titleNew: 'New booking',
+        titleEdit: 'Edit booking',
+        titleView: 'Booking details',
+        createdBy: (name: string) => `Created by ${name}`,
+        updatedBy: (name: string) => `last changed by ${name}`,
+        at: (timestamp: string) => ` on ${timestamp}`,
+        conflictWith: (department: string, time: string, endTime: string, hall: string, date: string) =>
+            `Conflicts with the ${department} booking (${time} - ${endTime}) in ${hall} on ${date}`,
+        suggestionsTitle: 'Suggested free times:',
+        suggestionGroups: {
+            'same-day': 'Other times on the same day',
+            'other-hall': 'Other halls at the same time',
+            'next-days': 'Following days',
+        },
+        startTime: 'Start time',
+        endTime: 'End time',
+        chooseStart: 'Choose a start time',
+        chooseEnd: 'Choose an end time',
+        hallClosedOnDay: 'The hall is closed on this day',
+        departmentPlaceholder: 'Search by department name or code',
+        departmentContact: (contact: string) => `Contact: ${contact}`,
+        logisticsTitle: 'Attendees and requirements',
+        attendees: 'Expected attendees',
+        hallCapacity: (capacity: number) => `Hall capacity: ${plural(capacity, 'person', 'people')}`,
+        servicesLegend: 'Required equipment and services',
+        seatingLayout: 'Seating layout',
+        noSeatingPreference: 'No preference',
+        missingEquipment: (items: string, hall: string) => `Note: ${hall} does not list the following equipment: ${items}.`,
+        organizerTitle: 'Organizer',
+        organizerName: 'Name',
+        organizerPhone: 'Phone',
+        organizerEmail: 'Email',
+        notesPlaceholder: 'Add notes (optional)',
+        scopeLegend: 'Apply the change or deletion to',
+        scopes: {
+            single: 'This occurrence only',
+            following: 'This and following occurrences',
+            series: 'The whole series',
+        },
+        historyTitle: (count: number) => `Change history (${count})`,
+        deleteBooking: 'Delete booking',
+        cancelBooking: 'Cancel booking',
+        duplicate: 'Duplicate',
+        addToCalendar: 'Add to calendar',
+        addToCalendarTitle: 'Download the booking as an .ics file for Outlook or any other calendar',
+        errors: {
+            dateRequired: 'Please choose the booking date.',
+            startRequired: 'Please choose the start time.',
+            departmentRequired: 'Please enter the requesting department.',
+            departmentUnknown: 'Please choose the requesting department from the list.',
+            attendeesInvalid: 'The number of attendees must be a positive whole number.',
+            overCapacity: (attendees: number, capacity: number, hall: string) => `${attendees} attendees exceed the capacity of ${hall} (${plural(capacity, 'person', 'people')}). Choose a larger hall or reduce the number.`,
+            organizerEmailInvalid: 'The organizer email address is not valid.',
+            endRequired: 'Please choose the end time.',
+            endBeforeStart: 'The end time must be after the start time.',
+            recurrenceEndRequired: 'Please choose when the recurrence ends (a date or a number of times).',
+            recurrenceUntilBeforeStart: 'The recurrence end date must be after the booking date.',
+            weekdayRequired: 'Please choose at least one day for a weekly recurrence.',
+            dateTimeInvalid: 'The date or time is invalid.',
+            recurrenceInvalid: 'The recurrence rule is invalid.',
+            departmentInactive: 'The selected department does not exist or is retired.',
+            statusInvalid: 'The booking status is invalid.',
+        },
+    },
+
+    recurrence: {
+        label: 'Repeat',
+        frequencies: { none: 'Does not repeat', daily: 'Daily', weekly: 'Weekly', monthly: 'Monthly' },
+        every: 'Every',
+        lastWeekdayOfMonth: (weekday: string) => `Last ${weekday} of the month`,
+        until: 'Until',
+        count: 'Occurrences',
+        ordinals: ['first', 'second', 'third', 'fourth', 'fifth'],
+        lastOrdinal: 'last',
+        interval: (interval: number) => ` (every ${interval})`,
+        daily: (every: string) => `Daily${every}`,
+        weekly: (every: string, weekdays: string) => `Weekly${every}: ${weekdays}`,
+        monthly: (every: string, weekday: string, ordinal: string) => `Monthly${every}: ${ordinal} ${weekday}`,
+        untilDate: (date: string) => ` until ${date}`,
+        times: (count: number) => ` (${plural(count, 'time')})`,
+        occurrences: (count: number) => `(${plural(count, 'occurrence')})`,
+    },
+
+    rules: {
+        conflict: 'The booking conflicts with another one. Please choose a different time.',
+        outsideWorkingHours: "The selected time is outside the hall's working hours.",
+        blackout: (reason: string) => `Bookings are not accepted on this day: ${reason}`,
+        blockedDates: (dates: string) => `Bookings are not accepted on these holiday or blackout days: ${dates}`,
+        conflictDates: (dates: string) => `The booking conflicts with other bookings on: ${dates}`,
+        outsideHoursDates: (dates: string) => `The selected time is outside the hall's working hours on: ${dates}`,
+        hallUnknown: 'The selected hall does not exist.',
+        hallInactive: 'The selected hall is not open for booking.',
+    },
+
+    history: {
+        title: 'Change history',
+        empty: 'There is no history for this booking.',
+        allActions: 'All actions',
+        allUsers: 'All users',
+        allHalls: 'All halls',
+        action: 'Action',
+        user: 'User',
+        bookingDate: 'Booking date',
+        details: 'Details',
+        searchPlaceholder: 'Search department or notes',
+        clearFilters: 'Clear filters',
+        noMatches: 'No matching entries.',
+        restore: 'Restore',
+        restoreFailed: 'Could not restore the booking.',
+        change: (field: string, before: string, after: string) => `${field}: from ${before} to ${after}`,
+    },
+
+    approvals: {
+        title: 'Requests awaiting approval',
+        empty: 'There are no requests awaiting approval.',
+        requester: 'Requested by',
+        rejectReason: 'Rejection reason',
+        rejectReasonRequired: 'Please enter a reason for the rejection.',
+        approve: 'Approve',
+        reject: 'Reject',
+    },
+
+    users: {
+        title: 'Manage users',
+        displayName: 'Display name',
+        role: 'Role',
+        active: 'Active',
+        inactive: 'Suspended',
+        activeAccount: 'Active account',
+        editTitle: 'Edit user',
+        addTitle: 'Add a new user',
+        password: 'Password',
+        newPassword: 'New password (optional)',
+        addSubmit: 'Add user',
+        nameRequired: 'Please enter the username and display name.',
+        cannotDemoteSelf: 'You cannot remove the administrator role from your own account or suspend it.',
+        usernameTaken: 'This username is already taken.',
+        passwordRequired: 'Please enter a password.',
+    },
+
+    halls: {
+        title: 'Manage halls',
+        nameAr: 'Arabic name',
+        nameEn: 'English name',
+        capacity: 'Capacity',
+        capacityLabel: 'Capacity (people)',
+        location: 'Location',
+        locationPlaceholder: 'e.g. Third floor',
+        equipment: 'Equipment',
+        equipmentPlaceholder: 'Separate items with commas, e.g. Projector, Whiteboard',
+        workingHours: 'Working hours',
+        openTime: 'Opening time',
+        closeTime: 'Closing time',
+        slotMinutes: 'Slot length (minutes)',
+        available: 'Available',
+        suspended: 'Suspended',
+        requiresApprovalBadge: 'Requires approval',
+        deactivate: 'Suspend',
+        reactivate: 'Reactivate',
+        editTitle: 'Edit hall',
+        addTitle: 'Add a new hall',
+        addSubmit: 'Add hall',
+        weekend: ' (weekend)',
+        weekdayHours: (weekday: string) => `${weekday} hours`,
+        defaultHours: 'Default hours',
+        closedWeekend: 'Closed (weekend)',
+        customHours: 'Custom hours',
+        closed: 'Closed',
+        activeLabel: 'Open for bookings',
+        requiresApprovalLabel: 'Bookings require approval',
+        nameRequired: 'Please enter the hall name.',
+        capacityInvalid: 'The capacity must be a positive number.',
+        closeBeforeOpen: 'The closing time must be after the opening time.',
+        invalidWeekdayHours: (weekday: string) => `The ${weekday} hours are not valid.`,
+        invalidHours: 'The working hours are invalid.',
+        slotMinutesInvalid: 'This slot length is not supported.',
+    },
+
+    blackouts: {
+        title: 'Holidays and blackout periods',
+        period: 'Period',
+        reason: 'Reason',
+        empty: 'There are no holidays or blackout periods.',
+        editTitle: 'Edit period',
+        addTitle: 'Add a holiday or blackout period',
+        startDate: 'From date',
+        endDate: 'To date',
+        reasonPlaceholder: 'e.g. National Day, maintenance',
+        invalidPeriod: 'The blackout period is not valid.',
+        reasonRequired: 'Please enter a reason.',
+        confirmDelete: (reason: string) => `Delete "${reason}"?`,
+        importTitle: 'Import from a calendar file (.ics)',
+        importHint: 'Each event in the file is added as a blackout period with its name, for example a list of public holidays.',
+        importEmpty: 'No events were found in the file.',
+        imported: (count: number, skipped: number) => `Imported ${plural(count, 'holiday or blackout', 'holidays and blackouts')}${skipped ? `, skipped ${skipped} already listed` : ''}.`,
+        defaultReason: 'Holiday',
+    },
+
+    departments: {
+        title: 'Department registry',
+        code: 'Code',
+        nameAr: 'Arabic name',
+        nameEn: 'English name',
+        contact: 'Contact',
+        contactName: 'Contact name',
+        contactEmail: 'Email',
+        active: 'Active',
+        inactive: 'Retired',
+        activeLabel: 'Available for new bookings',
+        deactivate: 'Retire',
+        reactivate: 'Reactivate',
+        editTitle: 'Edit department',
+        addTitle: 'Add a new department',
+        addSubmit: 'Add department',
+        codeRequired: 'Please enter the department code.',
+        nameRequired: 'Please enter the Arabic department name.',
+        codeTaken: 'The department code is already in use.',
+        // Linking free-text bookings to the registry
+        migrationTitle: 'Link earlier bookings to departments',
+        migrationHint: 'Bookings whose department was typed as free text. Choose the matching department for each spelling and link them; a department is suggested when the name or code matches.',
+        migrationEmpty: 'All bookings are linked to registry departments.',
+        writtenAs: 'As written',
+        bookingCount: 'Bookings',
+        linkTo: 'Department',
+        chooseDepartment: '— Choose —',
+        addFromText: 'Add as a new department',
+        migrate: 'Link bookings',
+        migrated: (count: number) => `Linked ${plural(count, 'booking', 'bookings')} to departments.`,
+        migrationFailed: (count: number) => `Could not link ${plural(count, 'booking', 'bookings')}; open and edit them manually.`,
+    },
+
+    reports: {
+        title: 'Utilization reports',
+        hallsLegend: 'Halls',
+        selectAll: 'Select all',
+        deselectAll: 'Clear selection',
+        invalidRange: 'Please choose a valid period.',
+        noData: 'The selected halls have no working hours in this period.',
+        noBookings: 'There are no bookings in this period.',
+        occupancy: 'Occupancy',
+        bookedHours: 'Booked hours',
+        availableHours: 'Available hours',
+        bookings: 'Bookings',
+        bookingCount: (count: number) => plural(count, 'booking'),
+        byHall: 'Occupancy by hall',
+        peakHours: 'Peak hours',
+        peakWeekdays: 'Peak weekdays',
+        topDepartments: 'Top departments by hours',
+        monthlyTrend: 'Monthly trend',
+        month: 'Month',
+        percent: (value: string) => `${value}%`,
+        hours: (value: string) => `${value} h`,
+        export: 'Export numbers to Excel',
+        fileName: (period: string) => `Utilization report - ${period}`,
+        sheets: {
+            summary: 'Summary',
+            halls: 'Halls',
+            slots: 'Times',
+            weekdays: 'Weekdays',
+            departments: 'Departments',
+            months: 'Months',
+        },
+    },
+
+    settings: {
+        title: 'Calendar and work week settings',
+        firstDayOfWeek: 'First day of the week',
+        weekendDays: 'Weekend days',
+        closedOnWeekends: 'Close halls on weekends',
+        closedOnWeekendsHint: "A hall can still open on a weekend day, or for part of it (such as half a Friday), through its own working hours under Manage halls.",
+        showHijriDates: 'Show Hijri (Umm al-Qura) dates next to Gregorian dates',
+        showHijriDatesHint: 'Adds a Hijri date column to the schedule and Excel files, and lets the schedule be browsed by Hijri month.',
+        allWeekend: 'Not every day of the week can be a weekend day.',
+        saved: 'Settings saved.',
+        submit: 'Save settings',
+        invalid: 'The work week settings are invalid.',
+    },
+
+    export: {
+        title: 'Export to Excel',
+        hallsLegend: 'Halls (one sheet per hall)',
+        selectAll: 'Select all',
+        deselectAll: 'Clear selection',
+        period: 'Period',
+        ranges: { month: 'Month', hijriMonth: 'Hijri month', quarter: 'Quarter', year: 'Year', custom: 'Custom range' },
+        year: 'Year',
+        month: 'Month',
+        quarter: 'Quarter',
+        hijriYear: 'Hijri year',
+        hijriMonth: 'Hijri month',
+        layout: 'Layout',
+        gridLayout: 'Timetable (one day per row)',
+        listLayout: 'List (one booking per row)',
+        includeSummary: 'Add a summary sheet (bookings per hall and department)',
+        includeHijri: 'Add a Hijri date column',
+        invalidRange: 'Please choose a valid period.',
+        noHallSelected: 'Please choose at least one hall.',
+        submit: 'Export',
+    },
+
+    excel: {
+        headers: {
+            index: '#',
+            weekday: 'Day',
+            date: 'Date',
+            hijriDate: 'Hijri date',
+            timeRange: 'From / To',
+            notes: 'Notes',
+        },
+        columns: {
+            hall: 'Hall',
+            date: 'Date',
+            time: 'Start',
+            endTime: 'End',
+            department: 'Department',
+            notes: 'Notes',
+        },
+        sheetTitle: (hall: string, period: string) => `${hall} bookings - ${period}`,
+        hallSheetName: (hall: string) => `${hall} bookings`,
+        summarySheetName: 'Summary',
+        summaryTitle: (period: string) => `Booking summary - ${period}`,
+        total: 'Total',
+        fileName: (hall: string, period: string) => `Bookings_${hall}_${period}`,
+        allHalls: 'All_halls',
+    },
+
+    import: {
+        title: 'Import bookings',
+        hint: 'An Excel file in the export layout, or a CSV/Excel file with the columns Hall, Date, Start, End, Department and Notes.',
+        file: 'File',
+        fallbackHall: 'Hall to use when the file does not name one',
+        ready: (valid: number, total: number) => `${valid} of ${plural(total, 'booking')} ready to import`,
+        sheetRow: 'Sheet / row',
+        validation: 'Check',
+        submit: (count: number) => `Import ${plural(count, 'booking')}`,
+        readFailed: 'The file could not be read.',
+        missingColumns: 'Required columns are missing: Hall, Date, Start, End, Department.',
+        hallNotFound: (hall: string) => `The hall "${hall}" does not exist.`,
+        invalidDate: 'The date is not valid.',
+        invalidTime: 'The time is not valid.',
+        missingDepartment: 'The department name is missing.',
+        unknownDepartment: (department: string) => `The department "${department}" is not in the department registry.`,
+        unknownFormat: 'The sheet layout was not recognised.',
+        unknownHall: 'The hall could not be determined from the sheet title; please choose it.',
+        notesOnFirstBooking: "The day's notes were assigned to its first booking.",
+        hallInactive: 'The hall is not open for bookings.',
+        endBeforeStart: 'The end time must be after the start time.',
+        duplicate: 'The booking already exists.',
+        conflictsWith: (department: string, time: string, endTime: string) => `Conflicts with the ${department} booking (${time} - ${endTime}).`,
+        conflictsWithRow: (row: number, sheet: string) => `Conflicts with row ${row} of sheet ${sheet}.`,
+    },
+
+    print: {
+        layout: 'Layout',
+        monthLayout: 'Monthly timetable',
+        doorSignLayout: 'Door sign (one day)',
+        day: 'Day',
+        paper: 'Paper size',
+        print: 'Print / Save as PDF',
+        back: 'Back',
+        scheduleTitle: (hall: string) => `${hall} bookings`,
+        hallClosed: (reason: string) => `Hall closed: ${reason}`,
+        noBookings: 'No bookings on this day',
+    },
+
+    icalendar: {
+        bookingFileName: (hall: string, date: string) => `Booking_${hall}_${date}`,
+        hallFileName: (hall: string, period: string) => `Bookings_${hall}_${period}`,
+        calendarName: (hall: string) => `${hall} bookings`,
+    },
+
+    http: {
+        connectionFailed: (status: number) => `Could not reach the server (${status}).`,
+        signInRequired: 'Please sign in to continue.',
+        forbidden: 'You do not have permission to do this.',
+        invalidBody: 'The request body is not valid JSON.',
+    },
+
+    notFound: {
+        item: 'The item was not found.',
+        hall: 'The hall was not found.',
+        booking: 'The booking was not found.',
+        blackout: 'The blackout period was not found.',
+        department: 'The department was not found.',
+        user: 'The user was not found.',
+    },
+};
@@ -0,0 +1,40 @@
+import { ar } from './ar';
+import { en } from './en';
+
+export type Locale = 'ar' | 'en';
+export type Messages = typeof ar;
+
+export const DEFAULT_LOCALE: Locale = 'ar';
+
+const catalogues: Record<Locale, Messages> = { ar, en };
+
+export const LOCALES = Object.keys(catalogues) as Locale[];
+
+export const isLocale = (value: unknown): value is Locale =>
+    LOCALES.includes(value as Locale);
+
+export const localeDirection = (locale: Locale): 'rtl' | 'ltr' => locale === 'ar' ? 'rtl' : 'ltr';
+
+// The locale of modules outside React (validation rules, the importer, the
+// Excel export). The LocaleContext keeps it in step with the UI; the API
+// server never changes it and answers in Arabic.
+let activeLocale: Locale = DEFAULT_LOCALE;
+
+export const setActiveLocale = (locale: Locale) => {
+    activeLocale = locale;
+};
+
+export const getActiveLocale = (): Locale => activeLocale;
+
+export const messages = (locale: Locale = activeLocale): Messages => catalogues[locale];
+
+// Every locale's label for the same key, e.g. to recognise headers written in any language
+export const allLabels = (pick: (messages: Messages) => string): string[] =>
+    LOCALES.map(locale => pick(catalogues[locale]));
+
+// Halls and departments carry an Arabic name and an optional English one
+export const localizedName = (item: { nameAr: string; nameEn: string }, locale: Locale = activeLocale): string =>
+    locale === 'en' && item.nameEn ? item.nameEn : item.nameAr;
+
+export const formatNumber = (value: number, locale: Locale = activeLocale): string =>
+    new Intl.NumberFormat(catalogues[locale].intlLocale).format(value);
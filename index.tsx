@@ -2,6 +2,9 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { AuthContextProvider } from './contexts/AuthContext';
+import { SettingsContextProvider } from './contexts/SettingsContext';
+import { LocaleContextProvider } from './contexts/LocaleContext';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -11,6 +14,12 @@ if (!rootElement) {
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
-    <App />
+    <LocaleContextProvider>
+      <AuthContextProvider>
+        <SettingsContextProvider>
+          <App />
+        </SettingsContextProvider>
+      </AuthContextProvider>
+    </LocaleContextProvider>
   </React.StrictMode>
 );
@@ -0,0 +1,720 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import { pbkdf2, randomBytes, randomUUID, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import { AuditAction, AuditEntry, Blackout, Booking, BookingStatus, Department, Hall, OrganizationSettings, HallSchedule, RecurrenceRule, StoredUser, User, WorkingHours } from '../types';
+import { BOOKING_SERVICES, BOOKING_STATUSES, DEFAULT_HALL_SCHEDULE, SEATING_LAYOUTS, DEFAULT_SETTINGS, PASSWORD_HASH_ITERATIONS, SLOT_MINUTES_OPTIONS, USER_ROLES } from '../constants';
+import { blackoutMessage, findBlackout, findConflictingBooking, holdsSlot } from '../utils/bookingRules';
+import { messages } from '../i18n';
+import { getHallSchedule, isWithinWorkingHours } from '../utils/timeSlots';
+import { parseYYYYMMDD } from '../utils/dateUtils';
+import { EMAIL_PATTERN, exceedsCapacity } from '../utils/bookingRequirements';
+import { buildCalendar } from '../utils/icalendar';
+import { inferUpdateAction } from '../utils/auditTrail';
+import { applyWorkWeek } from '../utils/workWeek';
+import { canApprove, canModifyBooking, getInitialStatus, getStatusAfterEdit, isAdmin } from '../utils/permissions';
+import { Database, FileStore } from './store';
+
+type Next = (err?: unknown) => void;
+
+class HttpError extends Error {
+    constructor(public status: number, message: string) {
+        super(message);
+    }
+}
+
+const sendJson = (res: ServerResponse, status: number, body?: unknown) => {
+    res.statusCode = status;
+    if (body === undefined) {
+        res.end();
+        return;
+    }
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.end(JSON.stringify(body));
+};
+
+const readBody = (req: IncomingMessage): Promise<any> => new Promise((resolve, reject) => {
+    let raw = '';
+    req.setEncoding('utf-8');
+    req.on('data', chunk => { raw += chunk; });
+    req.on('end', () => {
+        if (!raw) {
+            resolve({});
+            return;
+        }
+        try {
+            resolve(JSON.parse(raw));
+        } catch {
+            reject(new HttpError(400, messages().http.invalidBody));
+        }
+    });
+    req.on('error', reject);
+});
+
+const TIME_PATTERN = /^\d{2}:\d{2}$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const validateWorkingHours = (input: any): WorkingHours => {
+    if (!input || !TIME_PATTERN.test(input.openTime) || !TIME_PATTERN.test(input.closeTime) || input.closeTime <= input.openTime) {
+        throw new HttpError(400, messages().halls.invalidHours);
+    }
+    return { openTime: input.openTime, closeTime: input.closeTime };
+};
+
+const validateSchedule = (input: any): HallSchedule => {
+    if (!input) {
+        return DEFAULT_HALL_SCHEDULE;
+    }
+    if (!SLOT_MINUTES_OPTIONS.includes(input.slotMinutes)) {
+        throw new HttpError(400, messages().halls.slotMinutesInvalid);
+    }
+    const weekdayOverrides: HallSchedule['weekdayOverrides'] = {};
+    for (const [weekday, hours] of Object.entries(input.weekdayOverrides || {})) {
+        const day = Number(weekday);
+        if (Number.isInteger(day) && day >= 0 && day <= 6) {
+            weekdayOverrides[day] = hours === null ? null : validateWorkingHours(hours);
+        }
+    }
+    return { ...validateWorkingHours(input), slotMinutes: input.slotMinutes, weekdayOverrides };
+};
+
+const validateHall = (input: any): Omit<Hall, 'id'> => {
+    const hall = {
+        nameAr: typeof input.nameAr === 'string' ? input.nameAr.trim() : '',
+        nameEn: typeof input.nameEn === 'string' ? input.nameEn.trim() : '',
+        capacity: Number(input.capacity) || 0,
+        location: typeof input.location === 'string' ? input.location.trim() : '',
+        equipment: Array.isArray(input.equipment) ? input.equipment.filter((e: unknown) => typeof e === 'string') : [],
+        active: input.active !== false,
+        schedule: validateSchedule(input.schedule),
+        requiresApproval: input.requiresApproval === true,
+    };
+    if (!hall.nameAr) {
+        throw new HttpError(400, messages().halls.nameRequired);
+    }
+    if (hall.capacity < 0) {
+        throw new HttpError(400, messages().halls.capacityInvalid);
+    }
+    return hall;
+};
+
+const validateRecurrence = (input: any): RecurrenceRule | undefined => {
+    if (!input) {
+        return undefined;
+    }
+    if (!['daily', 'weekly', 'monthly'].includes(input.frequency)) {
+        throw new HttpError(400, messages().booking.errors.recurrenceInvalid);
+    }
+    const isDateList = (value: unknown) => Array.isArray(value) && value.every(d => DATE_PATTERN.test(d));
+    return {
+        frequency: input.frequency,
+        interval: Math.max(1, Number(input.interval) || 1),
+        weekdays: Array.isArray(input.weekdays) ? input.weekdays.filter((d: unknown) => Number.isInteger(d) && (d as number) >= 0 && (d as number) <= 6) : undefined,
+        monthlyWeek: Number.isInteger(input.monthlyWeek) ? input.monthlyWeek : undefined,
+        until: DATE_PATTERN.test(input.until) ? input.until : undefined,
+        count: Number.isInteger(input.count) && input.count > 0 ? input.count : undefined,
+        exceptions: isDateList(input.exceptions) ? input.exceptions : undefined,
+    };
+};
+
+const optionalString = (value: unknown): string | undefined =>
+    typeof value === 'string' && value ? value : undefined;
+
+// Checks a booking taking its slot against the hall's availability. `kept` is the
+// booking as already stored: retiring its hall or blacking out its day later
+// does not stop it being edited in place.
+const assertBookable = (booking: Omit<Booking, 'id'>, hall: Hall, db: Database, kept?: Booking) => {
+    if (!hall.active && kept?.hallId !== hall.id) {
+        throw new HttpError(400, messages().rules.hallInactive);
+    }
+    if (!isWithinWorkingHours(getHallSchedule(applyWorkWeek(hall, db.settings)), parseYYYYMMDD(booking.date), booking.time, booking.endTime)) {
+        throw new HttpError(400, messages().rules.outsideWorkingHours);
+    }
+    const blackout = findBlackout(db.blackouts, hall.id, booking.date);
+    if (blackout && holdsSlot(booking) && !(kept?.hallId === hall.id && kept.date === booking.date)) {
+        throw new HttpError(400, blackoutMessage(blackout));
+    }
+};
+
+const validateBooking = (input: any, db: Database, actor: User, existing?: Booking): Omit<Booking, 'id'> => {
+    const { halls, departments } = db;
+    const now = new Date().toISOString();
+    // Admins may write on someone else's behalf (a regenerated series, an undone delete)
+    const onBehalf = isAdmin(actor) && !existing;
+    const booking: Omit<Booking, 'id'> = {
+        hallId: input.hallId,
+        date: input.date,
+        time: input.time,
+        endTime: input.endTime,
+        department: typeof input.department === 'string' ? input.department.trim() : '',
+        departmentId: optionalString(input.departmentId),
+        notes: typeof input.notes === 'string' ? input.notes : '',
+        attendees: input.attendees === undefined || input.attendees === null ? undefined : input.attendees,
+        services: Array.isArray(input.services) ? BOOKING_SERVICES.filter(service => input.services.includes(service)) : undefined,
+        seatingLayout: SEATING_LAYOUTS.includes(input.seatingLayout) ? input.seatingLayout : undefined,
+        organizerName: optionalString(input.organizerName),
+        organizerPhone: optionalString(input.organizerPhone),
+        organizerEmail: optionalString(input.organizerEmail),
+        seriesId: typeof input.seriesId === 'string' ? input.seriesId : undefined,
+        recurrence: validateRecurrence(input.recurrence),
+        // Set below from the hall and the user; status fields sent by the client are ignored
+        status: existing?.status,
+        statusBy: existing?.statusBy,
+        statusAt: existing?.statusAt,
+        statusNote: existing?.statusNote,
+        // Ownership cannot be reassigned once set; the editor is whoever is signed in
+        createdBy: existing ? existing.createdBy : (onBehalf && optionalString(input.createdBy)) || actor.id,
+        createdAt: existing ? existing.createdAt : (onBehalf && optionalString(input.createdAt)) || now,
+        updatedBy: existing ? actor.id : undefined,
+        updatedAt: existing ? now : undefined,
+    };
+    const hall = halls.find(h => h.id === booking.hallId);
+    if (!hall) {
+        throw new HttpError(400, messages().rules.hallUnknown);
+    }
+    if (!DATE_PATTERN.test(booking.date) || !TIME_PATTERN.test(booking.time) || !TIME_PATTERN.test(booking.endTime)) {
+        throw new HttpError(400, messages().booking.errors.dateTimeInvalid);
+    }
+    // Requests in approval-only halls wait for an approver; decisions go through the status endpoint
+    const status = existing ? getStatusAfterEdit(existing, booking, hall, actor) : getInitialStatus(hall, actor);
+    if (!existing || status !== existing.status) {
+        booking.status = status;
+        booking.statusBy = actor.id;
+        booking.statusAt = now;
+        booking.statusNote = undefined;
+    }
+    if (!booking.department) {
+        throw new HttpError(400, messages().booking.errors.departmentRequired);
+    }
+    // Bookings made before the registry keep their free-text department until linked
+    if (booking.departmentId) {
+        const department = departments.find(d => d.id === booking.departmentId);
+        if (!department || (!department.active && existing?.departmentId !== department.id)) {
+            throw new HttpError(400, messages().booking.errors.departmentInactive);
+        }
+    }
+    if (booking.endTime <= booking.time) {
+        throw new HttpError(400, messages().booking.errors.endBeforeStart);
+    }
+    if (booking.attendees !== undefined && !(Number.isInteger(booking.attendees) && booking.attendees > 0)) {
+        throw new HttpError(400, messages().booking.errors.attendeesInvalid);
+    }
+    // A hall whose capacity was lowered later does not block edits that keep the same audience
+    if (exceedsCapacity(hall, booking.attendees) && !(existing?.hallId === hall.id && existing.attendees === booking.attendees)) {
+        throw new HttpError(400, messages().booking.errors.overCapacity(booking.attendees!, hall.capacity, hall.nameAr));
+    }
+    if (booking.organizerEmail && !EMAIL_PATTERN.test(booking.organizerEmail)) {
+        throw new HttpError(400, messages().booking.errors.organizerEmailInvalid);
+    }
+    assertBookable(booking, hall, db, existing);
+    return booking;
+};
+
+const isWeekday = (value: unknown): value is number => Number.isInteger(value) && (value as number) >= 0 && (value as number) <= 6;
+
+const validateSettings = (input: any): OrganizationSettings => {
+    const weekendDays = Array.isArray(input.weekendDays) ? input.weekendDays.filter(isWeekday) : [];
+    if (!isWeekday(input.firstDayOfWeek) || weekendDays.length === 7) {
+        throw new HttpError(400, messages().settings.invalid);
+    }
+    return {
+        weekendDays: [...new Set<number>(weekendDays)].sort(),
+        firstDayOfWeek: input.firstDayOfWeek,
+        closedOnWeekends: input.closedOnWeekends === true,
+        showHijriDates: input.showHijriDates === true,
+    };
+};
+
+const validateBlackout = (input: any, halls: Hall[]): Omit<Blackout, 'id'> => {
+    const blackout = {
+        hallId: optionalString(input.hallId),
+        startDate: input.startDate,
+        endDate: input.endDate,
+        reason: typeof input.reason === 'string' ? input.reason.trim() : '',
+    };
+    if (blackout.hallId && !halls.some(h => h.id === blackout.hallId)) {
+        throw new HttpError(400, messages().rules.hallUnknown);
+    }
+    if (!DATE_PATTERN.test(blackout.startDate) || !DATE_PATTERN.test(blackout.endDate) || blackout.endDate < blackout.startDate) {
+        throw new HttpError(400, messages().blackouts.invalidPeriod);
+    }
+    if (!blackout.reason) {
+        throw new HttpError(400, messages().blackouts.reasonRequired);
+    }
+    return blackout;
+};
+
+const validateDepartment = (input: any, departments: Department[], id?: string): Omit<Department, 'id'> => {
+    const trimmed = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+    const department = {
+        code: trimmed(input.code),
+        nameAr: trimmed(input.nameAr),
+        nameEn: trimmed(input.nameEn),
+        contactName: trimmed(input.contactName),
+        contactEmail: trimmed(input.contactEmail),
+        active: input.active !== false,
+    };
+    if (!department.code) {
+        throw new HttpError(400, messages().departments.codeRequired);
+    }
+    if (!department.nameAr) {
+        throw new HttpError(400, messages().departments.nameRequired);
+    }
+    if (departments.some(d => d.id !== id && d.code.toLowerCase() === department.code.toLowerCase())) {
+        throw new HttpError(409, messages().departments.codeTaken);
+    }
+    return department;
+};
+
+// Booking writes append their own entry in the same store write, so the log
+// cannot miss a change or record one that failed
+const auditEntry = (user: User, action: AuditAction, bookingId: string, before?: Booking, after?: Booking): AuditEntry =>
+    ({ id: randomUUID(), bookingId, action, userId: user.id, timestamp: new Date().toISOString(), before, after });
+
+const derivePassword = promisify(pbkdf2);
+
+// PBKDF2-SHA256 with a per-account salt, matching the browser's local provider
+const hashPassword = async (password: string, salt: string): Promise<Buffer> =>
+    derivePassword(password, salt, PASSWORD_HASH_ITERATIONS, 32, 'sha256');
+
+const createPasswordHash = async (password: string): Promise<Pick<StoredUser, 'passwordHash' | 'passwordSalt'>> => {
+    const passwordSalt = randomBytes(16).toString('hex');
+    return { passwordHash: (await hashPassword(password, passwordSalt)).toString('hex'), passwordSalt };
+};
+
+const checkPassword = async (account: StoredUser, password: unknown): Promise<boolean> => {
+    if (typeof password !== 'string' || !account.passwordSalt) {
+        return false;
+    }
+    const expected = Buffer.from(account.passwordHash, 'hex');
+    const actual = await hashPassword(password, account.passwordSalt);
+    return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+const toUser = ({ passwordHash, passwordSalt, ...user }: StoredUser): User => user;
+
+const validateUser = (input: any, users: StoredUser[], id?: string): Omit<User, 'id'> => {
+    const user = {
+        username: typeof input.username === 'string' ? input.username.trim().toLowerCase() : '',
+        displayName: typeof input.displayName === 'string' ? input.displayName.trim() : '',
+        role: USER_ROLES.includes(input.role) ? input.role : 'requester',
+        active: input.active !== false,
+    };
+    if (!user.username || !user.displayName) {
+        throw new HttpError(400, messages().users.nameRequired);
+    }
+    if (users.some(u => u.id !== id && u.username === user.username)) {
+        throw new HttpError(409, messages().users.usernameTaken);
+    }
+    return user;
+};
+
+const bearerToken = (req: IncomingMessage): string | undefined =>
+    /^Bearer (\S+)$/.exec(req.headers.authorization || '')?.[1];
+
+// Approvers decide on requests; owners cancel or resubmit their own, and may
+// approve them only where their bookings need no approval anyway
+const canSetStatus = (user: User, booking: Booking, status: BookingStatus, hall: Hall | undefined): boolean => {
+    switch (status) {
+        case 'rejected': return canApprove(user);
+        case 'approved': return canApprove(user) || (canModifyBooking(user, booking) && getInitialStatus(hall, user) === 'approved');
+        case 'pending':
+        case 'cancelled': return canModifyBooking(user, booking);
+    }
+};
+
+const assertNoConflict = (bookings: Booking[], candidate: Omit<Booking, 'id'>, ignoreId?: string) => {
+    if (findConflictingBooking(bookings, candidate, ignoreId)) {
+        throw new HttpError(409, messages().rules.conflict);
+    }
+};
+
+// Connect-style middleware so the same handler can be mounted on the Vite
+// dev server and on the standalone Node server.
+export const createApiMiddleware = (store: FileStore) => {
+    // Session token to user id; signing in again after a restart is enough
+    const sessions = new Map<string, string>();
+
+    return async (req: IncomingMessage, res: ServerResponse, next?: Next) => {
+        const url = new URL(req.url || '/', 'http://localhost');
+        const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+        if (segments[0] !== 'api') {
+            if (next) {
+                next();
+            } else {
+                sendJson(res, 404, { error: 'Not found' });
+            }
+            return;
+        }
+
+        try {
+            const [, resource, id, action] = segments;
+            const method = req.method || 'GET';
+            const token = bearerToken(req);
+            const sessionUserId = token && sessions.get(token);
+            const account = sessionUserId ? store.read().users.find(u => u.id === sessionUserId && u.active) : undefined;
+            const user = account ? toUser(account) : null;
+
+            if (resource === 'session' && !id) {
+                if (method === 'GET') {
+                    sendJson(res, 200, user);
+                    return;
+                }
+                if (method === 'POST') {
+                    const { username, password } = await readBody(req);
+                    const found = store.read().users.find(u => typeof username === 'string' && u.username === username.trim().toLowerCase());
+                    if (!found || !found.active || !(await checkPassword(found, password))) {
+                        throw new HttpError(401, messages().login.invalidCredentials);
+                    }
+                    const issued = randomBytes(32).toString('hex');
+                    sessions.set(issued, found.id);
+                    sendJson(res, 201, { token: issued, user: toUser(found) });
+                    return;
+                }
+                // Own password; the only change allowed while `mustChangePassword` is set
+                if (method === 'PUT') {
+                    if (!account) {
+                        throw new HttpError(401, messages().http.signInRequired);
+                    }
+                    const { currentPassword, password } = await readBody(req);
+                    if (!(await checkPassword(account, currentPassword))) {
+                        throw new HttpError(400, messages().login.currentPasswordWrong);
+                    }
+                    if (typeof password !== 'string' || !password) {
+                        throw new HttpError(400, messages().users.passwordRequired);
+                    }
+                    if (password === currentPassword) {
+                        throw new HttpError(400, messages().login.passwordUnchanged);
+                    }
+                    const updated: StoredUser = { ...account, ...await createPasswordHash(password), mustChangePassword: false };
+                    store.write(db => ({ ...db, users: db.users.map(u => u.id === updated.id ? updated : u) }));
+                    sendJson(res, 200, toUser(updated));
+                    return;
+                }
+                if (method === 'DELETE') {
+                    if (token) {
+                        sessions.delete(token);
+                    }
+                    sendJson(res, 204);
+                    return;
+                }
+            }
+
+            // Read-only iCalendar feed of a hall's bookings; public so calendar apps can subscribe
+            if (resource === 'calendar' && id && id.endsWith('.ics') && method === 'GET') {
+                const { halls, bookings } = store.read();
+                const hall = halls.find(h => h.id === id.slice(0, -'.ics'.length));
+                if (!hall) {
+                    throw new HttpError(404, messages().notFound.hall);
+                }
+                const hallBookings = bookings.filter(b => b.hallId === hall.id && holdsSlot(b));
+                res.statusCode = 200;
+                res.setHeader('Content-Type', 'text/calendar; charset=utf-8');
+                res.end(buildCalendar(hallBookings, halls, messages().icalendar.calendarName(hall.nameAr)));
+                return;
+            }
+
+            // Everything else needs a signed-in user
+            if (!user) {
+                throw new HttpError(401, messages().http.signInRequired);
+            }
+            if (user.mustChangePassword) {
+                throw new HttpError(403, messages().login.passwordChangeRequired);
+            }
+            const isWrite = method !== 'GET';
+            const requireAdmin = () => {
+                if (!isAdmin(user)) {
+                    throw new HttpError(403, messages().http.forbidden);
+                }
+            };
+
+            if (resource === 'users') {
+                const { users } = store.read();
+
+                if (!id && method === 'GET') {
+                    sendJson(res, 200, users.map(toUser));
+                    return;
+                }
+
+                requireAdmin();
+
+                if (!id && method === 'POST') {
+                    const body = await readBody(req);
+                    if (typeof body.password !== 'string' || !body.password) {
+                        throw new HttpError(400, messages().users.passwordRequired);
+                    }
+                    const created: StoredUser = { ...validateUser(body, store.read().users), id: randomUUID(), ...await createPasswordHash(body.password) };
+                    store.write(db => ({ ...db, users: [...db.users, created] }));
+                    sendJson(res, 201, toUser(created));
+                    return;
+                }
+
+                if (id && (method === 'PUT' || method === 'PATCH')) {
+                    const existing = users.find(u => u.id === id);
+                    if (!existing) {
+                        throw new HttpError(404, messages().notFound.user);
+                    }
+                    const body = await readBody(req);
+                    const changes = validateUser({ ...toUser(existing), ...body }, store.read().users, id);
+                    // Admins cannot lock themselves out
+                    if (id === user.id && (changes.role !== 'admin' || !changes.active)) {
+                        throw new HttpError(400, messages().users.cannotDemoteSelf);
+                    }
+                    const password = typeof body.password === 'string' && body.password
+                        ? await createPasswordHash(body.password)
+                        : { passwordHash: existing.passwordHash, passwordSalt: existing.passwordSalt };
+                    const updated: StoredUser = { ...changes, id, mustChangePassword: existing.mustChangePassword, ...password };
+                    store.write(db => ({ ...db, users: db.users.map(u => u.id === id ? updated : u) }));
+                    sendJson(res, 200, toUser(updated));
+                    return;
+                }
+            }
+
+            // Halls, blackouts, departments and settings are managed by admins
+            if (isWrite && ['halls', 'blackouts', 'departments', 'settings'].includes(resource)) {
+                requireAdmin();
+            }
+
+            if (resource === 'halls') {
+                const { halls } = store.read();
+
+                if (!id && method === 'GET') {
+                    sendJson(res, 200, halls);
+                    return;
+                }
+
+                if (!id && method === 'POST') {
+                    const created: Hall = { ...validateHall(await readBody(req)), id: randomUUID() };
+                    store.write(db => ({ ...db, halls: [...db.halls, created] }));
+                    sendJson(res, 201, created);
+                    return;
+                }
+
+                if (id) {
+                    const existing = halls.find(h => h.id === id);
+                    if (!existing) {
+                        throw new HttpError(404, messages().notFound.hall);
+                    }
+
+                    if (method === 'GET') {
+                        sendJson(res, 200, existing);
+                        return;
+                    }
+
+                    // Halls are retired (active: false) rather than deleted so that
+                    // their booking history keeps resolving.
+                    if (method === 'PUT' || method === 'PATCH') {
+                        const updated: Hall = { ...validateHall({ ...existing, ...(await readBody(req)) }), id };
+                        store.write(db => ({ ...db, halls: db.halls.map(h => h.id === id ? updated : h) }));
+                        sendJson(res, 200, updated);
+                        return;
+                    }
+                }
+            }
+
+            if (resource === 'bookings') {
+                const { bookings } = store.read();
+
+                if (!id && method === 'GET') {
+                    sendJson(res, 200, bookings);
+                    return;
+                }
+
+                if (!id && method === 'POST') {
+                    const input = validateBooking(await readBody(req), store.read(), user);
+                    // Re-read after awaiting the body so the check sees the latest state
+                    assertNoConflict(store.read().bookings, input);
+                    const created: Booking = { ...input, id: randomUUID() };
+                    store.write(db => ({ ...db, bookings: [...db.bookings, created], audit: [...db.audit, auditEntry(user, 'create', created.id, undefined, created)] }));
+                    sendJson(res, 201, created);
+                    return;
+                }
+
+                // Re-creates a deleted booking under a new id, from the snapshot its deletion logged
+                if (id && action === 'restore' && method === 'POST') {
+                    const deleted = [...store.read().audit].reverse().find(e => e.action === 'delete' && e.bookingId === id)?.before;
+                    if (!deleted || bookings.some(b => b.id === id)) {
+                        throw new HttpError(404, messages().notFound.booking);
+                    }
+                    if (!canModifyBooking(user, deleted)) {
+                        throw new HttpError(403, messages().app.notAllowed);
+                    }
+                    const input = validateBooking(await readBody(req), store.read(), user);
+                    assertNoConflict(store.read().bookings, input);
+                    const restored: Booking = { ...input, id: randomUUID() };
+                    store.write(db => ({ ...db, bookings: [...db.bookings, restored], audit: [...db.audit, auditEntry(user, 'restore', restored.id, deleted, restored)] }));
+                    sendJson(res, 201, restored);
+                    return;
+                }
+
+                if (id) {
+                    const existing = bookings.find(b => b.id === id);
+                    if (!existing) {
+                        throw new HttpError(404, messages().notFound.booking);
+                    }
+
+                    if (method === 'GET') {
+                        sendJson(res, 200, existing);
+                        return;
+                    }
+
+                    if (action === 'status' && method === 'POST') {
+                        const { status, note } = await readBody(req);
+                        if (!BOOKING_STATUSES.includes(status)) {
+                            throw new HttpError(400, messages().booking.errors.statusInvalid);
+                        }
+                        if (!canSetStatus(user, existing, status, store.read().halls.find(h => h.id === existing.hallId))) {
+                            throw new HttpError(403, messages().http.forbidden);
+                        }
+                        const updated: Booking = { ...existing, status, statusBy: user.id, statusAt: new Date().toISOString(), statusNote: optionalString(note) };
+                        // A cancelled or rejected booking brought back is checked like a new one:
+                        // the hall, hours and blackouts may have changed while it was inactive
+                        if (holdsSlot(updated) && !holdsSlot(existing)) {
+                            const db = store.read();
+                            const hall = db.halls.find(h => h.id === existing.hallId);
+                            if (!hall) {
+                                throw new HttpError(400, messages().rules.hallUnknown);
+                            }
+                            assertBookable(updated, hall, db);
+                            assertNoConflict(db.bookings, updated, id);
+                        }
+                        store.write(db => ({
+                            ...db,
+                            bookings: db.bookings.map(b => b.id === id ? updated : b),
+                            audit: [...db.audit, auditEntry(user, inferUpdateAction(existing, updated), id, existing, updated)],
+                        }));
+                        sendJson(res, 200, updated);
+                        return;
+                    }
+
+                    if (method === 'PUT' || method === 'PATCH') {
+                        if (!canModifyBooking(user, existing)) {
+                            throw new HttpError(403, messages().app.notAllowed);
+                        }
+                        const input = validateBooking({ ...existing, ...(await readBody(req)) }, store.read(), user, existing);
+                        assertNoConflict(store.read().bookings, input, id);
+                        const updated: Booking = { ...input, id };
+                        store.write(db => ({
+                            ...db,
+                            bookings: db.bookings.map(b => b.id === id ? updated : b),
+                            audit: [...db.audit, auditEntry(user, inferUpdateAction(existing, updated), id, existing, updated)],
+                        }));
+                        sendJson(res, 200, updated);
+                        return;
+                    }
+
+                    if (method === 'DELETE') {
+                        if (!canModifyBooking(user, existing)) {
+                            throw new HttpError(403, messages().app.notAllowed);
+                        }
+                        store.write(db => ({ ...db, bookings: db.bookings.filter(b => b.id !== id), audit: [...db.audit, auditEntry(user, 'delete', id, existing)] }));
+                        sendJson(res, 204);
+                        return;
+                    }
+                }
+            }
+
+            if (resource === 'blackouts') {
+                const { blackouts } = store.read();
+
+                if (!id && method === 'GET') {
+                    sendJson(res, 200, blackouts);
+                    return;
+                }
+
+                if (!id && method === 'POST') {
+                    const created: Blackout = { ...validateBlackout(await readBody(req), store.read().halls), id: randomUUID() };
+                    store.write(db => ({ ...db, blackouts: [...db.blackouts, created] }));
+                    sendJson(res, 201, created);
+                    return;
+                }
+
+                if (id) {
+                    const existing = blackouts.find(b => b.id === id);
+                    if (!existing) {
+                        throw new HttpError(404, messages().notFound.blackout);
+                    }
+
+                    if (method === 'GET') {
+                        sendJson(res, 200, existing);
+                        return;
+                    }
+
+                    // Replaced as a whole, so a hall-specific blackout can be widened to every hall
+                    if (method === 'PUT' || method === 'PATCH') {
+                        const updated: Blackout = { ...validateBlackout(await readBody(req), store.read().halls), id };
+                        store.write(db => ({ ...db, blackouts: db.blackouts.map(b => b.id === id ? updated : b) }));
+                        sendJson(res, 200, updated);
+                        return;
+                    }
+
+                    if (method === 'DELETE') {
+                        store.write(db => ({ ...db, blackouts: db.blackouts.filter(b => b.id !== id) }));
+                        sendJson(res, 204);
+                        return;
+                    }
+                }
+            }
+
+            if (resource === 'departments') {
+                const { departments } = store.read();
+
+                if (!id && method === 'GET') {
+                    sendJson(res, 200, departments);
+                    return;
+                }
+
+                if (!id && method === 'POST') {
+                    const created: Department = { ...validateDepartment(await readBody(req), store.read().departments), id: randomUUID() };
+                    store.write(db => ({ ...db, departments: [...db.departments, created] }));
+                    sendJson(res, 201, created);
+                    return;
+                }
+
+                if (id) {
+                    const existing = departments.find(d => d.id === id);
+                    if (!existing) {
+                        throw new HttpError(404, messages().notFound.department);
+                    }
+
+                    if (method === 'GET') {
+                        sendJson(res, 200, existing);
+                        return;
+                    }
+
+                    // Like halls, departments are retired rather than deleted
+                    if (method === 'PUT' || method === 'PATCH') {
+                        const updated: Department = { ...validateDepartment({ ...existing, ...(await readBody(req)) }, store.read().departments, id), id };
+                        store.write(db => ({ ...db, departments: db.departments.map(d => d.id === id ? updated : d) }));
+                        sendJson(res, 200, updated);
+                        return;
+                    }
+                }
+            }
+
+            if (resource === 'settings' && !id) {
+                if (method === 'GET') {
+                    sendJson(res, 200, { ...DEFAULT_SETTINGS, ...store.read().settings });
+                    return;
+                }
+                if (method === 'PUT') {
+                    const settings = validateSettings(await readBody(req));
+                    store.write(db => ({ ...db, settings }));
+                    sendJson(res, 200, settings);
+                    return;
+                }
+            }
+
+            // The audit log is written by the booking handlers and can only be read
+            if (resource === 'audit' && !id && method === 'GET') {
+                sendJson(res, 200, store.read().audit);
+                return;
+            }
+
+            throw new HttpError(404, 'Not found');
+        } catch (e: any) {
+            const status = e instanceof HttpError ? e.status : 500;
+            sendJson(res, status, { error: e.message || messages().common.unexpectedError });
+        }
+    };
+};
@@ -0,0 +1,23 @@
+import http from 'http';
+import { createFileStore, DEFAULT_DB_FILE } from './store';
+import { createApiMiddleware } from './api';
+
+const port = Number(process.env.PORT) || 3001;
+const dbFile = process.env.BOOKINGS_DB_FILE || DEFAULT_DB_FILE;
+
+const handler = createApiMiddleware(createFileStore(dbFile));
+
+http.createServer((req, res) => {
+    // Allow the Vite dev server (or any other origin) to call the API directly
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, PATCH, DELETE, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+    if (req.method === 'OPTIONS') {
+        res.statusCode = 204;
+        res.end();
+        return;
+    }
+    handler(req, res);
+}).listen(port, () => {
+    console.log(`Hall booking API listening on http://localhost:${port}/api (data: ${dbFile})`);
+});
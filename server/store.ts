@@ -0,0 +1,50 @@
+import fs from 'fs';
+import path from 'path';
+import { AuditEntry, Blackout, Booking, Department, Hall, OrganizationSettings, StoredUser } from '../types';
+import { DEFAULT_ADMIN, DEFAULT_DEPARTMENTS, DEFAULT_HALLS, DEFAULT_SETTINGS } from '../constants';
+
+export interface Database {
+    halls: Hall[];
+    bookings: Booking[];
+    audit: AuditEntry[];
+    blackouts: Blackout[];
+    departments: Department[];
+    settings: OrganizationSettings;
+    users: StoredUser[];
+}
+
+const emptyDatabase = (): Database => ({ halls: DEFAULT_HALLS, bookings: [], audit: [], blackouts: [], departments: DEFAULT_DEPARTMENTS, settings: DEFAULT_SETTINGS, users: [DEFAULT_ADMIN] });
+
+// JSON-file store. The whole database is kept in memory and written back
+// synchronously, so a read-check-write sequence inside one request handler
+// cannot interleave with another request.
+export const createFileStore = (filePath: string) => {
+    const load = (): Database => {
+        try {
+            return { ...emptyDatabase(), ...JSON.parse(fs.readFileSync(filePath, 'utf-8')) };
+        } catch {
+            return emptyDatabase();
+        }
+    };
+
+    let data = load();
+
+    const persist = () => {
+        fs.mkdirSync(path.dirname(filePath), { recursive: true });
+        const tempPath = `${filePath}.tmp`;
+        fs.writeFileSync(tempPath, JSON.stringify(data, null, 2));
+        fs.renameSync(tempPath, filePath);
+    };
+
+    return {
+        read: (): Database => data,
+        write: (updater: (current: Database) => Database) => {
+            data = updater(data);
+            persist();
+        },
+    };
+};
+
+export type FileStore = ReturnType<typeof createFileStore>;
+
+export const DEFAULT_DB_FILE = path.resolve(process.cwd(), 'server/data/db.json');
@@ -0,0 +1,15 @@
+import type { Plugin } from 'vite';
+import { createFileStore, DEFAULT_DB_FILE } from './store';
+import { createApiMiddleware } from './api';
+
+// Serves the bookings API from the Vite dev/preview server under /api.
+export const bookingsApiPlugin = (dbFile: string = DEFAULT_DB_FILE): Plugin => {
+    const mount = (server: { middlewares: { use: (fn: any) => void } }) => {
+        server.middlewares.use(createApiMiddleware(createFileStore(dbFile)));
+    };
+    return {
+        name: 'hall-booking-api',
+        configureServer: mount,
+        configurePreviewServer: mount,
+    };
+};
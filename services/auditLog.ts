@@ -0,0 +1,73 @@
+import { AuditEntry, Booking } from '../types';
+import { BookingRepository } from './bookingRepository';
+import { createLocalRepository, apiUrl } from './repository';
+import { requestJson } from './http';
+import { inferUpdateAction } from '../utils/auditTrail';
+
+// Entries can only be listed and appended, never edited or removed. The API
+// appends them itself, in the same write as the booking change, so only the
+// browser's own log takes entries from the client.
+export interface AuditLog {
+    list(): Promise<AuditEntry[]>;
+    create?: (entry: Omit<AuditEntry, 'id'>) => Promise<AuditEntry>;
+}
+
+export const createAuditLog = (): AuditLog => {
+    const url = apiUrl('audit');
+    if (url) {
+        return { list: () => requestJson<AuditEntry[]>(url) };
+    }
+    const repository = createLocalRepository<AuditEntry>('hall-booking:audit');
+    return { list: repository.list, create: repository.create };
+};
+
+interface AuditOptions {
+    getActorId: () => string | undefined;
+    onRecord?: (entry: AuditEntry) => void;
+}
+
+// Wraps a booking repository so every write appends an entry to a log the
+// server does not keep
+export const createAuditedBookingRepository = (
+    repository: BookingRepository,
+    auditLog: AuditLog,
+    { getActorId, onRecord }: AuditOptions,
+): BookingRepository => {
+    const append = auditLog.create;
+    if (!append) {
+        return repository;
+    }
+
+    const record = async (entry: Omit<AuditEntry, 'id' | 'userId' | 'timestamp'>) => {
+        const saved = await append({ ...entry, userId: getActorId(), timestamp: new Date().toISOString() });
+        onRecord?.(saved);
+    };
+
+    const recordUpdate = async (id: string, write: () => Promise<Booking>) => {
+        const before = await repository.get(id);
+        const updated = await write();
+        await record({ bookingId: id, action: before ? inferUpdateAction(before, updated) : 'update', before, after: updated });
+        return updated;
+    };
+
+    return {
+        ...repository,
+        async create(data) {
+            const created = await repository.create(data);
+            await record({ bookingId: created.id, action: 'create', after: created });
+            return created;
+        },
+        update: (id, data) => recordUpdate(id, () => repository.update(id, data)),
+        setStatus: (id, status, note, userId) => recordUpdate(id, () => repository.setStatus(id, status, note, userId)),
+        async delete(id) {
+            const before = await repository.get(id);
+            await repository.delete(id);
+            await record({ bookingId: id, action: 'delete', before });
+        },
+        async restore(snapshot) {
+            const restored = await repository.restore(snapshot);
+            await record({ bookingId: restored.id, action: 'restore', before: snapshot, after: restored });
+            return restored;
+        },
+    };
+};
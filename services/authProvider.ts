@@ -0,0 +1,142 @@
+import { StoredUser, User } from '../types';
+import { DEFAULT_ADMIN, PASSWORD_HASH_ITERATIONS } from '../constants';
+import { readFromStorage, writeToStorage } from './storage';
+import { apiUrl, createLocalRepository } from './repository';
+import { requestJson, getSessionToken, setSessionToken } from './http';
+import { messages } from '../i18n';
+
+export type UserInput = Omit<User, 'id'>;
+
+// Pluggable authentication. The local provider keeps accounts in the browser
+// so the app works offline; the HTTP provider signs in against the API server,
+// and an SSO provider can implement the same interface.
+export interface AuthProvider {
+    getCurrentUser(): Promise<User | null>;
+    signIn(username: string, password: string): Promise<User>;
+    signOut(): Promise<void>;
+    listUsers(): Promise<User[]>;
+    // Replaces the signed-in user's password and clears `mustChangePassword`
+    changePassword(currentPassword: string, newPassword: string): Promise<User>;
+    // Only available when accounts are managed by the app itself
+    saveUser?: (user: UserInput, password?: string, userId?: string) => Promise<User>;
+}
+
+const SESSION_STORAGE_KEY = 'hall-booking:session';
+
+const toHex = (bytes: Uint8Array): string => Array.from(bytes).map(b => b.toString(16).padStart(2, '0')).join('');
+
+// Same derivation as the API server, so the seeded admin's hash works in both
+const hashPassword = async (password: string, salt: string): Promise<string> => {
+    if (typeof crypto === 'undefined' || !crypto.subtle) {
+        throw new Error(messages().login.insecureContext);
+    }
+    const encoder = new TextEncoder();
+    const key = await crypto.subtle.importKey('raw', encoder.encode(password), 'PBKDF2', false, ['deriveBits']);
+    const bits = await crypto.subtle.deriveBits(
+        { name: 'PBKDF2', hash: 'SHA-256', salt: encoder.encode(salt), iterations: PASSWORD_HASH_ITERATIONS },
+        key,
+        256,
+    );
+    return toHex(new Uint8Array(bits));
+};
+
+const createPasswordHash = async (password: string): Promise<Pick<StoredUser, 'passwordHash' | 'passwordSalt'>> => {
+    const passwordSalt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+    return { passwordHash: await hashPassword(password, passwordSalt), passwordSalt };
+};
+
+const checkPassword = async (user: StoredUser, password: string): Promise<boolean> =>
+    !!user.passwordSalt && user.passwordHash === await hashPassword(password, user.passwordSalt);
+
+const toUser = ({ passwordHash, passwordSalt, ...user }: StoredUser): User => user;
+
+export const createLocalAuthProvider = (): AuthProvider => {
+    const users = createLocalRepository<StoredUser>('hall-booking:users', () => [DEFAULT_ADMIN], () => messages().notFound.user);
+
+    return {
+        async getCurrentUser() {
+            const userId = readFromStorage<string>(SESSION_STORAGE_KEY);
+            const user = userId ? await users.get(userId) : undefined;
+            return user && user.active ? toUser(user) : null;
+        },
+        async signIn(username, password) {
+            const user = (await users.list()).find(u => u.username === username.trim().toLowerCase());
+            if (!user || !user.active || !(await checkPassword(user, password))) {
+                throw new Error(messages().login.invalidCredentials);
+            }
+            writeToStorage(SESSION_STORAGE_KEY, user.id);
+            return toUser(user);
+        },
+        async signOut() {
+            writeToStorage(SESSION_STORAGE_KEY, null);
+        },
+        async listUsers() {
+            return (await users.list()).map(toUser);
+        },
+        async changePassword(currentPassword, newPassword) {
+            const userId = readFromStorage<string>(SESSION_STORAGE_KEY);
+            const user = userId ? await users.get(userId) : undefined;
+            if (!user || !(await checkPassword(user, currentPassword))) {
+                throw new Error(messages().login.currentPasswordWrong);
+            }
+            if (newPassword === currentPassword) {
+                throw new Error(messages().login.passwordUnchanged);
+            }
+            return toUser(await users.update(user.id, { ...await createPasswordHash(newPassword), mustChangePassword: false }));
+        },
+        async saveUser(input, password, userId) {
+            const username = input.username.trim().toLowerCase();
+            const existing = await users.list();
+            if (existing.some(u => u.username === username && u.id !== userId)) {
+                throw new Error(messages().users.usernameTaken);
+            }
+            const data = { ...input, username };
+            if (userId) {
+                const changes = password ? { ...data, ...await createPasswordHash(password) } : data;
+                return toUser(await users.update(userId, changes));
+            }
+            if (!password) {
+                throw new Error(messages().users.passwordRequired);
+            }
+            return toUser(await users.create({ ...data, ...await createPasswordHash(password) }));
+        },
+    };
+};
+
+// Accounts and sessions live on the server, which checks them on every request
+export const createHttpAuthProvider = (sessionUrl: string, usersUrl: string): AuthProvider => ({
+    async getCurrentUser() {
+        return getSessionToken() ? requestJson<User | null>(sessionUrl) : null;
+    },
+    async signIn(username, password) {
+        const session = await requestJson<{ token: string; user: User }>(sessionUrl, {
+            method: 'POST',
+            body: JSON.stringify({ username, password }),
+        });
+        setSessionToken(session.token);
+        return session.user;
+    },
+    async signOut() {
+        try {
+            await requestJson<void>(sessionUrl, { method: 'DELETE' });
+        } finally {
+            setSessionToken(null);
+        }
+    },
+    listUsers: () => requestJson<User[]>(usersUrl),
+    changePassword: (currentPassword, password) => requestJson<User>(sessionUrl, {
+        method: 'PUT',
+        body: JSON.stringify({ currentPassword, password }),
+    }),
+    saveUser: (input, password, userId) => requestJson<User>(userId ? `${usersUrl}/${encodeURIComponent(userId)}` : usersUrl, {
+        method: userId ? 'PUT' : 'POST',
+        body: JSON.stringify({ ...input, password }),
+    }),
+});
+
+// Uses the API server's accounts when BOOKINGS_API_URL is configured
+export const createAuthProvider = (): AuthProvider => {
+    const sessionUrl = apiUrl('session');
+    const usersUrl = apiUrl('users');
+    return sessionUrl && usersUrl ? createHttpAuthProvider(sessionUrl, usersUrl) : createLocalAuthProvider();
+};
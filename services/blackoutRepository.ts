@@ -0,0 +1,14 @@
+import { Blackout } from '../types';
+import { Repository, createLocalRepository, createHttpRepository, apiUrl } from './repository';
+import { messages } from '../i18n';
+
+export type BlackoutInput = Omit<Blackout, 'id'>;
+
+export type BlackoutRepository = Repository<Blackout>;
+
+export const createBlackoutRepository = (): BlackoutRepository => {
+    const url = apiUrl('blackouts');
+    return url
+        ? createHttpRepository<Blackout>(url)
+        : createLocalRepository<Blackout>('hall-booking:blackouts', () => [], () => messages().notFound.blackout);
+};
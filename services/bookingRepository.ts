@@ -0,0 +1,50 @@
+import { Booking, BookingStatus } from '../types';
+import { Repository, createLocalRepository, createHttpRepository, apiUrl } from './repository';
+import { requestJson } from './http';
+import { messages } from '../i18n';
+
+export type BookingInput = Omit<Booking, 'id'>;
+
+export interface BookingRepository extends Repository<Booking> {
+    // Approvals, rejections and cancellations. The API ignores status fields
+    // sent with an update and stamps the decision with the session's user.
+    setStatus(id: string, status: BookingStatus, note?: string, userId?: string): Promise<Booking>;
+    // Re-creates a deleted booking from its last snapshot, under a new id
+    restore(snapshot: Booking): Promise<Booking>;
+}
+
+// Uses the HTTP API when BOOKINGS_API_URL is configured, otherwise keeps
+// bookings in the browser's local storage.
+export const createBookingRepository = (seed?: () => Booking[]): BookingRepository => {
+    const url = apiUrl('bookings');
+    if (url) {
+        const itemUrl = (id: string) => `${url}/${encodeURIComponent(id)}`;
+        return {
+            ...createHttpRepository<Booking>(url),
+            // Fields cleared by an edit are sent as null, which JSON keeps and the API reads as unset
+            update: (id, data) => requestJson<Booking>(itemUrl(id), {
+                method: 'PUT',
+                body: JSON.stringify(data, (_key, value) => value === undefined ? null : value),
+            }),
+            setStatus: (id, status, note) => requestJson<Booking>(`${itemUrl(id)}/status`, {
+                method: 'POST',
+                body: JSON.stringify({ status, note }),
+            }),
+            restore: ({ id, ...data }) => requestJson<Booking>(`${itemUrl(id)}/restore`, {
+                method: 'POST',
+                body: JSON.stringify(data),
+            }),
+        };
+    }
+    const repository = createLocalRepository<Booking>('hall-booking:bookings', seed, () => messages().notFound.booking);
+    return {
+        ...repository,
+        setStatus: (id, status, note = '', userId) => repository.update(id, {
+            status,
+            statusBy: userId,
+            statusAt: new Date().toISOString(),
+            statusNote: note,
+        }),
+        restore: ({ id, ...data }) => repository.create(data),
+    };
+};
@@ -0,0 +1,40 @@
+import { Booking, Hall } from '../types';
+import { buildCalendar } from '../utils/icalendar';
+import { apiUrl } from './repository';
+import { localizedName, messages } from '../i18n';
+
+const downloadFile = (fileName: string, content: string) => {
+    const blob = new Blob([content], { type: 'text/calendar;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = fileName.replace(/[\\/:*?"<>|]/g, '-').replace(/\s+/g, '_');
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(url);
+};
+
+export const downloadBookingCalendar = (booking: Booking, halls: Hall[]) => {
+    const hall = halls.find(h => h.id === booking.hallId);
+    const hallName = hall ? localizedName(hall) : '';
+    downloadFile(
+        `${messages().icalendar.bookingFileName(hallName, booking.date)}.ics`,
+        buildCalendar([booking], halls, `${hallName} - ${booking.department}`, true),
+    );
+};
+
+export const exportHallCalendar = (bookings: Booking[], hall: Hall, periodLabel: string) => {
+    const { icalendar } = messages();
+    const hallName = localizedName(hall);
+    downloadFile(
+        `${icalendar.hallFileName(hallName, periodLabel)}.ics`,
+        buildCalendar(bookings.filter(b => b.hallId === hall.id), [hall], icalendar.calendarName(hallName), true),
+    );
+};
+
+// Absolute address of the server's per-hall feed, or undefined without a server
+export const getHallFeedUrl = (hallId: string): string | undefined => {
+    const url = apiUrl(`calendar/${encodeURIComponent(hallId)}.ics`);
+    return url && new URL(url, window.location.href).href;
+};
@@ -0,0 +1,15 @@
+import { Department } from '../types';
+import { DEFAULT_DEPARTMENTS } from '../constants';
+import { Repository, createLocalRepository, createHttpRepository, apiUrl } from './repository';
+import { messages } from '../i18n';
+
+export type DepartmentInput = Omit<Department, 'id'>;
+
+export type DepartmentRepository = Repository<Department>;
+
+export const createDepartmentRepository = (): DepartmentRepository => {
+    const url = apiUrl('departments');
+    return url
+        ? createHttpRepository<Department>(url)
+        : createLocalRepository<Department>('hall-booking:departments', () => DEFAULT_DEPARTMENTS, () => messages().notFound.department);
+};
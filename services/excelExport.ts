@@ -0,0 +1,222 @@
+import * as XLSX from 'xlsx';
+import { Booking, Hall } from '../types';
+import { formatDateDisplay, formatHijriDisplay, formatToYYYYMMDD, parseYYYYMMDD } from '../utils/dateUtils';
+import { getDayTimeSlots, getHallSchedule, getHallTimeSlots, layoutGridSegments } from '../utils/timeSlots';
+import { Locale, localeDirection, localizedName, messages } from '../i18n';
+
+export type ExportLayout = 'grid' | 'list';
+
+export interface ExportOptions {
+    halls: Hall[]; // One sheet per hall
+    days: Date[];
+    periodLabel: string; // e.g. "أكتوبر 2026" or "Q1 2026", already in the export locale
+    layout: ExportLayout;
+    includeSummary: boolean;
+    weekendDays: number[]; // Date#getDay() values shaded in the grid layout
+    includeHijri: boolean; // Adds an Umm al-Qura date column after the Gregorian one
+    locale: Locale; // Labels, hall names and sheet direction
+}
+
+type SheetOptions = Pick<ExportOptions, 'periodLabel' | 'weekendDays' | 'includeHijri' | 'locale'>;
+
+type SheetRow = (string | number | null)[];
+
+const thinBorder = { style: 'thin', color: { rgb: "FF000000" } };
+const borderStyle = { top: thinBorder, bottom: thinBorder, left: thinBorder, right: thinBorder };
+const centerAlignment = { vertical: 'center', horizontal: 'center', wrapText: true };
+
+const headerStyle = {
+    font: { bold: true, color: { rgb: "FFFFFFFF" } },
+    alignment: centerAlignment,
+    fill: { fgColor: { rgb: "FF0F172A" } }, // slate-900
+    border: borderStyle,
+};
+
+const titleStyle = {
+    font: { bold: true, sz: 16, color: { rgb: "FF0F172A" } },
+    alignment: centerAlignment,
+};
+
+const weekendFill = { fgColor: { rgb: "FFFBEB" } }; // amber-50
+
+const styleRange = (ws: XLSX.WorkSheet, rows: [number, number], columns: number, style: (r: number) => object) => {
+    for (let R = rows[0]; R < rows[1]; ++R) {
+        for (let C = 0; C < columns; ++C) {
+            const cellAddress = XLSX.utils.encode_cell({ r: R, c: C });
+            if (!ws[cellAddress]) ws[cellAddress] = { t: 's', v: '' }; // Create cell if it doesn't exist (for merged cells)
+            ws[cellAddress].s = style(R);
+        }
+    }
+};
+
+// The schedule layout: a row per day and a column per time slot, with
+// bookings merged across the slots they cover. Read back by the importer.
+export const buildHallGridSheet = (hall: Hall, days: Date[], bookings: Booking[], options: SheetOptions): XLSX.WorkSheet => {
+    const { periodLabel, weekendDays, includeHijri, locale } = options;
+    const { excel, calendar, common } = messages(locale);
+    const headers = excel.headers;
+    const schedule = getHallSchedule(hall);
+    const timeSlots = getHallTimeSlots(schedule);
+    const displayTimeSlots = timeSlots.slice(0, -1);
+
+    const dayHeaders = [headers.index, headers.weekday, headers.date, ...(includeHijri ? [headers.hijriDate] : [])];
+    const slotOffset = dayHeaders.length;
+    const headerRow1 = [...dayHeaders.map(() => null), headers.timeRange];
+    const headerRow2 = [...dayHeaders, ...displayTimeSlots, headers.notes];
+
+    const sheetData: SheetRow[] = [
+        [excel.sheetTitle(localizedName(hall, locale), periodLabel)],
+        [],
+        headerRow1,
+        headerRow2,
+    ];
+
+    const merges: XLSX.Range[] = [
+        { s: { r: 0, c: 0 }, e: { r: 0, c: headerRow2.length - 1 } },
+        { s: { r: 2, c: slotOffset }, e: { r: 2, c: slotOffset + displayTimeSlots.length - 1 } },
+    ];
+
+    const hallBookings = bookings.filter(b => b.hallId === hall.id);
+
+    days.forEach((day, index) => {
+        const rowIndex = sheetData.length;
+        const formattedDate = formatToYYYYMMDD(day);
+        const dayBookings = hallBookings.filter(b => b.date === formattedDate);
+        const notes = dayBookings.map(b => b.notes).filter(Boolean).join(common.listSeparator);
+
+        const row: SheetRow = [
+            index + 1,
+            calendar.weekdays[day.getDay()],
+            formatDateDisplay(day),
+            ...(includeHijri ? [formatHijriDisplay(day, locale)] : []),
+        ];
+
+        for (const segment of layoutGridSegments(timeSlots, getDayTimeSlots(schedule, day), dayBookings)) {
+            if (segment.type === 'booking') {
+                const { booking, startIndex, span } = segment;
+                row.push(booking.department);
+
+                if (span > 1) {
+                    merges.push({
+                        s: { r: rowIndex, c: slotOffset + startIndex },
+                        e: { r: rowIndex, c: slotOffset + startIndex + span - 1 }
+                    });
+                }
+
+                for (let j = 1; j < span; j++) {
+                    row.push(null);
+                }
+            } else {
+                row.push('');
+            }
+        }
+
+        row.push(notes);
+        sheetData.push(row);
+    });
+
+    const ws = XLSX.utils.aoa_to_sheet(sheetData);
+    ws['!merges'] = merges;
+    ws['!cols'] = [ {wch:5}, {wch:15}, {wch:15}, ...(includeHijri ? [{wch: 15}] : []), ...displayTimeSlots.map(() => ({wch: 15})), {wch: 40} ];
+    ws['!rtl'] = localeDirection(locale) === 'rtl';
+
+    ws['A1'].s = titleStyle;
+    styleRange(ws, [2, 4], headerRow2.length, () => headerStyle);
+    styleRange(ws, [4, sheetData.length], headerRow2.length, R => ({
+        alignment: centerAlignment,
+        border: borderStyle,
+        fill: weekendDays.includes(days[R - 4].getDay()) ? weekendFill : undefined,
+    }));
+    return ws;
+};
+
+// One booking per row, in the flat form the importer accepts
+export const buildHallListSheet = (hall: Hall, days: Date[], bookings: Booking[], options: Pick<SheetOptions, 'includeHijri' | 'locale'>): XLSX.WorkSheet => {
+    const { includeHijri, locale } = options;
+    const { excel } = messages(locale);
+    const columns = excel.columns;
+    const hallName = localizedName(hall, locale);
+    const dates = new Set(days.map(formatToYYYYMMDD));
+    const rows = bookings
+        .filter(b => b.hallId === hall.id && dates.has(b.date))
+        .sort((a, b) => a.date.localeCompare(b.date) || a.time.localeCompare(b.time));
+    const header = [columns.hall, columns.date, ...(includeHijri ? [excel.headers.hijriDate] : []), columns.time, columns.endTime, columns.department, columns.notes];
+
+    const ws = XLSX.utils.aoa_to_sheet([
+        header,
+        ...rows.map(b => [hallName, b.date, ...(includeHijri ? [formatHijriDisplay(parseYYYYMMDD(b.date), locale)] : []), b.time, b.endTime, b.department, b.notes]),
+    ]);
+    ws['!cols'] = [{ wch: 20 }, { wch: 12 }, ...(includeHijri ? [{ wch: 15 }] : []), { wch: 8 }, { wch: 8 }, { wch: 30 }, { wch: 40 }];
+    ws['!rtl'] = localeDirection(locale) === 'rtl';
+    styleRange(ws, [0, 1], header.length, () => headerStyle);
+    return ws;
+};
+
+// Booking counts per department (rows) and hall (columns) with totals
+export const buildSummarySheet = (halls: Hall[], days: Date[], bookings: Booking[], options: Pick<SheetOptions, 'periodLabel' | 'locale'>): XLSX.WorkSheet => {
+    const { periodLabel, locale } = options;
+    const { excel, common } = messages(locale);
+    const dates = new Set(days.map(formatToYYYYMMDD));
+    const inRange = bookings.filter(b => dates.has(b.date) && halls.some(h => h.id === b.hallId));
+    const departments = Array.from(new Set(inRange.map(b => b.department))).sort((a, b) => a.localeCompare(b, locale));
+    const count = (department: string | null, hallId: string | null) => inRange.filter(b =>
+        (department === null || b.department === department) && (hallId === null || b.hallId === hallId)
+    ).length;
+
+    const header = [common.department, ...halls.map(h => localizedName(h, locale)), excel.total];
+    const sheetData: SheetRow[] = [
+        [excel.summaryTitle(periodLabel)],
+        [],
+        header,
+        ...departments.map(department => [department, ...halls.map(h => count(department, h.id)), count(department, null)]),
+        [excel.total, ...halls.map(h => count(null, h.id)), inRange.length],
+    ];
+
+    const ws = XLSX.utils.aoa_to_sheet(sheetData);
+    ws['!merges'] = [{ s: { r: 0, c: 0 }, e: { r: 0, c: header.length - 1 } }];
+    ws['!cols'] = [{ wch: 30 }, ...halls.map(() => ({ wch: 15 })), { wch: 12 }];
+    ws['!rtl'] = localeDirection(locale) === 'rtl';
+    ws['A1'].s = titleStyle;
+    styleRange(ws, [2, 3], header.length, () => headerStyle);
+    styleRange(ws, [3, sheetData.length], header.length, R => ({
+        alignment: centerAlignment,
+        border: borderStyle,
+        font: R === sheetData.length - 1 ? { bold: true } : undefined,
+    }));
+    return ws;
+};
+
+// Sheet names are limited to 31 characters, must be unique and cannot contain : \ / ? * [ ]
+const uniqueSheetName = (workbook: XLSX.WorkBook, name: string) => {
+    const base = name.replace(/[:\\/?*[\]]/g, ' ').slice(0, 28);
+    let candidate = base;
+    for (let i = 2; workbook.SheetNames.includes(candidate); i++) {
+        candidate = `${base} ${i}`;
+    }
+    return candidate;
+};
+
+export const buildBookingsWorkbook = (bookings: Booking[], options: ExportOptions): XLSX.WorkBook => {
+    const { halls, days, layout, includeSummary, locale } = options;
+    const { excel } = messages(locale);
+    const wb = XLSX.utils.book_new();
+    // An RTL workbook opens on the first sheet from the right
+    wb.Workbook = { Views: [{ RTL: localeDirection(locale) === 'rtl' }] };
+    if (includeSummary) {
+        XLSX.utils.book_append_sheet(wb, buildSummarySheet(halls, days, bookings, options), uniqueSheetName(wb, excel.summarySheetName));
+    }
+    for (const hall of halls) {
+        const sheet = layout === 'grid'
+            ? buildHallGridSheet(hall, days, bookings, options)
+            : buildHallListSheet(hall, days, bookings, options);
+        XLSX.utils.book_append_sheet(wb, sheet, uniqueSheetName(wb, excel.hallSheetName(localizedName(hall, locale))));
+    }
+    return wb;
+};
+
+export const exportBookingsToExcel = (bookings: Booking[], options: ExportOptions) => {
+    const { excel } = messages(options.locale);
+    const hallPart = options.halls.length === 1 ? localizedName(options.halls[0], options.locale) : excel.allHalls;
+    const fileName = `${excel.fileName(hallPart, options.periodLabel)}.xlsx`.replace(/[\\/:*?"<>|]/g, '-').replace(/\s+/g, '_');
+    XLSX.writeFile(buildBookingsWorkbook(bookings, options), fileName);
+};
@@ -0,0 +1,274 @@
+import * as XLSX from 'xlsx';
+import { Blackout, Booking, Department, Hall } from '../types';
+import { formatToYYYYMMDD, parseYYYYMMDD } from '../utils/dateUtils';
+import { getHallSchedule, getHallTimeSlots, isWithinWorkingHours, minutesToTime, timeToMinutes } from '../utils/timeSlots';
+import { blackoutMessage, findBlackout, findConflictingBooking, overlaps } from '../utils/bookingRules';
+import { findDepartment, linkDepartment } from '../utils/departments';
+import { messages } from '../i18n';
+import { FLAT_COLUMNS, GRID_HEADERS, SUMMARY_SHEET_NAMES } from './excelLayout';
+
+export type ImportedBooking = Pick<Booking, 'hallId' | 'date' | 'time' | 'endTime' | 'department' | 'departmentId' | 'notes'>;
+
+export interface ImportRow {
+    sheet: string;
+    rowNumber: number; // 1-based, as shown by spreadsheet applications
+    booking?: ImportedBooking;
+    errors: string[];
+    warnings: string[];
+}
+
+type Cell = string | number | boolean | Date | null;
+
+const cellText = (value: Cell): string =>
+    value == null ? '' : value instanceof Date ? formatToYYYYMMDD(value) : String(value).trim();
+
+const normalizeLabel = (value: Cell) => cellText(value).toLowerCase().replace(/\s+/g, ' ');
+
+const parseDateCell = (value: Cell): string | null => {
+    if (value instanceof Date) {
+        return formatToYYYYMMDD(value);
+    }
+    if (typeof value === 'number') {
+        const parsed = XLSX.SSF.parse_date_code(value);
+        return parsed ? formatToYYYYMMDD(new Date(parsed.y, parsed.m - 1, parsed.d)) : null;
+    }
+    const text = cellText(value);
+    const dayFirst = text.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+    if (dayFirst) {
+        const date = new Date(Number(dayFirst[3]), Number(dayFirst[2]) - 1, Number(dayFirst[1]));
+        return date.getDate() === Number(dayFirst[1]) ? formatToYYYYMMDD(date) : null;
+    }
+    return /^\d{4}-\d{2}-\d{2}$/.test(text) && formatToYYYYMMDD(parseYYYYMMDD(text)) === text ? text : null;
+};
+
+const parseTimeCell = (value: Cell): string | null => {
+    if (value instanceof Date) {
+        return minutesToTime(value.getHours() * 60 + value.getMinutes());
+    }
+    if (typeof value === 'number' && value >= 0 && value < 1) {
+        return minutesToTime(Math.round(value * 24 * 60));
+    }
+    const match = cellText(value).match(/^(\d{1,2}):(\d{2})$/);
+    // "24:00" is allowed as the end of the day, nothing after it
+    if (!match || Number(match[2]) > 59 || Number(match[1]) * 60 + Number(match[2]) > 24 * 60) {
+        return null;
+    }
+    return `${match[1].padStart(2, '0')}:${match[2]}`;
+};
+
+const findHall = (halls: Hall[], text: string): Hall | undefined => {
+    const needle = text.trim().toLowerCase();
+    return needle ? halls.find(h => [h.id, h.nameAr, h.nameEn].some(name => name.toLowerCase() === needle)) : undefined;
+};
+
+const readRows = (sheet: XLSX.WorkSheet): Cell[][] =>
+    XLSX.utils.sheet_to_json<Cell[]>(sheet, { header: 1, raw: true, defval: null, blankrows: true });
+
+// Flat form: a header row naming the columns, then one booking per row
+const parseFlatSheet = (sheetName: string, rows: Cell[][], halls: Hall[]): ImportRow[] => {
+    const { import: labels } = messages();
+    const header = rows[0].map(normalizeLabel);
+    const column = (aliases: string[]) => header.findIndex(label => aliases.some(alias => alias.toLowerCase() === label));
+    const columns = {
+        hall: column(FLAT_COLUMNS.hall),
+        date: column(FLAT_COLUMNS.date),
+        time: column(FLAT_COLUMNS.time),
+        endTime: column(FLAT_COLUMNS.endTime),
+        department: column(FLAT_COLUMNS.department),
+        notes: column(FLAT_COLUMNS.notes),
+    };
+    const missing = (['hall', 'date', 'time', 'endTime', 'department'] as const).filter(key => columns[key] === -1);
+    if (missing.length) {
+        return [{ sheet: sheetName, rowNumber: 1, errors: [labels.missingColumns], warnings: [] }];
+    }
+
+    return rows.slice(1).flatMap((cells, i): ImportRow[] => {
+        if (cells.every(cell => cellText(cell) === '')) {
+            return [];
+        }
+        const errors: string[] = [];
+        const hall = findHall(halls, cellText(cells[columns.hall]));
+        const date = parseDateCell(cells[columns.date]);
+        const time = parseTimeCell(cells[columns.time]);
+        const endTime = parseTimeCell(cells[columns.endTime]);
+        const department = cellText(cells[columns.department]);
+        if (!hall) errors.push(labels.hallNotFound(cellText(cells[columns.hall])));
+        if (!date) errors.push(labels.invalidDate);
+        if (!time || !endTime) errors.push(labels.invalidTime);
+        if (!department) errors.push(labels.missingDepartment);
+        return [{
+            sheet: sheetName,
+            rowNumber: i + 2,
+            booking: errors.length ? undefined : {
+                hallId: hall!.id,
+                date: date!,
+                time: time!,
+                endTime: endTime!,
+                department,
+                notes: columns.notes === -1 ? '' : cellText(cells[columns.notes]),
+            },
+            errors,
+            warnings: [],
+        }];
+    });
+};
+
+// Schedule layout written by the exporter: title, two header rows, then one
+// row per day with a column per time slot and bookings spanning merged cells.
+const parseGridSheet = (sheetName: string, sheet: XLSX.WorkSheet, rows: Cell[][], halls: Hall[], fallbackHall?: Hall): ImportRow[] => {
+    const { import: labels } = messages();
+    const origin = XLSX.utils.decode_range(sheet['!ref'] || 'A1').s;
+    const isDateHeader = (cell: Cell) => GRID_HEADERS.date.includes(cellText(cell));
+    const headerIndex = rows.findIndex(cells => cells.some(isDateHeader));
+    if (headerIndex === -1) {
+        return [{ sheet: sheetName, rowNumber: 1, errors: [labels.unknownFormat], warnings: [] }];
+    }
+    const header = rows[headerIndex];
+    const dateColumn = header.findIndex(isDateHeader);
+    const slotColumns = header
+        .map((cell, c) => ({ c, time: c > dateColumn ? parseTimeCell(cell) : null }))
+        .filter((col): col is { c: number; time: string } => !!col.time);
+    const notesColumn = header.findIndex(cell => GRID_HEADERS.notes.includes(cellText(cell)));
+
+    const title = rows.slice(0, headerIndex).map(cells => cells.map(cellText).join(' ')).join(' ');
+    const hall = halls.find(h => [h.nameAr, h.nameEn].some(name => name && (title.includes(name) || sheetName.includes(name)))) || fallbackHall;
+    if (!hall) {
+        return [{ sheet: sheetName, rowNumber: 1, errors: [labels.unknownHall], warnings: [] }];
+    }
+
+    // The sheet only lists slot starts; the last slot ends at the hall's next boundary
+    const hallSlots = getHallTimeSlots(getHallSchedule(hall));
+    const slotEnd = (index: number) => {
+        if (index + 1 < slotColumns.length) return slotColumns[index + 1].time;
+        const next = hallSlots[hallSlots.indexOf(slotColumns[index].time) + 1];
+        const step = index > 0 ? timeToMinutes(slotColumns[index].time) - timeToMinutes(slotColumns[index - 1].time) : 60;
+        return next || minutesToTime(timeToMinutes(slotColumns[index].time) + step);
+    };
+
+    const merges = (sheet['!merges'] || []).map(range => ({
+        row: range.s.r - origin.r,
+        start: range.s.c - origin.c,
+        end: range.e.c - origin.c,
+    }));
+
+    return rows.slice(headerIndex + 1).flatMap((cells, i): ImportRow[] => {
+        const r = headerIndex + 1 + i;
+        const rowNumber = r + origin.r + 1;
+        const values = slotColumns.map(col => cellText(cells[col.c]));
+        const date = parseDateCell(cells[dateColumn]);
+        if (!date) {
+            return values.some(Boolean)
+                ? [{ sheet: sheetName, rowNumber, errors: [labels.invalidDate], warnings: [] }]
+                : [];
+        }
+
+        // Merged ranges are one booking each; unmerged runs of the same text
+        // (hand-made sheets) are joined as well.
+        const spans: { from: number; to: number }[] = [];
+        for (let s = 0; s < slotColumns.length; s++) {
+            if (!values[s]) continue;
+            const merge = merges.find(m => m.row === r && m.start === slotColumns[s].c);
+            let to = s;
+            if (merge) {
+                while (to + 1 < slotColumns.length && slotColumns[to + 1].c <= merge.end) to++;
+            } else {
+                while (to + 1 < slotColumns.length && values[to + 1] === values[s]
+                    && !merges.some(m => m.row === r && m.start === slotColumns[to + 1].c)) to++;
+            }
+            spans.push({ from: s, to });
+            s = to;
+        }
+
+        const notes = notesColumn === -1 ? '' : cellText(cells[notesColumn]);
+        return spans.map((span, index) => ({
+            sheet: sheetName,
+            rowNumber,
+            booking: {
+                hallId: hall.id,
+                date,
+                time: slotColumns[span.from].time,
+                endTime: slotEnd(span.to),
+                department: values[span.from],
+                // The sheet keeps one notes cell per day
+                notes: index === 0 ? notes : '',
+            },
+            errors: [],
+            warnings: notes && spans.length > 1 && index === 0 ? [labels.notesOnFirstBooking] : [],
+        }));
+    });
+};
+
+// .xlsx files are zip archives and legacy .xls files OLE containers; anything else is treated as CSV text
+const isSpreadsheetBinary = (data: ArrayBuffer) => {
+    const bytes = new Uint8Array(data.slice(0, 2));
+    return (bytes[0] === 0x50 && bytes[1] === 0x4b) || (bytes[0] === 0xd0 && bytes[1] === 0xcf);
+};
+
+// Reads every sheet of an exported schedule workbook or a flat CSV/Excel list
+export const parseBookingFile = (data: ArrayBuffer, halls: Hall[], fallbackHall?: Hall): ImportRow[] => {
+    const workbook = isSpreadsheetBinary(data)
+        ? XLSX.read(data, { type: 'array', cellDates: true })
+        // Plain-text files are decoded as UTF-8 and left unparsed so that
+        // DD/MM/YYYY dates are not read as US-style month-first dates.
+        : XLSX.read(new TextDecoder('utf-8').decode(data), { type: 'string', raw: true });
+    return workbook.SheetNames.flatMap(sheetName => {
+        const sheet = workbook.Sheets[sheetName];
+        const rows = readRows(sheet);
+        if (rows.length === 0 || SUMMARY_SHEET_NAMES.includes(sheetName)) {
+            return [];
+        }
+        const firstRow = rows[0].map(normalizeLabel);
+        const isFlat = FLAT_COLUMNS.department.some(alias => firstRow.includes(alias.toLowerCase()));
+        return isFlat ? parseFlatSheet(sheetName, rows, halls) : parseGridSheet(sheetName, sheet, rows, halls, fallbackHall);
+    });
+};
+
+// Adds working-hours, blackout, conflict and duplicate errors against the
+// existing schedule and against earlier rows of the same file. When a
+// department registry is given, rows are linked to it and unknown or
+// retired departments are rejected.
+export const checkImportRows = (rows: ImportRow[], existing: Booking[], halls: Hall[], blackouts: Blackout[] = [], departments?: Department[]): ImportRow[] => {
+    const { import: labels, rules } = messages();
+    const accepted: ImportRow[] = [];
+    return rows.map(row => {
+        if (!row.booking || row.errors.length) {
+            return row;
+        }
+        const errors: string[] = [];
+        let booking = row.booking;
+        if (departments) {
+            const department = findDepartment(booking.department, departments.filter(d => d.active));
+            if (department) {
+                booking = { ...booking, ...linkDepartment(department) };
+            } else {
+                errors.push(labels.unknownDepartment(booking.department));
+            }
+        }
+        const hall = halls.find(h => h.id === booking.hallId);
+        const blackout = findBlackout(blackouts, booking.hallId, booking.date);
+        if (!hall?.active) {
+            errors.push(labels.hallInactive);
+        } else if (booking.endTime <= booking.time) {
+            errors.push(labels.endBeforeStart);
+        } else if (!isWithinWorkingHours(getHallSchedule(hall), parseYYYYMMDD(booking.date), booking.time, booking.endTime)) {
+            errors.push(rules.outsideWorkingHours);
+        } else if (blackout) {
+            errors.push(blackoutMessage(blackout));
+        } else {
+            const clash = findConflictingBooking(existing, booking);
+            const earlier = accepted.find(other => other.booking && overlaps(other.booking, booking));
+            if (clash && clash.time === booking.time && clash.endTime === booking.endTime && clash.department === booking.department) {
+                errors.push(labels.duplicate);
+            } else if (clash) {
+                errors.push(labels.conflictsWith(clash.department, clash.time, clash.endTime));
+            } else if (earlier) {
+                errors.push(labels.conflictsWithRow(earlier.rowNumber, earlier.sheet));
+            }
+        }
+        const checked = { ...row, booking, errors };
+        if (!errors.length) {
+            accepted.push(checked);
+        }
+        return checked;
+    });
+};
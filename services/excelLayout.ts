@@ -0,0 +1,26 @@
+import { Messages, allLabels } from '../i18n';
+
+// The workbook labels come from the i18n catalogues (`excel`). The exporter
+// writes one locale's labels; the importer accepts those of every locale.
+
+// Header labels the importer looks for in the schedule layout
+export const GRID_HEADERS = {
+    date: allLabels(m => m.excel.headers.date),
+    notes: allLabels(m => m.excel.headers.notes),
+};
+
+// The optional totals sheet, skipped on import
+export const SUMMARY_SHEET_NAMES = allLabels(m => m.excel.summarySheetName);
+
+const withLabels = (column: keyof Messages['excel']['columns'], aliases: string[]) =>
+    [...allLabels(m => m.excel.columns[column]), ...aliases];
+
+// Column aliases accepted in the flat (one booking per row) CSV/Excel form
+export const FLAT_COLUMNS = {
+    hall: withLabels('hall', ['hall']),
+    date: withLabels('date', ['date']),
+    time: withLabels('time', ['وقت البدء', 'start', 'time']),
+    endTime: withLabels('endTime', ['الى', 'وقت الانتهاء', 'end', 'endtime']),
+    department: withLabels('department', ['الادارة الطالبة', 'الإدارة', 'department']),
+    notes: withLabels('notes', ['notes']),
+};
@@ -0,0 +1,15 @@
+import { Hall } from '../types';
+import { DEFAULT_HALLS } from '../constants';
+import { Repository, createLocalRepository, createHttpRepository, apiUrl } from './repository';
+import { messages } from '../i18n';
+
+export type HallInput = Omit<Hall, 'id'>;
+
+export type HallRepository = Repository<Hall>;
+
+export const createHallRepository = (): HallRepository => {
+    const url = apiUrl('halls');
+    return url
+        ? createHttpRepository<Hall>(url)
+        : createLocalRepository<Hall>('hall-booking:halls', () => DEFAULT_HALLS, () => messages().notFound.hall);
+};
@@ -0,0 +1,41 @@
+import { messages } from '../i18n';
+import { readFromStorage, writeToStorage } from './storage';
+
+const SESSION_TOKEN_KEY = 'hall-booking:api-session';
+
+// Token issued by the API on sign-in, sent with every request
+export const getSessionToken = (): string | undefined => readFromStorage<string>(SESSION_TOKEN_KEY) || undefined;
+
+export const setSessionToken = (token: string | null): void => writeToStorage(SESSION_TOKEN_KEY, token);
+
+// Minimal JSON client shared by the HTTP-backed repositories. The server
+// answers errors with `{ error: string }`, which is surfaced as the message.
+export const requestJson = async <T>(url: string, init: RequestInit = {}): Promise<T> => {
+    const token = getSessionToken();
+    const response = await fetch(url, {
+        ...init,
+        headers: {
+            'Content-Type': 'application/json',
+            ...(token ? { Authorization: `Bearer ${token}` } : {}),
+            ...(init.headers || {}),
+        },
+    });
+
+    if (!response.ok) {
+        let message = messages().http.connectionFailed(response.status);
+        try {
+            const body = await response.json();
+            if (body && typeof body.error === 'string') {
+                message = body.error;
+            }
+        } catch {
+            // Response had no JSON body; keep the generic message.
+        }
+        throw new Error(message);
+    }
+
+    if (response.status === 204) {
+        return undefined as T;
+    }
+    return response.json() as Promise<T>;
+};
@@ -0,0 +1,68 @@
+import * as XLSX from 'xlsx';
+import { Department, Hall } from '../types';
+import { Locale, localeDirection, localizedName, messages } from '../i18n';
+import { UsageTotals, UtilizationReport, formatMonthKey, occupancyRate } from '../utils/utilization';
+
+export interface ReportExportOptions {
+    halls: Hall[];
+    departments: Department[];
+    periodLabel: string; // Already in the export locale
+    locale: Locale;
+}
+
+// Raw numbers for further analysis: hours to two decimals, occupancy in percent
+const toHours = (minutes: number) => Math.round(minutes / 0.6) / 100;
+const toPercent = (usage: UsageTotals) => Math.round(occupancyRate(usage) * 1000) / 10;
+
+const usageSheet = (label: string, rows: { label: string; usage: UsageTotals }[], locale: Locale): XLSX.WorkSheet => {
+    const { reports } = messages(locale);
+    const ws = XLSX.utils.aoa_to_sheet([
+        [label, reports.bookedHours, reports.availableHours, `${reports.occupancy} (%)`, reports.bookings],
+        ...rows.map(({ label, usage }) => [label, toHours(usage.bookedMinutes), toHours(usage.availableMinutes), toPercent(usage), usage.bookingCount]),
+    ]);
+    ws['!cols'] = [{ wch: 30 }, { wch: 16 }, { wch: 16 }, { wch: 16 }, { wch: 14 }];
+    ws['!rtl'] = localeDirection(locale) === 'rtl';
+    return ws;
+};
+
+export const buildUtilizationWorkbook = (report: UtilizationReport, options: ReportExportOptions): XLSX.WorkBook => {
+    const { halls, departments, periodLabel, locale } = options;
+    const { reports, common, calendar } = messages(locale);
+    const wb = XLSX.utils.book_new();
+    wb.Workbook = { Views: [{ RTL: localeDirection(locale) === 'rtl' }] };
+
+    const hallName = (hallId: string) => {
+        const hall = halls.find(h => h.id === hallId);
+        return hall ? localizedName(hall, locale) : hallId;
+    };
+    const departmentName = (entry: UtilizationReport['departments'][number]) => {
+        const department = departments.find(d => d.id === entry.departmentId);
+        return department ? localizedName(department, locale) : entry.department;
+    };
+
+    const sheets: [string, XLSX.WorkSheet][] = [
+        [reports.sheets.summary, usageSheet(reports.title, [{ label: periodLabel, usage: report.totals }], locale)],
+        [reports.sheets.halls, usageSheet(common.hall, report.halls.map(row => ({ label: hallName(row.hallId), usage: row })), locale)],
+        [reports.sheets.slots, usageSheet(common.time, report.slots.map(row => ({ label: row.time, usage: row })), locale)],
+        [reports.sheets.weekdays, usageSheet(common.weekday, report.weekdays.map(row => ({ label: calendar.weekdays[row.weekday], usage: row })), locale)],
+    ];
+    for (const [name, ws] of sheets) {
+        XLSX.utils.book_append_sheet(wb, ws, name);
+    }
+
+    // Departments have no available time of their own
+    const departmentSheet = XLSX.utils.aoa_to_sheet([
+        [common.department, reports.bookedHours, reports.bookings],
+        ...report.departments.map(row => [departmentName(row), toHours(row.bookedMinutes), row.bookingCount]),
+    ]);
+    departmentSheet['!cols'] = [{ wch: 30 }, { wch: 16 }, { wch: 14 }];
+    departmentSheet['!rtl'] = localeDirection(locale) === 'rtl';
+    XLSX.utils.book_append_sheet(wb, departmentSheet, reports.sheets.departments);
+    XLSX.utils.book_append_sheet(wb, usageSheet(reports.month, report.months.map(row => ({ label: formatMonthKey(row.month, locale), usage: row })), locale), reports.sheets.months);
+    return wb;
+};
+
+export const exportUtilizationReport = (report: UtilizationReport, options: ReportExportOptions) => {
+    const fileName = `${messages(options.locale).reports.fileName(options.periodLabel)}.xlsx`.replace(/[\\/:*?"<>|]/g, '-').replace(/\s+/g, '_');
+    XLSX.writeFile(buildUtilizationWorkbook(report, options), fileName);
+};
@@ -0,0 +1,88 @@
+import { readFromStorage, writeToStorage, createId } from './storage';
+import { requestJson } from './http';
+import { messages } from '../i18n';
+
+export interface Repository<T extends { id: string }> {
+    list(): Promise<T[]>;
+    get(id: string): Promise<T | undefined>;
+    create(data: Omit<T, 'id'>): Promise<T>;
+    update(id: string, data: Partial<Omit<T, 'id'>>): Promise<T>;
+    delete(id: string): Promise<void>;
+}
+
+export const createLocalRepository = <T extends { id: string }>(
+    storageKey: string,
+    seed: () => T[] = () => [],
+    notFoundMessage: () => string = () => messages().notFound.item,
+): Repository<T> => {
+    const load = (): T[] => {
+        const stored = readFromStorage<T[]>(storageKey);
+        if (stored) {
+            return stored;
+        }
+        // First run: persist the seed so it is not regenerated on every reload
+        const initial = seed();
+        writeToStorage(storageKey, initial);
+        return initial;
+    };
+
+    const save = (items: T[]) => writeToStorage(storageKey, items);
+
+    return {
+        async list() {
+            return load();
+        },
+        async get(id) {
+            return load().find(item => item.id === id);
+        },
+        async create(data) {
+            const item = { ...data, id: createId() } as T;
+            save([...load(), item]);
+            return item;
+        },
+        async update(id, data) {
+            const items = load();
+            const existing = items.find(item => item.id === id);
+            if (!existing) {
+                throw new Error(notFoundMessage());
+            }
+            const updated = { ...existing, ...data, id } as T;
+            save(items.map(item => item.id === id ? updated : item));
+            return updated;
+        },
+        async delete(id) {
+            save(load().filter(item => item.id !== id));
+        },
+    };
+};
+
+export const createHttpRepository = <T extends { id: string }>(resourceUrl: string): Repository<T> => {
+    const itemUrl = (id: string) => `${resourceUrl}/${encodeURIComponent(id)}`;
+
+    return {
+        list: () => requestJson<T[]>(resourceUrl),
+        async get(id) {
+            try {
+                return await requestJson<T>(itemUrl(id));
+            } catch {
+                return undefined;
+            }
+        },
+        create: (data) => requestJson<T>(resourceUrl, {
+            method: 'POST',
+            body: JSON.stringify(data),
+        }),
+        update: (id, data) => requestJson<T>(itemUrl(id), {
+            method: 'PUT',
+            body: JSON.stringify(data),
+        }),
+        delete: (id) => requestJson<void>(itemUrl(id), {
+            method: 'DELETE',
+        }),
+    };
+};
+
+export const apiUrl = (path: string): string | undefined => {
+    const baseUrl = process.env.BOOKINGS_API_URL;
+    return baseUrl ? `${baseUrl.replace(/\/$/, '')}/${path}` : undefined;
+};
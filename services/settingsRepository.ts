@@ -0,0 +1,35 @@
+import { OrganizationSettings } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { readFromStorage, writeToStorage } from './storage';
+import { requestJson } from './http';
+import { apiUrl } from './repository';
+
+// A single settings document rather than a collection, so it does not fit Repository<T>
+export interface SettingsRepository {
+    get(): Promise<OrganizationSettings>;
+    save(settings: OrganizationSettings): Promise<OrganizationSettings>;
+}
+
+const STORAGE_KEY = 'hall-booking:settings';
+
+export const createSettingsRepository = (): SettingsRepository => {
+    const url = apiUrl('settings');
+    if (url) {
+        return {
+            get: () => requestJson<OrganizationSettings>(url),
+            save: (settings) => requestJson<OrganizationSettings>(url, {
+                method: 'PUT',
+                body: JSON.stringify(settings),
+            }),
+        };
+    }
+    return {
+        async get() {
+            return { ...DEFAULT_SETTINGS, ...readFromStorage<Partial<OrganizationSettings>>(STORAGE_KEY) };
+        },
+        async save(settings) {
+            writeToStorage(STORAGE_KEY, settings);
+            return settings;
+        },
+    };
+};
@@ -0,0 +1,47 @@
+// Thin wrapper around localStorage that degrades to an in-memory map when
+// storage is unavailable (private browsing, sandboxed iframes, tests).
+const memoryStore = new Map<string, string>();
+
+const getStorage = (): Storage | null => {
+    try {
+        if (typeof window === 'undefined' || !window.localStorage) {
+            return null;
+        }
+        const probeKey = '__hall_booking_probe__';
+        window.localStorage.setItem(probeKey, probeKey);
+        window.localStorage.removeItem(probeKey);
+        return window.localStorage;
+    } catch {
+        return null;
+    }
+};
+
+export const readFromStorage = <T>(key: string): T | undefined => {
+    const storage = getStorage();
+    const raw = storage ? storage.getItem(key) : memoryStore.get(key);
+    if (raw == null) {
+        return undefined;
+    }
+    try {
+        return JSON.parse(raw) as T;
+    } catch {
+        return undefined;
+    }
+};
+
+export const writeToStorage = <T>(key: string, value: T): void => {
+    const raw = JSON.stringify(value);
+    const storage = getStorage();
+    if (storage) {
+        storage.setItem(key, raw);
+    } else {
+        memoryStore.set(key, raw);
+    }
+};
+
+export const createId = (): string => {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') {
+        return crypto.randomUUID();
+    }
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+};
@@ -1,15 +1,132 @@
+export type SlotMinutes = 15 | 30 | 60;
 
-export enum Hall {
-  AlWaha = 'al-waha',
-  AlDana = 'al-dana',
+export interface WorkingHours {
+  openTime: string; // e.g., '08:00'
+  closeTime: string; // e.g., '18:00'
 }
 
+export interface HallSchedule extends WorkingHours {
+  slotMinutes: SlotMinutes;
+  // Keyed by Date#getDay() (0 = Sunday). null marks the hall as closed that weekday.
+  weekdayOverrides: { [weekday: number]: WorkingHours | null };
+}
+
+export interface Hall {
+  id: string;
+  nameAr: string;
+  nameEn: string;
+  capacity: number;
+  location: string;
+  equipment: string[];
+  active: boolean; // Retired halls stay in the catalogue but accept no new bookings
+  schedule?: HallSchedule; // Falls back to DEFAULT_HALL_SCHEDULE when missing
+  requiresApproval?: boolean; // New bookings stay pending until an approver accepts them
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every N days / weeks / months
+  weekdays?: number[]; // weekly: Date#getDay() values
+  monthlyWeek?: number; // monthly: 1-5 for the nth weekday of the month, -1 for the last one
+  until?: string; // Format: YYYY-MM-DD, inclusive
+  count?: number;
+  exceptions?: string[]; // Dates removed from the series
+}
+
+// Which part of a recurring series an edit or delete applies to
+export type SeriesScope = 'single' | 'following' | 'series';
+
+export type AuditAction = 'create' | 'update' | 'delete' | 'approve' | 'reject' | 'cancel' | 'restore';
+
+// One entry of the append-only booking history
+export interface AuditEntry {
+  id: string;
+  bookingId: string;
+  action: AuditAction;
+  userId?: string;
+  timestamp: string; // ISO timestamp
+  before?: Booking; // Missing for create
+  after?: Booking; // Missing for delete
+}
+
+export type UserRole = 'requester' | 'approver' | 'admin';
+
+export interface User {
+  id: string;
+  username: string;
+  displayName: string;
+  role: UserRole;
+  active: boolean;
+  mustChangePassword?: boolean; // Set on the seeded admin until its default password is replaced
+}
+
+// Account as kept by an auth provider; the hash never leaves it
+export interface StoredUser extends User {
+  passwordHash: string; // PBKDF2-SHA256, hex
+  passwordSalt: string; // Random, hex
+}
+
+// Organisation-wide calendar settings
+export interface OrganizationSettings {
+  weekendDays: number[]; // Date#getDay() values
+  firstDayOfWeek: number; // Date#getDay() value that starts week views
+  closedOnWeekends: boolean; // Weekend days are not bookable unless a hall sets its own hours for them
+  showHijriDates: boolean; // Umm al-Qura dates next to the Gregorian ones
+}
+
+// A holiday or blackout period during which no new bookings are accepted
+export interface Blackout {
+  id: string;
+  hallId?: string; // Missing for blackouts that apply to every hall
+  startDate: string; // Format: YYYY-MM-DD
+  endDate: string; // Format: YYYY-MM-DD, inclusive
+  reason: string;
+}
+
+// A requesting department from the managed registry
+export interface Department {
+  id: string;
+  code: string; // Short reference, e.g. 'HR'
+  nameAr: string;
+  nameEn: string;
+  contactName: string;
+  contactEmail: string;
+  active: boolean; // Retired departments stay on their bookings but cannot be chosen for new ones
+}
+
+// Equipment and services a booking can ask for
+export type BookingService = 'projector' | 'videoConference' | 'catering';
+
+export type SeatingLayout = 'theatre' | 'classroom' | 'boardroom' | 'uShape';
+
+// Pending and approved bookings hold their slot; rejected and cancelled ones free it
+export type BookingStatus = 'pending' | 'approved' | 'rejected' | 'cancelled';
+
 export interface Booking {
   id: string;
-  hallId: Hall;
+  hallId: string;
   date: string; // Format: YYYY-MM-DD
   time: string; // e.g., '09:00'
   endTime: string; // e.g., '11:00'
-  department: string;
+  department: string; // Name as saved; the registry's Arabic name once linked
+  departmentId?: string; // Missing on free-text bookings not yet linked to the registry
   notes: string;
+  attendees?: number; // Expected number of people
+  services?: BookingService[];
+  seatingLayout?: SeatingLayout;
+  organizerName?: string;
+  organizerPhone?: string;
+  organizerEmail?: string;
+  seriesId?: string; // Shared by every occurrence generated from one recurrence rule
+  recurrence?: RecurrenceRule;
+  status?: BookingStatus; // Missing on bookings made before approvals existed; treated as approved
+  statusBy?: string; // User id of whoever last set the status
+  statusAt?: string;
+  statusNote?: string; // e.g. the rejection reason
+  createdBy?: string; // User id
+  createdAt?: string; // ISO timestamp
+  updatedBy?: string;
+  updatedAt?: string;
 }
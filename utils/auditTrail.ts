@@ -0,0 +1,63 @@
+import { AuditAction, AuditEntry, Booking } from '../types';
+import { messages } from '../i18n';
+import { formatDateDisplay, parseYYYYMMDD } from './dateUtils';
+
+// Entries for one booking, newest first. A restored booking gets a new id,
+// so the history of the booking it was restored from is included as well.
+export const getBookingHistory = (entries: AuditEntry[], bookingId: string): AuditEntry[] => {
+    const ids = new Set([bookingId]);
+    let grew = true;
+    while (grew) {
+        grew = false;
+        for (const entry of entries) {
+            if (entry.action === 'restore' && ids.has(entry.bookingId) && entry.before && !ids.has(entry.before.id)) {
+                ids.add(entry.before.id);
+                grew = true;
+            }
+        }
+    }
+    return entries
+        .filter(entry => ids.has(entry.bookingId))
+        .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+};
+
+// A deleted booking can be restored once
+export const isRestorable = (entries: AuditEntry[], entry: AuditEntry): entry is AuditEntry & { before: Booking } =>
+    entry.action === 'delete' && !!entry.before
+    && !entries.some(e => e.action === 'restore' && e.before?.id === entry.bookingId);
+
+const statusActions: Partial<Record<string, AuditAction>> = {
+    approved: 'approve',
+    rejected: 'reject',
+    cancelled: 'cancel',
+};
+
+// A status change is logged as the decision it records
+export const inferUpdateAction = (before: Booking, after: Booking): AuditAction =>
+    (before.status !== after.status && after.status && statusActions[after.status]) || 'update';
+
+// The booking an entry is about, as it looked after the change (or before a delete)
+export const getEntrySnapshot = (entry: AuditEntry): Booking | undefined => entry.after || entry.before;
+
+// Human-readable field changes between two snapshots
+export const describeChanges = (before: Booking | undefined, after: Booking | undefined, hallNames: Record<string, string>): string[] => {
+    if (!before || !after) {
+        return [];
+    }
+    const { common, bookingStatus, history, booking, services, seatingLayouts } = messages();
+    const fields: { label: string; format: (b: Booking) => string }[] = [
+        { label: common.hall, format: b => hallNames[b.hallId] || b.hallId },
+        { label: common.date, format: b => formatDateDisplay(parseYYYYMMDD(b.date)) },
+        { label: common.time, format: b => `${b.time} - ${b.endTime}` },
+        { label: common.department, format: b => b.department },
+        { label: common.notes, format: b => b.notes || '—' },
+        { label: booking.attendees, format: b => b.attendees ? String(b.attendees) : '—' },
+        { label: booking.servicesLegend, format: b => b.services?.length ? b.services.map(s => services[s]).join(common.listSeparator) : '—' },
+        { label: booking.seatingLayout, format: b => b.seatingLayout ? seatingLayouts[b.seatingLayout] : '—' },
+        { label: booking.organizerTitle, format: b => [b.organizerName, b.organizerPhone, b.organizerEmail].filter(Boolean).join(' - ') || '—' },
+        { label: common.status, format: b => bookingStatus[b.status || 'approved'] },
+    ];
+    return fields
+        .filter(field => field.format(before) !== field.format(after))
+        .map(field => history.change(field.label, field.format(before), field.format(after)));
+};
@@ -0,0 +1,83 @@
+import { Blackout, Booking, Hall } from '../types';
+import { BookingConflictError, BookingSlot, SlotSuggestion, findBlackout, findConflictingBooking, validateOccurrences } from './bookingRules';
+import { getDayTimeSlots, getHallSchedule, timeToMinutes, minutesToTime } from './timeSlots';
+import { formatToYYYYMMDD, parseYYYYMMDD } from './dateUtils';
+
+const SUGGESTIONS_PER_KIND = 3;
+const DAYS_TO_SCAN = 14;
+
+// A window is free when it starts and ends on the hall's slot boundaries for
+// that day, is not blacked out and overlaps no other booking.
+const isFree = (slot: BookingSlot, bookings: Booking[], halls: Hall[], blackouts: Blackout[]): boolean => {
+    const hall = halls.find(h => h.id === slot.hallId);
+    if (!hall || !hall.active || findBlackout(blackouts, slot.hallId, slot.date)) {
+        return false;
+    }
+    const boundaries = getDayTimeSlots(getHallSchedule(hall), parseYYYYMMDD(slot.date));
+    return boundaries.includes(slot.time)
+        && boundaries.includes(slot.endTime)
+        && !findConflictingBooking(bookings, slot);
+};
+
+export const suggestAlternatives = (candidate: BookingSlot, bookings: Booking[], halls: Hall[], blackouts: Blackout[] = []): SlotSuggestion[] => {
+    const duration = timeToMinutes(candidate.endTime) - timeToMinutes(candidate.time);
+    const start = timeToMinutes(candidate.time);
+    const hall = halls.find(h => h.id === candidate.hallId);
+    const suggestions: SlotSuggestion[] = [];
+
+    // Same hall, same day: nearest start times first
+    const sameDay = getDayTimeSlots(getHallSchedule(hall), parseYYYYMMDD(candidate.date))
+        .filter(time => time !== candidate.time)
+        .map(time => ({ ...candidate, time, endTime: minutesToTime(timeToMinutes(time) + duration) }))
+        .filter(slot => isFree(slot, bookings, halls, blackouts))
+        .sort((a, b) => Math.abs(timeToMinutes(a.time) - start) - Math.abs(timeToMinutes(b.time) - start))
+        .slice(0, SUGGESTIONS_PER_KIND);
+    suggestions.push(...sameDay.map(slot => ({ ...slot, kind: 'same-day' as const })));
+
+    // Other halls at the same time
+    halls
+        .filter(h => h.id !== candidate.hallId)
+        .map(h => ({ ...candidate, hallId: h.id }))
+        .filter(slot => isFree(slot, bookings, halls, blackouts))
+        .forEach(slot => suggestions.push({ ...slot, kind: 'other-hall' }));
+
+    // Same hall and time on the following days
+    const date = parseYYYYMMDD(candidate.date);
+    let found = 0;
+    for (let offset = 1; offset <= DAYS_TO_SCAN && found < SUGGESTIONS_PER_KIND; offset++) {
+        const slot = {
+            ...candidate,
+            date: formatToYYYYMMDD(new Date(date.getFullYear(), date.getMonth(), date.getDate() + offset)),
+        };
+        if (isFree(slot, bookings, halls, blackouts)) {
+            suggestions.push({ ...slot, kind: 'next-days' });
+            found++;
+        }
+    }
+
+    return suggestions;
+};
+
+// Throws when any occurrence cannot be booked. A single clashing booking
+// raises a BookingConflictError with suggested free alternatives.
+export const assertBookable = (
+    candidates: BookingSlot[],
+    bookings: Booking[],
+    halls: Hall[],
+    replacedIds: string[] = [],
+    blackouts: Blackout[] = [],
+): void => {
+    const problem = validateOccurrences(candidates, bookings, halls, replacedIds, blackouts);
+    if (!problem) {
+        return;
+    }
+    const others = bookings.filter(b => !replacedIds.includes(b.id));
+    const conflicts = candidates
+        .map(candidate => findConflictingBooking(others, candidate))
+        .filter((b): b is Booking => !!b);
+    if (conflicts.length) {
+        const suggestions = candidates.length === 1 ? suggestAlternatives(candidates[0], others, halls, blackouts) : [];
+        throw new BookingConflictError(problem, conflicts, suggestions);
+    }
+    throw new Error(problem);
+};
@@ -0,0 +1,25 @@
+import { BookingService, Hall } from '../types';
+import { allLabels } from '../i18n';
+
+// Services that come from the hall's own equipment (catering is arranged
+// separately), with the words that identify them in a hall's free-text
+// equipment list besides their catalogue labels
+const HALL_EQUIPMENT_ALIASES: Partial<Record<BookingService, string[]>> = {
+    projector: ['projector', 'data show', 'بروجكتر', 'بروجيكتور', 'داتا شو', 'شاشة عرض'],
+    videoConference: ['video conference', 'videoconference', 'video call', 'zoom', 'teams', 'اتصال مرئي', 'مؤتمرات مرئية', 'فيديو كونفرنس'],
+};
+
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+const hallProvides = (hall: Hall, service: BookingService): boolean => {
+    const keywords = [...allLabels(m => m.services[service]), ...(HALL_EQUIPMENT_ALIASES[service] || [])].map(k => k.toLowerCase());
+    return hall.equipment.some(item => keywords.some(keyword => item.toLowerCase().includes(keyword)));
+};
+
+// Requested services the hall's equipment list does not mention
+export const getMissingEquipment = (hall: Hall | undefined, services: BookingService[] = []): BookingService[] =>
+    hall ? services.filter(service => service in HALL_EQUIPMENT_ALIASES && !hallProvides(hall, service)) : [];
+
+// A capacity of 0 means it was never recorded, so nothing is checked
+export const exceedsCapacity = (hall: Hall | undefined, attendees?: number): boolean =>
+    !!hall && hall.capacity > 0 && !!attendees && attendees > hall.capacity;
@@ -0,0 +1,105 @@
+import { Blackout, Booking, Hall } from '../types';
+import { getHallSchedule, isWithinWorkingHours } from './timeSlots';
+import { formatDateDisplay, parseYYYYMMDD } from './dateUtils';
+import { messages } from '../i18n';
+
+export type BookingSlot = Pick<Booking, 'hallId' | 'date' | 'time' | 'endTime'>;
+
+// Check for time overlap: (StartA < EndB) and (EndA > StartB)
+export const overlaps = (a: BookingSlot, b: BookingSlot): boolean =>
+    a.hallId === b.hallId && a.date === b.date && a.time < b.endTime && a.endTime > b.time;
+
+export const holdsSlot = (booking: Pick<Booking, 'status'>): boolean =>
+    booking.status !== 'rejected' && booking.status !== 'cancelled';
+
+// The holiday or blackout covering a hall on a date (YYYY-MM-DD), if any
+export const findBlackout = (blackouts: Blackout[], hallId: string, date: string): Blackout | undefined =>
+    blackouts.find(b => (!b.hallId || b.hallId === hallId) && b.startDate <= date && date <= b.endDate);
+
+// Same days, hall and reason, e.g. a holiday calendar imported twice
+export const isSameBlackout = (a: Omit<Blackout, 'id'>, b: Omit<Blackout, 'id'>): boolean =>
+    (a.hallId || '') === (b.hallId || '') && a.startDate === b.startDate && a.endDate === b.endDate && a.reason.trim() === b.reason.trim();
+
+export const blackoutMessage = (blackout: Blackout): string =>
+    messages().rules.blackout(blackout.reason);
+
+// Bookings that already sit on a day blacked out later can still be edited
+// in place; only moving onto a blacked-out day is refused.
+const keepsBlockedDay = (candidate: BookingSlot, replaced: Booking[]): boolean =>
+    replaced.some(b => b.hallId === candidate.hallId && b.date === candidate.date);
+
+export const findConflictingBooking = (
+    bookings: Booking[],
+    candidate: BookingSlot,
+    ignoreId?: string,
+): Booking | undefined =>
+    bookings.find(b => b.id !== ignoreId && holdsSlot(b) && overlaps(candidate, b));
+
+// Validates every occurrence of a (possibly recurring) save against the
+// existing bookings, ignoring the ones being replaced. Returns an error
+// message naming the offending dates, or null when the save is allowed.
+export const validateOccurrences = (
+    candidates: BookingSlot[],
+    existing: Booking[],
+    halls: Hall[],
+    replacedIds: string[] = [],
+    blackouts: Blackout[] = [],
+): string | null => {
+    const others = existing.filter(b => !replacedIds.includes(b.id));
+    const replaced = existing.filter(b => replacedIds.includes(b.id));
+    const conflicts: string[] = [];
+    const outsideHours: string[] = [];
+    const blocked: Blackout[] = [];
+    const blockedDates: string[] = [];
+
+    for (const candidate of candidates) {
+        const schedule = getHallSchedule(halls.find(h => h.id === candidate.hallId));
+        const blackout = findBlackout(blackouts, candidate.hallId, candidate.date);
+        if (blackout && !keepsBlockedDay(candidate, replaced)) {
+            blocked.push(blackout);
+            blockedDates.push(candidate.date);
+        } else if (!isWithinWorkingHours(schedule, parseYYYYMMDD(candidate.date), candidate.time, candidate.endTime)) {
+            outsideHours.push(candidate.date);
+        } else if (findConflictingBooking(others, candidate)) {
+            conflicts.push(candidate.date);
+        }
+    }
+
+    const { rules, common } = messages();
+    const listDates = (dates: string[]) => dates.map(d => formatDateDisplay(parseYYYYMMDD(d))).join(common.listSeparator);
+
+    if (candidates.length === 1) {
+        if (blocked.length) {
+            return blackoutMessage(blocked[0]);
+        }
+        return outsideHours.length ? rules.outsideWorkingHours : conflicts.length ? rules.conflict : null;
+    }
+    const lines: string[] = [];
+    if (blockedDates.length) {
+        lines.push(rules.blockedDates(listDates(blockedDates)));
+    }
+    if (conflicts.length) {
+        lines.push(rules.conflictDates(listDates(conflicts)));
+    }
+    if (outsideHours.length) {
+        lines.push(rules.outsideHoursDates(listDates(outsideHours)));
+    }
+    return lines.length ? lines.join('\n') : null;
+};
+
+export interface SlotSuggestion {
+    hallId: string;
+    date: string;
+    time: string;
+    endTime: string;
+    kind: 'same-day' | 'other-hall' | 'next-days';
+}
+
+// Raised when a save overlaps another booking. Carries the clashing bookings
+// and nearby free windows so the UI can offer alternatives.
+export class BookingConflictError extends Error {
+    constructor(message: string, public conflicts: Booking[], public suggestions: SlotSuggestion[]) {
+        super(message);
+        this.name = 'BookingConflictError';
+    }
+}
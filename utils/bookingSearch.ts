@@ -0,0 +1,52 @@
+import { Booking, Department } from '../types';
+import { normalizeDepartmentName } from './departments';
+
+export interface BookingSearchCriteria {
+    department: string;
+    notes: string;
+    hallId: string; // '' for every hall
+    from: string; // YYYY-MM-DD, inclusive
+    to: string;
+    timeFrom: string; // HH:mm; bookings overlapping the window match
+    timeTo: string;
+}
+
+export const emptySearchCriteria: BookingSearchCriteria = { department: '', notes: '', hallId: '', from: '', to: '', timeFrom: '', timeTo: '' };
+
+export type SearchSortKey = 'date' | 'hall' | 'department' | 'time';
+
+export const hasSearchCriteria = (criteria: BookingSearchCriteria): boolean =>
+    Object.values(criteria).some(value => value.trim() !== '');
+
+// The department is matched on the text saved with the booking and, once
+// linked, on the registry entry's code and names, with spelling variants folded
+export const searchBookings = (bookings: Booking[], criteria: BookingSearchCriteria, departments: Department[] = []): Booking[] => {
+    const department = normalizeDepartmentName(criteria.department);
+    const notes = criteria.notes.trim().toLowerCase();
+    const departmentTexts = (booking: Booking) => {
+        const linked = departments.find(d => d.id === booking.departmentId);
+        return [booking.department, ...(linked ? [linked.code, linked.nameAr, linked.nameEn] : [])];
+    };
+    return bookings.filter(b =>
+        (!department || departmentTexts(b).some(text => normalizeDepartmentName(text).includes(department)))
+        && (!notes || (b.notes || '').toLowerCase().includes(notes))
+        && (!criteria.hallId || b.hallId === criteria.hallId)
+        && (!criteria.from || b.date >= criteria.from)
+        && (!criteria.to || b.date <= criteria.to)
+        && (!criteria.timeFrom || b.endTime > criteria.timeFrom)
+        && (!criteria.timeTo || b.time < criteria.timeTo)
+    );
+};
+
+export const sortBookings = (bookings: Booking[], key: SearchSortKey, descending: boolean, hallNames: Record<string, string>): Booking[] => {
+    const value = (b: Booking) => {
+        switch (key) {
+            case 'date': return `${b.date} ${b.time}`;
+            case 'hall': return hallNames[b.hallId] || b.hallId;
+            case 'department': return b.department;
+            case 'time': return `${b.time} ${b.date}`;
+        }
+    };
+    const sorted = [...bookings].sort((a, b) => value(a).localeCompare(value(b)));
+    return descending ? sorted.reverse() : sorted;
+};
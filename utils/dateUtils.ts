@@ -1,3 +1,5 @@
+import { Locale, messages } from '../i18n';
+
 
 export const getDaysInMonth = (year: number, month: number): Date[] => {
     const date = new Date(year, month, 1);
@@ -9,6 +11,24 @@ export const getDaysInMonth = (year: number, month: number): Date[] => {
     return days;
 };
 
+// Inclusive range of calendar days
+export const getDaysInRange = (from: Date, to: Date): Date[] => {
+    const days: Date[] = [];
+    const date = new Date(from.getFullYear(), from.getMonth(), from.getDate());
+    while (date <= to) {
+        days.push(new Date(date));
+        date.setDate(date.getDate() + 1);
+    }
+    return days;
+};
+
+// Longest period the reports and exports accept; a year still being typed
+// (e.g. "0202") would otherwise expand to centuries of days
+export const MAX_RANGE_YEARS = 5;
+
+export const isRangeTooLong = (from: Date, to: Date): boolean =>
+    to > new Date(from.getFullYear() + MAX_RANGE_YEARS, from.getMonth(), from.getDate());
+
 export const formatToYYYYMMDD = (date: Date): string => {
     const year = date.getFullYear();
     const month = String(date.getMonth() + 1).padStart(2, '0');
@@ -21,4 +41,72 @@ export const formatDateDisplay = (date: Date): string => {
     const month = String(date.getMonth() + 1).padStart(2, '0'); // getMonth() is 0-indexed
     const year = date.getFullYear();
     return `${day}/${month}/${year}`;
-};
\ No newline at end of file
+};
+
+// ISO timestamp as "DD/MM/YYYY HH:MM" in local time
+export const formatTimestampDisplay = (isoString: string): string => {
+    const date = new Date(isoString);
+    const hours = String(date.getHours()).padStart(2, '0');
+    const minutes = String(date.getMinutes()).padStart(2, '0');
+    return `${formatDateDisplay(date)} ${hours}:${minutes}`;
+};
+
+export const parseYYYYMMDD = (dateStr: string): Date => {
+    const parts = dateStr.split('-');
+    // new Date(year, monthIndex, day)
+    return new Date(parseInt(parts[0]), parseInt(parts[1]) - 1, parseInt(parts[2]));
+};
+
+// Hijri (Umm al-Qura) dates come from the browser's Intl calendars, so no
+// lookup table or network access is needed.
+export interface HijriDate {
+    year: number;
+    month: number; // 1-12
+    day: number;
+}
+
+const hijriFormatter = new Intl.DateTimeFormat('en-u-ca-islamic-umalqura-nu-latn', {
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+});
+
+export const toHijri = (date: Date): HijriDate => {
+    const parts = hijriFormatter.formatToParts(date);
+    const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+    return { year: part('year'), month: part('month'), day: part('day') };
+};
+
+export const formatHijriDisplay = (date: Date, locale?: Locale): string => {
+    const { year, month, day } = toHijri(date);
+    return `${String(day).padStart(2, '0')}/${String(month).padStart(2, '0')}/${year} ${messages(locale).calendar.hijriSuffix}`;
+};
+
+export const getHijriMonthStart = (date: Date): Date =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate() - (toHijri(date).day - 1));
+
+export const getHijriMonthDays = (date: Date): Date[] => {
+    const start = getHijriMonthStart(date);
+    const { month } = toHijri(start);
+    const days: Date[] = [];
+    const day = new Date(start);
+    while (toHijri(day).month === month) {
+        days.push(new Date(day));
+        day.setDate(day.getDate() + 1);
+    }
+    return days;
+};
+
+// First day of the Hijri month `months` months away from the one containing `date`.
+// Hijri months are 29 or 30 days, so landing mid-month and snapping back is exact.
+export const addHijriMonths = (date: Date, months: number): Date => {
+    const start = getHijriMonthStart(date);
+    const target = new Date(start.getFullYear(), start.getMonth(), start.getDate() + Math.round(months * 29.53) + 15);
+    return getHijriMonthStart(target);
+};
+
+// First day of a given Hijri year and month, found relative to a nearby date
+export const fromHijriMonth = (reference: Date, year: number, month: number): Date => {
+    const current = toHijri(reference);
+    return addHijriMonths(reference, (year - current.year) * 12 + (month - current.month));
+};
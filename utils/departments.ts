@@ -0,0 +1,46 @@
+import { Booking, Department } from '../types';
+
+// Folds the spelling variants seen in free-text department names: case,
+// spacing, diacritics, hamza and taa marbuta forms, and a leading
+// "قسم" / "إدارة" or trailing "department".
+export const normalizeDepartmentName = (value: string): string =>
+    value
+        .toLowerCase()
+        .replace(/[\u064B-\u0652\u0640]/g, '')
+        .replace(/[أإآ]/g, 'ا')
+        .replace(/ة/g, 'ه')
+        .replace(/ى/g, 'ي')
+        .replace(/[.,،\-_/]+/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim()
+        .replace(/^(ال)?(قسم|اداره|department of|dept of) /, '')
+        .replace(/ (department|dept)$/, '');
+
+// The registry entry a typed or imported value refers to, by code or either name
+export const findDepartment = (value: string, departments: Department[]): Department | undefined => {
+    const key = normalizeDepartmentName(value);
+    if (!key) {
+        return undefined;
+    }
+    return departments.find(d => d.code.trim().toLowerCase() === key)
+        || departments.find(d => [d.nameAr, d.nameEn].some(name => name && normalizeDepartmentName(name) === key));
+};
+
+// The department fields a booking gets once linked to the registry
+export const linkDepartment = (department: Department): Pick<Booking, 'department' | 'departmentId'> => ({
+    department: department.nameAr,
+    departmentId: department.id,
+});
+
+// Free-text values of bookings not linked to the registry yet, most used first
+export const getUnlinkedDepartments = (bookings: Booking[]): { text: string; count: number }[] => {
+    const counts = new Map<string, number>();
+    bookings
+        .filter(b => !b.departmentId)
+        .forEach(b => {
+            const text = b.department.trim();
+            counts.set(text, (counts.get(text) || 0) + 1);
+        });
+    return Array.from(counts, ([text, count]) => ({ text, count }))
+        .sort((a, b) => b.count - a.count || a.text.localeCompare(b.text));
+};
@@ -0,0 +1,165 @@
+import { Booking, BookingStatus, Hall } from '../types';
+import { parseYYYYMMDD } from './dateUtils';
+
+// RFC 5545 calendar generation, shared by the browser downloads and the
+// server's subscription feed.
+
+const PRODUCT_ID = '-//Hall Booking//Hall Booking Schedule//AR';
+const UID_DOMAIN = 'hall-booking';
+// ORGANIZER must be a calendar address; without the organizer's email, or in
+// the public feed, the department is carried as the common name of a placeholder address
+const ORGANIZER_ADDRESS = 'mailto:noreply@hall-booking.invalid';
+
+const eventStatus: Record<BookingStatus, string> = {
+    pending: 'TENTATIVE',
+    approved: 'CONFIRMED',
+    rejected: 'CANCELLED',
+    cancelled: 'CANCELLED',
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const escapeText = (value: string): string =>
+    value
+        .replace(/\\/g, '\\\\')
+        .replace(/;/g, '\\;')
+        .replace(/,/g, '\\,')
+        .replace(/\r?\n/g, '\\n');
+
+// Parameter values cannot be escaped; quote them and drop characters that are not allowed inside quotes
+const quoteParam = (value: string): string => `"${value.replace(/["\r\n]/g, '')}"`;
+
+// Lines longer than 75 octets are folded with CRLF + space, without splitting a UTF-8 character
+export const foldLine = (line: string): string => {
+    const encoder = new TextEncoder();
+    const parts: string[] = [];
+    let current = '';
+    let currentBytes = 0;
+    for (const char of line) {
+        const bytes = encoder.encode(char).length;
+        const limit = parts.length === 0 ? 75 : 74; // Continuation lines start with a space
+        if (currentBytes + bytes > limit) {
+            parts.push(current);
+            current = '';
+            currentBytes = 0;
+        }
+        current += char;
+        currentBytes += bytes;
+    }
+    parts.push(current);
+    return parts.join('\r\n ');
+};
+
+// Local "floating" date-time: the booking times are shown as entered, in the reader's time zone
+const formatLocalDateTime = (date: string, time: string): string => {
+    const [hours, minutes] = time.split(':').map(Number);
+    const value = parseYYYYMMDD(date);
+    value.setHours(hours, minutes); // "24:00" rolls over to the next day
+    return `${value.getFullYear()}${pad(value.getMonth() + 1)}${pad(value.getDate())}T${pad(value.getHours())}${pad(value.getMinutes())}00`;
+};
+
+const formatUtcDateTime = (value: Date): string =>
+    `${value.getUTCFullYear()}${pad(value.getUTCMonth() + 1)}${pad(value.getUTCDate())}T${pad(value.getUTCHours())}${pad(value.getUTCMinutes())}${pad(value.getUTCSeconds())}Z`;
+
+// Organizer contact details are only written with `withContacts`, never in the public feed
+export const buildEventLines = (booking: Booking, hall: Hall | undefined, withContacts = false, now = new Date()): string[] => {
+    const location = hall ? [hall.nameAr, hall.location].filter(Boolean).join(' - ') : '';
+    const stamp = booking.updatedAt || booking.createdAt;
+    const lines = [
+        'BEGIN:VEVENT',
+        `UID:${booking.id}@${UID_DOMAIN}`,
+        `DTSTAMP:${formatUtcDateTime(stamp ? new Date(stamp) : now)}`,
+        `DTSTART:${formatLocalDateTime(booking.date, booking.time)}`,
+        `DTEND:${formatLocalDateTime(booking.date, booking.endTime)}`,
+        `SUMMARY:${escapeText(booking.department)}`,
+        withContacts && booking.organizerEmail
+            ? `ORGANIZER;CN=${quoteParam(booking.organizerName || booking.department)}:mailto:${booking.organizerEmail}`
+            : `ORGANIZER;CN=${quoteParam(booking.department)}:${ORGANIZER_ADDRESS}`,
+        `STATUS:${eventStatus[booking.status || 'approved']}`,
+    ];
+    if (location) {
+        lines.push(`LOCATION:${escapeText(location)}`);
+    }
+    if (booking.notes) {
+        lines.push(`DESCRIPTION:${escapeText(booking.notes)}`);
+    }
+    lines.push('END:VEVENT');
+    return lines;
+};
+
+// A VCALENDAR document with one event per booking, CRLF-terminated
+export const buildCalendar = (bookings: Booking[], halls: Hall[], calendarName: string, withContacts = false, now = new Date()): string => {
+    const lines = [
+        'BEGIN:VCALENDAR',
+        'VERSION:2.0',
+        `PRODID:${PRODUCT_ID}`,
+        'CALSCALE:GREGORIAN',
+        'METHOD:PUBLISH',
+        `X-WR-CALNAME:${escapeText(calendarName)}`,
+        ...bookings.flatMap(booking => buildEventLines(booking, halls.find(h => h.id === booking.hallId), withContacts, now)),
+        'END:VCALENDAR',
+    ];
+    return lines.map(foldLine).join('\r\n') + '\r\n';
+};
+
+// An event read from an imported calendar, as an inclusive range of dates
+export interface CalendarEvent {
+    summary: string;
+    startDate: string; // Format: YYYY-MM-DD
+    endDate: string; // Format: YYYY-MM-DD, inclusive
+}
+
+const unescapeText = (value: string): string =>
+    value.replace(/\\([\\;,nN])/g, (_, char: string) => char.toLowerCase() === 'n' ? '\n' : char);
+
+// Property name, parameters (quoted values may contain ':') and value
+const PROPERTY_PATTERN = /^([A-Za-z0-9-]+)((?:;[^:;"]+=(?:"[^"]*"|[^:;"]*))*):(.*)$/;
+
+// "20261202" or "20261202T090000Z" to a YYYY-MM-DD date
+const parseDateValue = (value: string): { date: string; hasTime: boolean } | null => {
+    const match = /^(\d{4})(\d{2})(\d{2})(T(\d{6})Z?)?$/.exec(value.trim());
+    if (!match) {
+        return null;
+    }
+    return { date: `${match[1]}-${match[2]}-${match[3]}`, hasTime: !!match[4] && match[5] !== '000000' };
+};
+
+const previousDay = (date: string): string => {
+    const value = parseYYYYMMDD(date);
+    value.setDate(value.getDate() - 1);
+    return `${value.getFullYear()}-${pad(value.getMonth() + 1)}-${pad(value.getDate())}`;
+};
+
+// Reads the VEVENTs of an .ics file, e.g. a published list of public holidays.
+// All-day events end the day before their (exclusive) DTEND.
+export const parseCalendarEvents = (text: string): CalendarEvent[] => {
+    const lines = text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+    const events: CalendarEvent[] = [];
+    let current: { summary: string; start?: string; end?: string } | null = null;
+
+    for (const line of lines) {
+        const match = PROPERTY_PATTERN.exec(line);
+        if (!match) {
+            continue;
+        }
+        const [, name, , value] = match;
+        const property = name.toUpperCase();
+        if (property === 'BEGIN' && value.toUpperCase() === 'VEVENT') {
+            current = { summary: '' };
+        } else if (property === 'END' && value.toUpperCase() === 'VEVENT') {
+            if (current?.start) {
+                const endDate = current.end && current.end > current.start ? current.end : current.start;
+                events.push({ summary: current.summary, startDate: current.start, endDate });
+            }
+            current = null;
+        } else if (current && property === 'SUMMARY') {
+            current.summary = unescapeText(value).trim();
+        } else if (current && property === 'DTSTART') {
+            current.start = parseDateValue(value)?.date;
+        } else if (current && property === 'DTEND') {
+            const end = parseDateValue(value);
+            current.end = end ? (end.hasTime ? end.date : previousDay(end.date)) : undefined;
+        }
+    }
+    return events;
+};
@@ -0,0 +1,22 @@
+import { Booking, BookingStatus, Hall, User } from '../types';
+import { BookingSlot } from './bookingRules';
+
+export const isAdmin = (user: User | null): boolean => user?.role === 'admin';
+
+export const canApprove = (user: User | null): boolean => user?.role === 'approver' || user?.role === 'admin';
+
+// Requests for halls that need vetting wait for an approver, unless one is making them
+export const getInitialStatus = (hall: Hall | undefined, user: User | null): BookingStatus =>
+    hall?.requiresApproval && !canApprove(user) ? 'pending' : 'approved';
+
+// A requester moving or resizing a booking sends it back for approval;
+// approvers keep whatever state it had.
+export const getStatusAfterEdit = (previous: Booking, next: BookingSlot, hall: Hall | undefined, user: User | null): BookingStatus | undefined => {
+    const samePlacement = previous.hallId === next.hallId && previous.date === next.date
+        && previous.time === next.time && previous.endTime === next.endTime;
+    return samePlacement || canApprove(user) ? previous.status : getInitialStatus(hall, user);
+};
+
+// Bookings without an owner predate user accounts and are left to admins
+export const canModifyBooking = (user: User | null, booking: Booking): boolean =>
+    !!user && (user.role === 'admin' || (!!booking.createdBy && booking.createdBy === user.id));
@@ -0,0 +1,144 @@
+import { Booking, RecurrenceRule, SeriesScope } from '../types';
+import { formatToYYYYMMDD, formatDateDisplay, parseYYYYMMDD } from './dateUtils';
+import { messages } from '../i18n';
+
+// Hard cap so an open-ended or mistyped rule cannot generate thousands of bookings
+export const MAX_OCCURRENCES = 366;
+
+const addDays = (date: Date, days: number): Date =>
+    new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+
+const getNthWeekdayOfMonth = (year: number, month: number, weekday: number, week: number): Date | null => {
+    if (week === -1) {
+        const lastDay = new Date(year, month + 1, 0);
+        return addDays(lastDay, -((lastDay.getDay() - weekday + 7) % 7));
+    }
+    const firstDay = new Date(year, month, 1); // month may overflow into following years
+    const date = addDays(firstDay, ((weekday - firstDay.getDay() + 7) % 7) + (week - 1) * 7);
+    return date.getMonth() === firstDay.getMonth() ? date : null;
+};
+
+export const getWeekOfMonth = (date: Date): number => Math.ceil(date.getDate() / 7);
+
+export const isLastWeekdayOfMonth = (date: Date): boolean =>
+    addDays(date, 7).getMonth() !== date.getMonth();
+
+// Expands a rule into the dates of its occurrences, starting at (and including) startDate
+export const expandRecurrence = (startDate: string, rule: RecurrenceRule): string[] => {
+    const start = parseYYYYMMDD(startDate);
+    const until = rule.until ? parseYYYYMMDD(rule.until) : null;
+    const limit = Math.min(rule.count || MAX_OCCURRENCES, MAX_OCCURRENCES);
+    const interval = Math.max(1, rule.interval || 1);
+    const candidates: Date[] = [];
+
+    // Returns false once the rule's end condition has been reached
+    const accept = (date: Date): boolean => {
+        if ((until && date > until) || candidates.length >= limit) {
+            return false;
+        }
+        if (date >= start) {
+            candidates.push(date);
+        }
+        return true;
+    };
+
+    if (rule.frequency === 'daily') {
+        for (let date = start; accept(date); date = addDays(date, interval));
+    } else if (rule.frequency === 'weekly') {
+        const weekdays = [...(rule.weekdays?.length ? rule.weekdays : [start.getDay()])].sort();
+        const firstWeekStart = addDays(start, -start.getDay());
+        outer:
+        for (let week = 0; week < MAX_OCCURRENCES; week += interval) {
+            for (const weekday of weekdays) {
+                if (!accept(addDays(firstWeekStart, week * 7 + weekday))) {
+                    break outer;
+                }
+            }
+        }
+    } else {
+        const week = rule.monthlyWeek || getWeekOfMonth(start);
+        for (let offset = 0; offset < MAX_OCCURRENCES; offset += interval) {
+            const date = getNthWeekdayOfMonth(start.getFullYear(), start.getMonth() + offset, start.getDay(), week);
+            if (date && !accept(date)) {
+                break;
+            }
+        }
+    }
+
+    const exceptions = new Set(rule.exceptions || []);
+    return candidates.map(formatToYYYYMMDD).filter(date => !exceptions.has(date));
+};
+
+// Stable comparison that ignores key order and defaulted fields
+export const isSameRecurrence = (a?: RecurrenceRule, b?: RecurrenceRule): boolean => {
+    const normalize = (rule?: RecurrenceRule) => rule && JSON.stringify([
+        rule.frequency,
+        rule.interval || 1,
+        [...(rule.weekdays || [])].sort(),
+        rule.monthlyWeek || null,
+        rule.until || null,
+        rule.count || null,
+        [...(rule.exceptions || [])].sort(),
+    ]);
+    return normalize(a) === normalize(b);
+};
+
+export const getSeriesScopeTargets = (bookings: Booking[], booking: Booking, scope: SeriesScope): Booking[] => {
+    if (scope === 'single' || !booking.seriesId) {
+        return [booking];
+    }
+    return bookings.filter(b =>
+        b.seriesId === booking.seriesId && (scope === 'series' || b.date >= booking.date)
+    );
+};
+
+// Pairs the occurrences a rule change replaces with the dates of the new rule,
+// so occurrences carry over (and keep their history) instead of being deleted
+// and re-created: same dates first, then the rest in date order. Occurrences
+// left without a date are `removed`; dates without an occurrence are new.
+export const matchOccurrences = (occurrences: Booking[], dates: string[]): { pairs: { date: string; booking?: Booking }[]; removed: Booking[] } => {
+    const sameDate = new Map<string, Booking>();
+    for (const booking of occurrences) {
+        if (dates.includes(booking.date) && !sameDate.has(booking.date)) {
+            sameDate.set(booking.date, booking);
+        }
+    }
+    const rest = occurrences
+        .filter(b => sameDate.get(b.date) !== b)
+        .sort((a, b) => a.date.localeCompare(b.date));
+    const pairs = dates.map(date => ({ date, booking: sameDate.get(date) || rest.shift() }));
+    return { pairs, removed: rest };
+};
+
+// Rule for the part of a series left behind after removing `date` (scope 'single')
+// or everything from `date` onwards (scope 'following').
+export const trimRecurrence = (rule: RecurrenceRule, date: string, scope: SeriesScope): RecurrenceRule => {
+    if (scope === 'following') {
+        const { count, ...rest } = rule;
+        return { ...rest, until: formatToYYYYMMDD(addDays(parseYYYYMMDD(date), -1)) };
+    }
+    return { ...rule, exceptions: [...(rule.exceptions || []), date] };
+};
+
+export const describeRecurrence = (rule: RecurrenceRule, startDate: string): string => {
+    const { recurrence: labels, calendar, common } = messages();
+    const start = parseYYYYMMDD(startDate);
+    const every = rule.interval > 1 ? labels.interval(rule.interval) : '';
+    let text: string;
+    if (rule.frequency === 'daily') {
+        text = labels.daily(every);
+    } else if (rule.frequency === 'weekly') {
+        const weekdays = rule.weekdays?.length ? rule.weekdays : [start.getDay()];
+        text = labels.weekly(every, [...weekdays].sort().map(d => calendar.weekdays[d]).join(common.listSeparator));
+    } else {
+        const week = rule.monthlyWeek || getWeekOfMonth(start);
+        const ordinal = week === -1 ? labels.lastOrdinal : labels.ordinals[week - 1];
+        text = labels.monthly(every, calendar.weekdays[start.getDay()], ordinal);
+    }
+    if (rule.until) {
+        text += labels.untilDate(formatDateDisplay(parseYYYYMMDD(rule.until)));
+    } else if (rule.count) {
+        text += labels.times(rule.count);
+    }
+    return text;
+};
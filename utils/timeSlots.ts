@@ -0,0 +1,146 @@
+import { Booking, Hall, HallSchedule, WorkingHours } from '../types';
+import { DEFAULT_HALL_SCHEDULE } from '../constants';
+
+export const timeToMinutes = (time: string): number => {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+};
+
+export const minutesToTime = (totalMinutes: number): string => {
+    const hours = String(Math.floor(totalMinutes / 60)).padStart(2, '0');
+    const minutes = String(totalMinutes % 60).padStart(2, '0');
+    return `${hours}:${minutes}`;
+};
+
+export const getHallSchedule = (hall?: Hall): HallSchedule =>
+    hall?.schedule || DEFAULT_HALL_SCHEDULE;
+
+// Returns the opening hours for the given day, or null when the hall is closed
+export const getWorkingHours = (schedule: HallSchedule, date: Date): WorkingHours | null => {
+    const weekday = date.getDay();
+    if (weekday in schedule.weekdayOverrides) {
+        return schedule.weekdayOverrides[weekday];
+    }
+    return { openTime: schedule.openTime, closeTime: schedule.closeTime };
+};
+
+// Slot boundaries from opening to closing time, inclusive of the closing time,
+// so a list of N boundaries describes N - 1 bookable slots.
+export const generateTimeSlots = (hours: WorkingHours, slotMinutes: number): string[] => {
+    const open = timeToMinutes(hours.openTime);
+    const close = timeToMinutes(hours.closeTime);
+    if (close <= open) {
+        return [];
+    }
+    const slots: string[] = [];
+    for (let m = open; m < close; m += slotMinutes) {
+        slots.push(minutesToTime(m));
+    }
+    slots.push(hours.closeTime);
+    return slots;
+};
+
+export const getDayTimeSlots = (schedule: HallSchedule, date: Date): string[] => {
+    const hours = getWorkingHours(schedule, date);
+    return hours ? generateTimeSlots(hours, schedule.slotMinutes) : [];
+};
+
+// Columns for views that show many days at once: the union of every weekday's
+// slot boundaries, so shorter days simply leave their trailing cells closed.
+export const getHallTimeSlots = (schedule: HallSchedule): string[] => {
+    const allHours: WorkingHours[] = [
+        { openTime: schedule.openTime, closeTime: schedule.closeTime },
+        ...Object.values(schedule.weekdayOverrides).filter((h): h is WorkingHours => h !== null),
+    ];
+    return mergeTimeSlots(...allHours.map(hours => generateTimeSlots(hours, schedule.slotMinutes)));
+};
+
+export const isWithinWorkingHours = (schedule: HallSchedule, date: Date, time: string, endTime: string): boolean => {
+    const hours = getWorkingHours(schedule, date);
+    return !!hours && time >= hours.openTime && endTime <= hours.closeTime;
+};
+
+export type RowSegment =
+    | { type: 'booking'; booking: Booking; startIndex: number; span: number }
+    | { type: 'empty'; time: string; endTime: string; startIndex: number; span: number };
+
+export type GridSegment =
+    | RowSegment
+    | { type: 'closed'; time: string; endTime: string; startIndex: number; span: number }
+    | { type: 'blocked'; reason: string; time: string; endTime: string; startIndex: number; span: number };
+
+// Lays out one row of a grid whose columns are the slots between consecutive
+// boundaries in `timeSlots`. A booking occupies every column it overlaps, so
+// bookings that do not start or end on a column boundary still render.
+export const buildRowSegments = (timeSlots: string[], bookings: Booking[]): RowSegment[] => {
+    const segments: RowSegment[] = [];
+    const overlapsSlot = (booking: Booking, index: number) =>
+        booking.time < timeSlots[index + 1] && booking.endTime > timeSlots[index];
+
+    for (let i = 0; i < timeSlots.length - 1; ) {
+        const booking = bookings.find(b => overlapsSlot(b, i));
+        if (booking) {
+            let span = 1;
+            while (i + span < timeSlots.length - 1 && overlapsSlot(booking, i + span)) {
+                span++;
+            }
+            segments.push({ type: 'booking', booking, startIndex: i, span });
+            i += span;
+        } else {
+            segments.push({ type: 'empty', time: timeSlots[i], endTime: timeSlots[i + 1], startIndex: i, span: 1 });
+            i++;
+        }
+    }
+    return segments;
+};
+
+// Lays out one hall's day on a shared grid. `gridSlots` must contain every
+// boundary in `daySlots` (see getHallTimeSlots); grid slots the hall does not
+// use that day become closed cells, and a hall slot spanning several grid
+// slots becomes one wider cell.
+export const layoutGridSegments = (gridSlots: string[], daySlots: string[], bookings: Booking[]): GridSegment[] => {
+    const segments: GridSegment[] = [];
+    let gridIndex = 0;
+    const closeUntil = (end: number) => {
+        for (; gridIndex < end; gridIndex++) {
+            segments.push({ type: 'closed', time: gridSlots[gridIndex], endTime: gridSlots[gridIndex + 1], startIndex: gridIndex, span: 1 });
+        }
+    };
+
+    for (const segment of buildRowSegments(daySlots, bookings)) {
+        const start = gridSlots.indexOf(daySlots[segment.startIndex]);
+        const end = gridSlots.indexOf(daySlots[segment.startIndex + segment.span]);
+        if (start < gridIndex || end <= start) {
+            continue;
+        }
+        closeUntil(start);
+        segments.push({ ...segment, startIndex: start, span: end - start });
+        gridIndex = end;
+    }
+    closeUntil(gridSlots.length - 1);
+    return segments;
+};
+
+// Turns the free and closed cells of a blacked-out day into blocked runs
+// labelled with the reason. Bookings made before the blackout stay visible.
+export const blockGridSegments = (segments: GridSegment[], reason?: string): GridSegment[] => {
+    if (!reason) {
+        return segments;
+    }
+    const blocked: GridSegment[] = [];
+    for (const segment of segments) {
+        const last = blocked[blocked.length - 1];
+        if (segment.type === 'booking') {
+            blocked.push(segment);
+        } else if (last?.type === 'blocked') {
+            blocked[blocked.length - 1] = { ...last, endTime: segment.endTime, span: last.span + segment.span };
+        } else {
+            blocked.push({ type: 'blocked', reason, time: segment.time, endTime: segment.endTime, startIndex: segment.startIndex, span: segment.span });
+        }
+    }
+    return blocked;
+};
+
+// Union of several slot lists, used when halls with different hours share a grid
+export const mergeTimeSlots = (...slotLists: string[][]): string[] =>
+    [...new Set(slotLists.flat())].sort();
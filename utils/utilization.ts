@@ -0,0 +1,110 @@
+import { Blackout, Booking, Hall } from '../types';
+import { formatToYYYYMMDD } from './dateUtils';
+import { getDayTimeSlots, getHallSchedule, minutesToTime, timeToMinutes } from './timeSlots';
+import { findBlackout, holdsSlot } from './bookingRules';
+import { Locale, messages } from '../i18n';
+
+// Booked against available time; minutes throughout, converted for display
+export interface UsageTotals {
+    bookedMinutes: number;
+    availableMinutes: number;
+    bookingCount: number;
+}
+
+export interface UtilizationReport {
+    totals: UsageTotals;
+    halls: ({ hallId: string } & UsageTotals)[];
+    // One row per slot start time of the selected halls' schedules; the count
+    // is of bookings using the slot
+    slots: ({ time: string } & UsageTotals)[];
+    weekdays: ({ weekday: number } & UsageTotals)[]; // Indexed by Date#getDay()
+    months: ({ month: string } & UsageTotals)[]; // YYYY-MM, oldest first
+    // Registry id, or the free text of bookings not linked yet; most hours first
+    departments: { departmentId?: string; department: string; bookedMinutes: number; bookingCount: number }[];
+}
+
+const emptyTotals = (): UsageTotals => ({ bookedMinutes: 0, availableMinutes: 0, bookingCount: 0 });
+
+export const occupancyRate = (usage: Pick<UsageTotals, 'bookedMinutes' | 'availableMinutes'>): number =>
+    usage.availableMinutes > 0 ? usage.bookedMinutes / usage.availableMinutes : 0;
+
+const overlapMinutes = (start: number, end: number, from: number, to: number) =>
+    Math.max(0, Math.min(end, to) - Math.max(start, from));
+
+// Available time is each hall's bookable slots on the given days, minus
+// closed days and blackouts. Booked time only counts bookings that hold
+// their slot (not rejected or cancelled), clipped to those slots.
+export const buildUtilizationReport = (bookings: Booking[], halls: Hall[], blackouts: Blackout[], days: Date[]): UtilizationReport => {
+    const totals = emptyTotals();
+    const byHall = new Map(halls.map(h => [h.id, emptyTotals()]));
+    const bySlot = new Map<string, UsageTotals>();
+    const byWeekday = Array.from({ length: 7 }, emptyTotals);
+    const byMonth = new Map<string, UsageTotals>();
+    const byDepartment = new Map<string, UtilizationReport['departments'][number]>();
+
+    const counted = new Map<string, Booking[]>();
+    const dates = new Set(days.map(formatToYYYYMMDD));
+    bookings
+        .filter(b => holdsSlot(b) && byHall.has(b.hallId) && dates.has(b.date))
+        .forEach(b => {
+            const key = `${b.hallId}|${b.date}`;
+            counted.set(key, [...(counted.get(key) || []), b]);
+        });
+
+    const add = (usage: UsageTotals, booked: number, available: number, count: number) => {
+        usage.bookedMinutes += booked;
+        usage.availableMinutes += available;
+        usage.bookingCount += count;
+    };
+
+    for (const day of days) {
+        const date = formatToYYYYMMDD(day);
+        const month = date.slice(0, 7);
+        if (!byMonth.has(month)) {
+            byMonth.set(month, emptyTotals());
+        }
+        for (const hall of halls) {
+            const dayBookings = counted.get(`${hall.id}|${date}`) || [];
+            const boundaries = findBlackout(blackouts, hall.id, date) ? [] : getDayTimeSlots(getHallSchedule(hall), day).map(timeToMinutes);
+            let dayBooked = 0;
+            let dayAvailable = 0;
+            for (let i = 0; i < boundaries.length - 1; i++) {
+                const [from, to] = [boundaries[i], boundaries[i + 1]];
+                const overlaps = dayBookings.map(b => overlapMinutes(timeToMinutes(b.time), timeToMinutes(b.endTime), from, to));
+                const booked = overlaps.reduce((sum, minutes) => sum + minutes, 0);
+                // Overlapping bookings cannot fill a slot more than once
+                const slotBooked = Math.min(booked, to - from);
+                const time = minutesToTime(from);
+                if (!bySlot.has(time)) {
+                    bySlot.set(time, emptyTotals());
+                }
+                add(bySlot.get(time)!, slotBooked, to - from, overlaps.filter(minutes => minutes > 0).length);
+                dayBooked += slotBooked;
+                dayAvailable += to - from;
+            }
+            for (const usage of [totals, byHall.get(hall.id)!, byWeekday[day.getDay()], byMonth.get(month)!]) {
+                add(usage, dayBooked, dayAvailable, dayBookings.length);
+            }
+            dayBookings.forEach(b => {
+                const key = b.departmentId || `text:${b.department.trim()}`;
+                const entry = byDepartment.get(key) || { departmentId: b.departmentId, department: b.department.trim(), bookedMinutes: 0, bookingCount: 0 };
+                entry.bookedMinutes += timeToMinutes(b.endTime) - timeToMinutes(b.time);
+                entry.bookingCount += 1;
+                byDepartment.set(key, entry);
+            });
+        }
+    }
+
+    return {
+        totals,
+        halls: halls.map(h => ({ hallId: h.id, ...byHall.get(h.id)! })),
+        slots: Array.from(bySlot, ([time, usage]) => ({ time, ...usage })).sort((a, b) => a.time.localeCompare(b.time)),
+        weekdays: byWeekday.map((usage, weekday) => ({ weekday, ...usage })),
+        months: Array.from(byMonth, ([month, usage]) => ({ month, ...usage })).sort((a, b) => a.month.localeCompare(b.month)),
+        departments: Array.from(byDepartment.values()).sort((a, b) => b.bookedMinutes - a.bookedMinutes || b.bookingCount - a.bookingCount),
+    };
+};
+
+// "أكتوبر 2026" for the key 2026-10
+export const formatMonthKey = (month: string, locale?: Locale): string =>
+    `${messages(locale).calendar.months[Number(month.slice(5, 7)) - 1]} ${month.slice(0, 4)}`;
@@ -0,0 +1,30 @@
+import { Hall, OrganizationSettings } from '../types';
+import { getHallSchedule } from './timeSlots';
+
+export const isWeekend = (date: Date, settings: OrganizationSettings): boolean =>
+    settings.weekendDays.includes(date.getDay());
+
+// Date#getDay() values in display order, starting with the first day of the week
+export const orderedWeekdays = (firstDayOfWeek: number): number[] =>
+    Array.from({ length: 7 }, (_, i) => (firstDayOfWeek + i) % 7);
+
+export const getWeekStart = (date: Date, firstDayOfWeek: number): Date => {
+    const offset = (date.getDay() - firstDayOfWeek + 7) % 7;
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() - offset);
+};
+
+// The hall as the booking rules see it: when the organisation closes on
+// weekends, weekend days the hall has no hours of its own for become closed.
+export const applyWorkWeek = (hall: Hall, settings: OrganizationSettings): Hall => {
+    if (!settings.closedOnWeekends) {
+        return hall;
+    }
+    const schedule = getHallSchedule(hall);
+    const weekdayOverrides = { ...schedule.weekdayOverrides };
+    for (const weekday of settings.weekendDays) {
+        if (!(weekday in weekdayOverrides)) {
+            weekdayOverrides[weekday] = null;
+        }
+    }
+    return { ...hall, schedule: { ...schedule, weekdayOverrides } };
+};